@@ -0,0 +1,189 @@
+/**
+ * HTTP Access Control
+ * Authenticates callers by API key or JWT and authorizes tool calls by role
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+import type { AuthConfig, JwtConfig } from '../config/types.js';
+import { HTTP_STATUS_CODES } from '../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import { Logger } from '../utils/logger.js';
+import { runWithContext } from '../utils/request-context.js';
+import { tracer } from '../utils/tracing.js';
+import type { Caller } from './types.js';
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Configured API key, kept only as a digest
+ */
+interface ApiKeyEntry {
+  readonly name: string;
+  readonly role: string;
+  readonly digest: Buffer;
+}
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+/**
+ * A role entry matches a tool by exact name, `prefix_*` pattern or `*`
+ */
+const matchesTool = (pattern: string, toolName: string): boolean =>
+  pattern.endsWith('*') ? toolName.startsWith(pattern.slice(0, -1)) : pattern === toolName;
+
+export class AccessControl {
+  private static instance: AccessControl;
+  private enabled = false;
+  private apiKeys: readonly ApiKeyEntry[] = [];
+  private jwtConfig: JwtConfig | undefined;
+  private roles: Readonly<Record<string, readonly string[]>> = {};
+
+  private constructor() {}
+
+  public static getInstance(): AccessControl {
+    if (!AccessControl.instance) {
+      AccessControl.instance = new AccessControl();
+    }
+    return AccessControl.instance;
+  }
+
+  public configure(config: AuthConfig): void {
+    this.enabled = config.enabled;
+    this.apiKeys = config.apiKeys.map(({ name, key, role }) => ({ name, role, digest: digest(key) }));
+    this.jwtConfig = config.jwt;
+    this.roles = config.roles;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Identify the caller from an X-API-Key header or an Authorization: Bearer API key or JWT
+   */
+  public authenticate(headers: Request['headers']): Caller {
+    const credential = this.extractCredential(headers);
+    if (!credential) {
+      throw new RestorepointError(
+        ERROR_CODES.AUTH_MISSING_TOKEN,
+        `Authentication required: send an API key in the ${API_KEY_HEADER} header or a Bearer token`,
+        HTTP_STATUS_CODES.UNAUTHORIZED
+      );
+    }
+
+    const credentialDigest = digest(credential);
+    // Compare against every key so the response time does not reveal which one matched
+    const apiKey = this.apiKeys.reduce<ApiKeyEntry | undefined>(
+      (match, entry) => (timingSafeEqual(entry.digest, credentialDigest) ? entry : match),
+      undefined
+    );
+    if (apiKey) {
+      return { name: apiKey.name, roles: [apiKey.role], method: 'api-key' };
+    }
+
+    if (this.jwtConfig) {
+      return this.verifyJwt(credential, this.jwtConfig);
+    }
+
+    throw new RestorepointError(ERROR_CODES.AUTH_INVALID_TOKEN, 'Invalid API key', HTTP_STATUS_CODES.UNAUTHORIZED);
+  }
+
+  /**
+   * Whether a caller may run a tool; everything is allowed when there is no authenticated caller
+   */
+  public isAllowed(caller: Caller | undefined, toolName: string): boolean {
+    if (!caller) {
+      return true;
+    }
+    return caller.roles.some(role => (this.roles[role] ?? []).some(pattern => matchesTool(pattern, toolName)));
+  }
+
+  /**
+   * Express middleware that rejects unauthenticated requests with 401 and records the caller for the request
+   */
+  public middleware() {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (!this.enabled) {
+        next();
+        return;
+      }
+
+      let caller: Caller;
+      try {
+        caller = this.authenticate(req.headers);
+      } catch (error) {
+        const authError = error instanceof RestorepointError
+          ? error
+          : new RestorepointError(ERROR_CODES.AUTH_INVALID_TOKEN, 'Authentication failed', HTTP_STATUS_CODES.UNAUTHORIZED);
+
+        Logger.logWithContext('warn', 'Rejected unauthenticated request', 'AccessControl', {
+          path: req.path,
+          code: authError.code,
+          ip: req.ip,
+        });
+
+        res.status(HTTP_STATUS_CODES.UNAUTHORIZED)
+          .setHeader('WWW-Authenticate', 'Bearer')
+          .json({
+            success: false,
+            error: { code: authError.code, message: authError.message },
+            timestamp: new Date().toISOString(),
+          });
+        return;
+      }
+
+      tracer.getActiveSpan()?.setAttribute('enduser.id', caller.name);
+      runWithContext({ caller }, next);
+    };
+  }
+
+  private extractCredential(headers: Request['headers']): string | undefined {
+    const apiKey = headers[API_KEY_HEADER.toLowerCase()];
+    if (typeof apiKey === 'string' && apiKey.length > 0) {
+      return apiKey;
+    }
+
+    const match = /^Bearer\s+(\S+)$/i.exec(headers.authorization ?? '');
+    return match?.[1];
+  }
+
+  /**
+   * Verify an HS256 JWT; the subject names the caller and the role claim (string or array) grants roles
+   */
+  private verifyJwt(token: string, config: JwtConfig): Caller {
+    let payload: jwt.JwtPayload;
+    try {
+      const verified = jwt.verify(token, config.secret, {
+        algorithms: ['HS256'],
+        issuer: config.issuer,
+        audience: config.audience,
+      });
+      if (typeof verified === 'string') {
+        throw new jwt.JsonWebTokenError('Unexpected string payload');
+      }
+      payload = verified;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new RestorepointError(ERROR_CODES.AUTH_TOKEN_EXPIRED, 'Token has expired', HTTP_STATUS_CODES.UNAUTHORIZED);
+      }
+      throw new RestorepointError(
+        ERROR_CODES.AUTH_INVALID_TOKEN,
+        `Invalid API key or token: ${error instanceof Error ? error.message : 'verification failed'}`,
+        HTTP_STATUS_CODES.UNAUTHORIZED
+      );
+    }
+
+    const claim: unknown = payload[config.roleClaim];
+    const roles = (Array.isArray(claim) ? claim : [claim]).filter((role): role is string => typeof role === 'string');
+
+    return { name: payload.sub ?? 'jwt', roles, method: 'jwt' };
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const accessControl = AccessControl.getInstance();
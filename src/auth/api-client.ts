@@ -1,10 +1,18 @@
 import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
-import type { AppConfig } from '../config/types.js';
+import type { AppConfig, TargetConfig } from '../config/types.js';
+import type { CircuitBreakerState } from '../types/common.js';
 import { HTTP_STATUS_CODES, RESTOREPOINT_ENDPOINTS } from '../constants/endpoints.js';
 import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
-import { tokenManager } from './token-manager.js';
+import { TokenManager, tokenManager } from './token-manager.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
 import { errorHandler } from '../utils/error-handler.js';
 import { Logger } from '../utils/logger.js';
+import { metrics, normalizeEndpoint } from '../utils/metrics.js';
+import { formatTraceparent, SPAN_KIND, tracer } from '../utils/tracing.js';
+import type { Span } from '../utils/tracing.js';
+import { redactSecrets } from '../utils/helpers.js';
+import { getRequestContext } from '../utils/request-context.js';
+import type { PlannedRequest } from '../utils/request-context.js';
 
 /**
  * API response wrapper
@@ -21,6 +29,22 @@ export interface ApiResponse<T = unknown> {
   };
 }
 
+/**
+ * Name of the target configured by the restorepoint section
+ */
+export const DEFAULT_TARGET = 'default';
+
+/**
+ * A Restorepoint appliance the server can talk to (the token is never exposed)
+ */
+export interface TargetInfo {
+  readonly name: string;
+  readonly description?: string;
+  readonly serverUrl: string;
+  readonly apiVersion: 'v1' | 'v2';
+  readonly isDefault: boolean;
+}
+
 /**
  * Request options
  */
@@ -28,29 +52,42 @@ export interface RequestOptions extends Omit<AxiosRequestConfig, 'headers' | 'ba
   readonly skipAuth?: boolean;
   readonly skipRetry?: boolean;
   readonly maxRetries?: number;
+  /**
+   * POST that changes nothing on the appliance (diagnostics, searches); still sent during a dry run
+   */
+  readonly readOnly?: boolean;
 }
 
 interface ExtendedAxiosRequestConfig extends InternalAxiosRequestConfig {
   skipAuth?: boolean;
   _retry?: boolean;
+  _startedAt?: number;
+  _attempt?: number;
+  _span?: Span;
 }
 
 /**
  * HTTP client for Restorepoint API
  * Provides authenticated requests with error handling and retry logic
+ * One client per target, each with its own token, timeouts and circuit breaker
  */
 export class ApiClient {
-  private static instance: ApiClient;
+  private static readonly clients = new Map<string, ApiClient>();
   private readonly axiosInstance: AxiosInstance;
   private readonly config: AppConfig;
+  private readonly target: TargetConfig;
+  private readonly tokenManager: TokenManager;
   private readonly defaultMaxRetries = 3;
+  private readonly circuitBreaker: CircuitBreaker;
 
-  private constructor(config: AppConfig) {
+  private constructor(config: AppConfig, target: TargetConfig, targetTokenManager: TokenManager) {
     this.config = config;
+    this.target = target;
+    this.tokenManager = targetTokenManager;
     
     this.axiosInstance = axios.create({
-      baseURL: `${config.restorepoint.serverUrl}/api/${config.restorepoint.apiVersion}`,
-      timeout: config.restorepoint.timeout,
+      baseURL: `${target.serverUrl}/api/${target.apiVersion}`,
+      timeout: target.timeout,
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
@@ -58,6 +95,17 @@ export class ApiClient {
       },
     });
 
+    const breakerName = target.name === DEFAULT_TARGET ? 'Restorepoint API' : `Restorepoint API (${target.name})`;
+    this.circuitBreaker = new CircuitBreaker(breakerName, {
+      failureThreshold: target.circuitBreaker.failureThreshold,
+      resetTimeoutMs: target.circuitBreaker.resetTimeout,
+      // Only failures to reach the appliance count; rate limiting means it is up
+      isFailure: error => {
+        const code = this.toRestorepointError(error).code;
+        return code.startsWith('NETWORK_') && code !== ERROR_CODES.NETWORK_RATE_LIMITED;
+      },
+    });
+
     this.setupInterceptors();
     this.setupTokenEvents();
   }
@@ -73,25 +121,50 @@ export class ApiClient {
   }
 
   /**
-   * Create API client instance
+   * Create API clients for the restorepoint section and every configured target
+   * Returns the default target's client
    */
   public static async create(config: AppConfig): Promise<ApiClient> {
-    if (ApiClient.instance) {
+    if (ApiClient.clients.size > 0) {
       throw new Error('ApiClient instance already exists. Use getInstance() instead.');
     }
-    ApiClient.instance = new ApiClient(config);
-    await ApiClient.instance.setupHttpsAgent();
-    return ApiClient.instance;
+
+    const targets: readonly TargetConfig[] = [{ ...config.restorepoint, name: DEFAULT_TARGET }, ...config.targets];
+    for (const target of targets) {
+      // The default target keeps the shared token manager
+      const client = new ApiClient(config, target, target.name === DEFAULT_TARGET ? tokenManager : new TokenManager());
+      await client.setupHttpsAgent();
+      ApiClient.clients.set(target.name, client);
+    }
+
+    return ApiClient.getInstance();
   }
 
   /**
-   * Get existing API client instance
+   * Get existing API client instance for a target (the default target when omitted)
    */
-  public static getInstance(): ApiClient {
-    if (!ApiClient.instance) {
+  public static getInstance(target: string = DEFAULT_TARGET): ApiClient {
+    if (ApiClient.clients.size === 0) {
       throw new Error('ApiClient instance not initialized. Call create() first.');
     }
-    return ApiClient.instance;
+
+    const client = ApiClient.clients.get(target);
+    if (!client) {
+      throw new RestorepointError(
+        ERROR_CODES.VALIDATION_INVALID_INPUT,
+        `Unknown target: ${target}. Configured targets: ${Array.from(ApiClient.clients.keys()).join(', ')}`,
+        HTTP_STATUS_CODES.BAD_REQUEST,
+        { target }
+      );
+    }
+    return client;
+  }
+
+  /**
+   * Clients for every configured target, the default target first
+   */
+  public static getTargets(): readonly ApiClient[] {
+    return Array.from(ApiClient.clients.values());
   }
 
   /**
@@ -106,10 +179,18 @@ export class ApiClient {
         try {
           // Add authentication token if available
           if (!config.skipAuth) {
-            const token = await tokenManager.ensureValidToken();
+            const token = await this.tokenManager.ensureValidToken();
             (config.headers as any)['Authorization'] = `Custom ${token}`;
           }
 
+          config._startedAt = Date.now();
+          config._span = this.startRequestSpan(config);
+          (config.headers as any)['traceparent'] = formatTraceparent(config._span);
+          const requestId = getRequestContext()?.requestId;
+          if (requestId) {
+            (config.headers as any)['X-Request-ID'] = requestId;
+          }
+
           Logger.logWithContext('debug', `Making ${config.method?.toUpperCase()} request to ${config.url}`, 'ApiClient', {
             url: config.url,
             method: config.method,
@@ -132,6 +213,9 @@ export class ApiClient {
     // Response interceptor for error handling
     this.axiosInstance.interceptors.response.use(
       (response) => {
+        this.recordUpstreamLatency(response.config, response.status);
+        this.endRequestSpan(response.config, response.status);
+
         Logger.logWithContext('debug', `Received response from ${response.config.url}`, 'ApiClient', {
           status: response.status,
           duration: response.headers['x-response-time'],
@@ -141,6 +225,8 @@ export class ApiClient {
       },
       async (error) => {
         const originalRequest = error.config;
+        this.recordUpstreamLatency(originalRequest, error.response?.status);
+        this.endRequestSpan(originalRequest, error.response?.status, error.message);
 
         Logger.logWithContext('warn', `API request failed: ${originalRequest?.method?.toUpperCase()} ${originalRequest?.url}`, 'ApiClient', {
           status: error.response?.status,
@@ -155,8 +241,8 @@ export class ApiClient {
           originalRequest._retry = true;
 
           try {
-            await tokenManager.refreshToken();
-            const token = tokenManager.getToken();
+            await this.tokenManager.refreshToken();
+            const token = this.tokenManager.getToken();
             
             if (token) {
               originalRequest.headers.Authorization = `Custom ${token}`;
@@ -174,19 +260,71 @@ export class ApiClient {
     );
   }
 
+  /**
+   * Observe upstream request latency (status "error" when no response was received)
+   */
+  private recordUpstreamLatency(config: ExtendedAxiosRequestConfig | undefined, status?: number): void {
+    if (!config?._startedAt) {
+      return;
+    }
+
+    metrics.upstreamDuration.observe(
+      {
+        target: this.target.name,
+        method: (config.method ?? 'get').toUpperCase(),
+        endpoint: normalizeEndpoint(config.url),
+        status: status !== undefined ? String(status) : 'error',
+      },
+      (Date.now() - config._startedAt) / 1000
+    );
+  }
+
+  /**
+   * Client span for one HTTP attempt, a child of the active span
+   */
+  private startRequestSpan(config: ExtendedAxiosRequestConfig): Span {
+    const method = (config.method ?? 'get').toUpperCase();
+
+    return tracer.startSpan(`${method} ${normalizeEndpoint(config.url)}`, {
+      kind: SPAN_KIND.CLIENT,
+      attributes: {
+        'http.request.method': method,
+        'url.path': config.url?.split('?')[0],
+        'server.address': new URL(this.target.serverUrl).hostname,
+        'rp.target': this.target.name,
+        'http.request.resend_count': config._attempt,
+        'rp.auth_retry': config._retry || undefined,
+      },
+    });
+  }
+
+  private endRequestSpan(config: ExtendedAxiosRequestConfig | undefined, status?: number, errorMessage?: string): void {
+    const span = config?._span;
+    if (!span) {
+      return;
+    }
+
+    span.setAttribute('http.response.status_code', status);
+    if (status === undefined || status >= 400) {
+      span.setStatus('ERROR', status === undefined ? errorMessage : `HTTP ${status}`);
+    }
+    span.end();
+  }
+
   /**
    * Setup token lifecycle events
    */
   private setupTokenEvents(): void {
-    tokenManager.setEvents({
+    this.tokenManager.setEvents({
       onTokenRefresh: (newToken) => {
-        Logger.logWithContext('info', 'Token refreshed in API client', 'ApiClient');
+        Logger.logWithContext('info', 'Token refreshed in API client', 'ApiClient', { target: this.target.name });
       },
       onTokenExpired: () => {
-        Logger.logWithContext('warn', 'Token expired in API client', 'ApiClient');
+        Logger.logWithContext('warn', 'Token expired in API client', 'ApiClient', { target: this.target.name });
       },
       onTokenRefreshFailed: (error) => {
         Logger.logWithContext('error', 'Token refresh failed in API client', 'ApiClient', {
+          target: this.target.name,
           error: error.message,
         });
       },
@@ -203,9 +341,18 @@ export class ApiClient {
     const {
       skipRetry = false,
       maxRetries = this.defaultMaxRetries,
+      readOnly = false,
       ...axiosConfig
     } = options;
 
+    // A dry run records the first changing request and stops the tool before anything is sent
+    const dryRun = getRequestContext()?.dryRun;
+    if (dryRun && config.method !== 'GET' && !readOnly) {
+      const planned = this.planRequest(config.method ?? 'GET', config.url ?? '', config.data, axiosConfig.params);
+      dryRun.request ??= planned;
+      throw new RestorepointError(ERROR_CODES.MCP_DRY_RUN, `Dry run: ${planned.method} ${planned.url} was not sent`);
+    }
+
     const fullConfig: any = {
       ...axiosConfig,
       ...config,
@@ -213,36 +360,67 @@ export class ApiClient {
       _retry: false, // Flag for retry logic
     };
 
+    // Each attempt gets its own client span, numbered by resend count
+    let attempt = 0;
+    const send = () => this.circuitBreaker.execute(() => this.axiosInstance.request({ ...fullConfig, _attempt: attempt++ }));
+
     try {
       if (skipRetry) {
-        const response = await this.axiosInstance.request(fullConfig);
+        const response = await send();
         return this.transformResponse(response);
       }
 
       return await errorHandler.retryWithBackoff(
-        () => this.axiosInstance.request(fullConfig).then(response => this.transformResponse(response)),
+        () => send().then(response => this.transformResponse(response)),
         maxRetries,
-        this.config.restorepoint.retryDelay,
-        'ApiClient'
+        this.target.retryDelay,
+        'ApiClient',
+        // Retrying cannot help while the circuit is open
+        error => !CircuitBreaker.isOpenCircuitError(error) && errorHandler.isRetryableError(error)
       );
     } catch (error) {
-      if (error instanceof RestorepointError) {
-        throw error;
-      }
-      
-      // Convert axios error to RestorepointError
-      if (axios.isAxiosError(error)) {
-        throw RestorepointError.fromHttpResponse(
-          error.response?.status || HTTP_STATUS_CODES.NETWORK_CONNECTION_FAILED,
-          error.response?.data
-        );
-      }
+      throw this.toRestorepointError(error);
+    }
+  }
 
-      throw new RestorepointError(
-        ERROR_CODES.NETWORK_CONNECTION_FAILED,
-        error instanceof Error ? error.message : 'Unknown network error'
+  /**
+   * Describe a request as it would be sent to this target, with secret values masked
+   */
+  public planRequest(method: string, endpoint: string, data?: unknown, params?: unknown): PlannedRequest {
+    return {
+      method: method.toUpperCase(),
+      url: `${this.target.serverUrl}/api/${this.target.apiVersion}${endpoint}`,
+      ...(params !== undefined ? { params: redactSecrets(params) } : {}),
+      ...(data !== undefined ? { body: redactSecrets(data) } : {}),
+    };
+  }
+
+  /**
+   * State of the circuit breaker around upstream calls
+   */
+  public getCircuitBreakerState(): CircuitBreakerState {
+    return this.circuitBreaker.getState();
+  }
+
+  /**
+   * Convert axios and unknown errors to RestorepointError
+   */
+  private toRestorepointError(error: unknown): RestorepointError {
+    if (error instanceof RestorepointError) {
+      return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+      return RestorepointError.fromHttpResponse(
+        error.response?.status || HTTP_STATUS_CODES.NETWORK_CONNECTION_FAILED,
+        error.response?.data
       );
     }
+
+    return new RestorepointError(
+      ERROR_CODES.NETWORK_CONNECTION_FAILED,
+      error instanceof Error ? error.message : 'Unknown network error'
+    );
   }
 
   /**
@@ -358,14 +536,34 @@ export class ApiClient {
     return this.config;
   }
 
+  /**
+   * Target this client talks to
+   */
+  public getTarget(): TargetInfo {
+    return {
+      name: this.target.name,
+      description: this.target.description,
+      serverUrl: this.target.serverUrl,
+      apiVersion: this.target.apiVersion,
+      isDefault: this.target.name === DEFAULT_TARGET,
+    };
+  }
+
+  /**
+   * Token state for this target, safe for logging
+   */
+  public getTokenInfo(): ReturnType<TokenManager['getTokenInfo']> {
+    return this.tokenManager.getTokenInfo();
+  }
+
   /**
    * Initialize token with configuration
    */
   public initializeToken(): void {
-    const token = this.config.restorepoint.token;
+    const token = this.target.token;
     if (token) {
       // Set initial token with default expiry
-      tokenManager.setToken(token, 24 * 60 * 60); // 24 hours
+      this.tokenManager.setToken(token, 24 * 60 * 60); // 24 hours
     }
   }
 }
@@ -1,10 +1,12 @@
 import type { AuthToken, TokenValidationResult, TokenEvents } from './types.js';
 import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
 import { Logger } from '../utils/logger.js';
+import { metrics } from '../utils/metrics.js';
 
 /**
  * Token manager for handling authentication tokens
  * Implements secure token lifecycle management with automatic refresh
+ * The shared instance holds the default target's token; other targets construct their own
  */
 export class TokenManager {
   private static instance: TokenManager;
@@ -13,10 +15,8 @@ export class TokenManager {
   private refreshTimer: NodeJS.Timeout | null = null;
   private readonly REFRESH_BUFFER_MS = 5 * 60 * 1000; // 5 minutes before expiry
 
-  private constructor() {}
-
   /**
-   * Singleton pattern implementation
+   * Shared instance for the default target
    */
   public static getInstance(): TokenManager {
     if (!TokenManager.instance) {
@@ -159,6 +159,7 @@ export class TokenManager {
 
       this.currentToken = newToken;
       this.scheduleRefresh();
+      metrics.tokenRefreshes.inc({ outcome: 'success' });
 
       Logger.logWithContext('info', 'Token refreshed successfully', 'TokenManager', {
         newExpiresAt: newToken.expiresAt.toISOString(),
@@ -170,6 +171,7 @@ export class TokenManager {
 
       return newToken;
     } catch (error) {
+      metrics.tokenRefreshes.inc({ outcome: 'failure' });
       Logger.logWithContext('error', 'Token refresh failed', 'TokenManager', {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -25,4 +25,13 @@ export interface TokenEvents {
   onTokenRefresh?: (newToken: AuthToken) => void;
   onTokenExpired?: () => void;
   onTokenRefreshFailed?: (error: Error) => void;
+}
+
+/**
+ * Authenticated HTTP caller
+ */
+export interface Caller {
+  readonly name: string;
+  readonly roles: readonly string[];
+  readonly method: 'api-key' | 'jwt';
 }
\ No newline at end of file
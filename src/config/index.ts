@@ -2,6 +2,7 @@ import { promises as fs } from 'fs';
 import { resolve } from 'path';
 import { z } from 'zod';
 import type { AppConfig, ConfigValidationResult, RestorepointConfig, McpConfig, AsyncConfig } from './types.js';
+import { DEFAULT_CONFIG } from './types.js';
 
 /**
  * Zod schemas for configuration validation
@@ -13,6 +14,18 @@ const RestorepointConfigSchema = z.object({
   timeout: z.number().int().min(1000).max(300000).default(30000),
   retryAttempts: z.number().int().min(0).max(10).default(3),
   retryDelay: z.number().int().min(100).max(60000).default(1000),
+  circuitBreaker: z.object({
+    failureThreshold: z.number().int().min(1).max(100).default(5),
+    resetTimeout: z.number().int().min(1000).max(600000).default(30000),
+  }).optional().default({}),
+});
+
+const TargetConfigSchema = RestorepointConfigSchema.extend({
+  name: z.string()
+    .min(1, 'Target name is required')
+    .regex(/^[a-zA-Z0-9_-]+$/, 'Target name can only contain alphanumeric characters, hyphens, and underscores')
+    .refine(name => name !== 'default', 'Target name "default" is reserved for the restorepoint section'),
+  description: z.string().max(200).optional(),
 });
 
 const McpConfigSchema = z.object({
@@ -29,12 +42,96 @@ const AsyncConfigSchema = z.object({
   maxConcurrentTasks: z.number().int().min(1).max(100).default(10),
   taskTimeout: z.number().int().min(60000).max(86400000).default(3600000),
   cleanupInterval: z.number().int().min(10000).max(3600000).default(300000),
+  taskStore: z.enum(['memory', 'file']).default('memory'),
+  taskStorePath: z.string().min(1).default('./data/tasks.jsonl'),
+  historyRetention: z.number().int().min(60000).max(2592000000).default(86400000),
+});
+
+const WebhookConfigSchema = z.object({
+  type: z.literal('webhook').default('webhook'),
+  enabled: z.boolean().default(true),
+  recipients: z.array(z.string().url()).min(1, 'At least one webhook URL is required'),
+  template: z.enum(['json', 'slack', 'teams']).default('json'),
+  secret: z.string().min(16, 'Webhook secret must be at least 16 characters').optional(),
+  events: z.array(z.enum(['task.completed', 'task.failed', 'task.timeout', 'backup.failed'])).default([]),
+  retryAttempts: z.number().int().min(0).max(10).default(3),
+  retryDelay: z.number().int().min(100).max(60000).default(1000),
+  timeout: z.number().int().min(1000).max(60000).default(10000),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+const NotificationsConfigSchema = z.object({
+  webhooks: z.array(WebhookConfigSchema).default([]),
+  backupJobWatchInterval: z.union([z.literal(0), z.number().int().min(60000).max(86400000)]).default(300000),
+});
+
+const TracingConfigSchema = z.object({
+  exporter: z.enum(['none', 'file']).default('none'),
+  filePath: z.string().min(1).default('./data/traces.jsonl'),
+  serviceName: z.string().min(1).default('rp-sl1-mcp'),
+});
+
+const CacheConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  maxEntries: z.number().int().min(1).max(100000).default(500),
+  ttl: z.record(z.number().int().min(0).max(86400000)).default({}),
+});
+
+const AuditConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  filePath: z.string().min(1).default('./data/audit.jsonl'),
+});
+
+const ApiKeyConfigSchema = z.object({
+  name: z.string().min(1, 'API key name is required').max(100),
+  key: z.string().min(32, 'API keys must be at least 32 characters'),
+  role: z.string().min(1, 'API key role is required'),
+});
+
+const JwtConfigSchema = z.object({
+  secret: z.string().min(32, 'JWT secret must be at least 32 characters'),
+  issuer: z.string().min(1).optional(),
+  audience: z.string().min(1).optional(),
+  roleClaim: z.string().min(1).default('role'),
+});
+
+// Configured roles are added to the built-in viewer/operator/admin roles, replacing any with the same name
+const AuthConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  apiKeys: z.array(ApiKeyConfigSchema).default([]),
+  jwt: JwtConfigSchema.optional(),
+  roles: z.record(z.array(z.string().min(1))).default({})
+    .transform(roles => ({ ...DEFAULT_CONFIG.auth.roles, ...roles })),
+}).superRefine((auth, ctx) => {
+  if (auth.enabled && auth.apiKeys.length === 0 && !auth.jwt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Authentication needs at least one API key or a jwt section' });
+  }
+  if (new Set(auth.apiKeys.map(apiKey => apiKey.name)).size !== auth.apiKeys.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiKeys'], message: 'API key names must be unique' });
+  }
+  if (new Set(auth.apiKeys.map(apiKey => apiKey.key)).size !== auth.apiKeys.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiKeys'], message: 'API keys must be unique' });
+  }
+  auth.apiKeys.forEach((apiKey, index) => {
+    if (!(apiKey.role in auth.roles)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiKeys', index, 'role'], message: `Unknown role: ${apiKey.role}` });
+    }
+  });
 });
 
 const AppConfigSchema = z.object({
   restorepoint: RestorepointConfigSchema,
+  targets: z.array(TargetConfigSchema).default([]).refine(
+    targets => new Set(targets.map(target => target.name)).size === targets.length,
+    'Target names must be unique'
+  ),
   mcp: McpConfigSchema,
   async: AsyncConfigSchema.optional().default({}),
+  notifications: NotificationsConfigSchema.optional().default({}),
+  tracing: TracingConfigSchema.optional().default({}),
+  cache: CacheConfigSchema.optional().default({}),
+  auth: AuthConfigSchema.optional().default({}),
+  audit: AuditConfigSchema.optional().default({}),
 });
 
 /**
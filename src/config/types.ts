@@ -3,6 +3,8 @@
  * Follows strict TypeScript standards with comprehensive validation
  */
 
+import type { NotificationConfig } from '../types/common.js';
+
 export interface RestorepointConfig {
   readonly serverUrl: string;
   readonly apiVersion: 'v1' | 'v2';
@@ -10,6 +12,20 @@ export interface RestorepointConfig {
   readonly timeout: number;
   readonly retryAttempts: number;
   readonly retryDelay: number;
+  readonly circuitBreaker: CircuitBreakerConfig;
+}
+
+/**
+ * An additional Restorepoint appliance, addressed by name through the tools' target argument
+ */
+export interface TargetConfig extends RestorepointConfig {
+  readonly name: string;
+  readonly description?: string;
+}
+
+export interface CircuitBreakerConfig {
+  readonly failureThreshold: number;
+  readonly resetTimeout: number;
 }
 
 export interface McpConfig {
@@ -23,12 +39,76 @@ export interface AsyncConfig {
   readonly maxConcurrentTasks: number;
   readonly taskTimeout: number;
   readonly cleanupInterval: number;
+  readonly taskStore: 'memory' | 'file';
+  readonly taskStorePath: string;
+  readonly historyRetention: number;
+}
+
+export interface WebhookConfig extends NotificationConfig {
+  readonly type: 'webhook';
+  readonly template: 'json' | 'slack' | 'teams';
+  readonly secret?: string;
+  readonly events: readonly string[];
+  readonly retryAttempts: number;
+  readonly retryDelay: number;
+  readonly timeout: number;
+}
+
+export interface NotificationsConfig {
+  readonly webhooks: readonly WebhookConfig[];
+  readonly backupJobWatchInterval: number;
+}
+
+export interface TracingConfig {
+  readonly exporter: 'none' | 'file';
+  readonly filePath: string;
+  readonly serviceName: string;
+}
+
+export interface CacheConfig {
+  readonly enabled: boolean;
+  readonly maxEntries: number;
+  readonly ttl: Readonly<Record<string, number>>;
+}
+
+export interface AuditConfig {
+  readonly enabled: boolean;
+  readonly filePath: string;
+}
+
+export interface ApiKeyConfig {
+  readonly name: string;
+  readonly key: string;
+  readonly role: string;
+}
+
+export interface JwtConfig {
+  readonly secret: string;
+  readonly issuer?: string;
+  readonly audience?: string;
+  readonly roleClaim: string;
+}
+
+/**
+ * HTTP caller authentication; roles map to the tool names (or `prefix_*` patterns) they may call
+ */
+export interface AuthConfig {
+  readonly enabled: boolean;
+  readonly apiKeys: readonly ApiKeyConfig[];
+  readonly jwt?: JwtConfig;
+  readonly roles: Readonly<Record<string, readonly string[]>>;
 }
 
 export interface AppConfig {
   readonly restorepoint: RestorepointConfig;
+  readonly targets: readonly TargetConfig[];
   readonly mcp: McpConfig;
   readonly async: AsyncConfig;
+  readonly notifications: NotificationsConfig;
+  readonly tracing: TracingConfig;
+  readonly cache: CacheConfig;
+  readonly auth: AuthConfig;
+  readonly audit: AuditConfig;
 }
 
 export interface ConfigValidationResult {
@@ -42,6 +122,7 @@ interface PartialRestorepointConfig {
   readonly timeout?: number;
   readonly retryAttempts?: number;
   readonly retryDelay?: number;
+  readonly circuitBreaker?: Partial<CircuitBreakerConfig>;
 }
 
 interface PartialMcpConfig {
@@ -53,8 +134,24 @@ interface PartialAsyncConfig {
   readonly maxConcurrentTasks?: number;
   readonly taskTimeout?: number;
   readonly cleanupInterval?: number;
+  readonly taskStore?: 'memory' | 'file';
+  readonly taskStorePath?: string;
+  readonly historyRetention?: number;
 }
 
+/**
+ * Read-only tools of the built-in viewer role
+ * Listed by name so read tools that return device configuration, command output or agent debug logs
+ * (which are not redacted and can hold credentials) are not granted by a prefix pattern
+ */
+const VIEWER_TOOLS = [
+  'list_devices', 'get_device', 'get_status', 'get_device_requirements', 'validate_device_request',
+  'list_backups', 'get_backup', 'list_restores',
+  'list_commands', 'get_command', 'list_command_schedules', 'list_command_outputs',
+  'list_agents', 'get_agent', 'get_agent_info',
+  'get_system_status', 'get_licenses', 'list_jobs', 'list_job_history', 'get_task_status', 'list_targets',
+] as const;
+
 /**
  * Default configuration values
  */
@@ -64,7 +161,12 @@ export const DEFAULT_CONFIG = {
     timeout: 30000,
     retryAttempts: 3,
     retryDelay: 1000,
+    circuitBreaker: {
+      failureThreshold: 5,
+      resetTimeout: 30000,
+    },
   },
+  targets: [],
   mcp: {
     logLevel: 'info' as const,
     maxConcurrentTasks: 10,
@@ -73,5 +175,36 @@ export const DEFAULT_CONFIG = {
     maxConcurrentTasks: 10,
     taskTimeout: 3600000,
     cleanupInterval: 300000,
+    taskStore: 'memory' as const,
+    taskStorePath: './data/tasks.jsonl',
+    historyRetention: 86400000,
+  },
+  notifications: {
+    backupJobWatchInterval: 300000,
+  },
+  tracing: {
+    exporter: 'none' as const,
+    filePath: './data/traces.jsonl',
+    serviceName: 'rp-sl1-mcp',
+  },
+  cache: {
+    enabled: true,
+    maxEntries: 500,
+  },
+  auth: {
+    enabled: false,
+    roles: {
+      viewer: VIEWER_TOOLS,
+      operator: [
+        ...VIEWER_TOOLS, 'get_command_output', 'diff_command_outputs', 'test_device_connection',
+        'create_backup', 'execute_command', 'cancel_task',
+        'schedule_command', 'update_command_schedule', 'delete_command_schedule',
+      ],
+      admin: ['*'],
+    },
+  },
+  audit: {
+    enabled: true,
+    filePath: './data/audit.jsonl',
   },
 } as const;
\ No newline at end of file
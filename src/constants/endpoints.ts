@@ -7,6 +7,7 @@ export const RESTOREPOINT_ENDPOINTS = {
   // Device Management
   DEVICES: '/devices',
   DEVICE_BY_ID: (id: string): string => `/devices/${id}`,
+  DEVICE_TEST: '/devices/test',
   DEVICE_GROUPS: '/device-groups',
   DEVICE_GROUP_BY_ID: (id: string): string => `/device-groups/${id}`,
   
@@ -16,12 +17,19 @@ export const RESTOREPOINT_ENDPOINTS = {
   BACKUP_EXECUTE: '/backups/execute',
   BACKUP_STATUS: (taskId: string): string => `/backups/status/${taskId}`,
   DEVICE_BACKUPS_PERFORM: '/devices/backups',
+  DEVICE_BACKUPS: (deviceId: string): string => `/devices/${deviceId}/backups`,
+  DEVICE_BACKUP_BY_ID: (deviceId: string, backupId: string): string => `/devices/${deviceId}/backups/${backupId}`,
+  DEVICE_BACKUP_CONFIG: (deviceId: string, backupId: string): string =>
+    `/devices/${deviceId}/backups/${backupId}/config`,
+  BACKUPS_DIFF: '/devices/backups/diff',
   
   // Restore Operations
   RESTORES: '/restores',
   RESTORE_BY_ID: (id: string): string => `/restores/${id}`,
   RESTORE_EXECUTE: '/restores/execute',
   RESTORE_STATUS: (taskId: string): string => `/restores/status/${taskId}`,
+  DEVICE_BACKUP_RESTORE: (deviceId: string, backupId: string): string =>
+    `/devices/${deviceId}/backups/${backupId}/restore`,
   
   // Command Operations
   COMMANDS: '/commands',
@@ -29,23 +37,47 @@ export const RESTOREPOINT_ENDPOINTS = {
   COMMAND_EXECUTE: '/commands/execute',
   COMMAND_STATUS: (taskId: string): string => `/commands/status/${taskId}`,
   COMMAND_SCHEDULE: '/commands/schedule',
-  COMMAND_OUTPUT: (taskId: string): string => `/commands/output/${taskId}`,
+  COMMAND_SCHEDULES: '/commands/schedules',
+  COMMAND_SCHEDULES_BY_COMMAND: (commandId: string): string => `/commands/${commandId}/schedules`,
+  COMMAND_SCHEDULE_BY_ID: (commandId: string, scheduleId: string): string =>
+    `/commands/${commandId}/schedules/${scheduleId}`,
+  COMMAND_OUTPUTS: '/commands/outputs',
+  COMMAND_OUTPUT: (outputId: string): string => `/commands/outputs/${outputId}`,
+  COMMAND_OUTPUT_DOWNLOAD: (outputId: string): string => `/commands/outputs/${outputId}/download`,
+  COMMAND_OUTPUTS_GROUPED: '/commands/outputs/grouped',
+  COMMAND_OUTPUT_GROUP: (groupId: string): string => `/commands/outputs/grouped/${groupId}`,
+  COMMAND_OUTPUTS_DIFF: '/commands/outputs/diff',
   COMMANDS_PERFORM: '/commands/perform',
   TASK_STATUS: (taskId: string): string => `/tasks/${taskId}`,
+
+  // Jobs
+  JOBS: '/jobs',
+  JOBS_HISTORIC: '/jobs/historic',
+  JOB_BY_ID: (id: string): string => `/jobs/${id}`,
   
   // Agent Management
   AGENTS: '/agents',
   AGENT_BY_ID: (id: string): string => `/agents/${id}`,
   AGENT_STATUS: (id: string): string => `/agents/${id}/status`,
   AGENT_DEBUG: (id: string): string => `/agents/${id}/debug`,
+  AGENT_INFO: (id: string): string => `/agents/${id}/info`,
+  AGENT_DEBUG_LOG: (id: string): string => `/agents/${id}/debug/log`,
   
   // System Administration
   USERS: '/users',
   USER_BY_ID: (id: string): string => `/users/${id}`,
   LICENSES: '/licenses',
-  SYSTEM_STATUS: '/system/status',
+  SYSTEM_STATUS: '/status',
+  SYSTEM_PING: '/status/ping',
+  HA_STATUS: '/settings/ha/status',
+  DOMAINS: '/domains',
   SYSTEM_MAINTENANCE: '/system/maintenance',
   
+  // Network Diagnostics
+  NETWORK_PING: '/network/ping',
+  NETWORK_RESOLVE: '/network/resolve',
+  NETWORK_FINGERPRINT: '/network/fingerprint',
+  
   // Logs and Monitoring
   LOGS: '/logs',
   LOGS_FILTER: '/logs/filter',
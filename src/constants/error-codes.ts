@@ -47,6 +47,8 @@ export const ERROR_CODES = {
   BACKUP_FAILED: 'BACKUP_FAILED',
   BACKUP_CORRUPTED: 'BACKUP_CORRUPTED',
   BACKUP_IN_PROGRESS: 'BACKUP_IN_PROGRESS',
+  BACKUP_RESTORE_FAILED: 'BACKUP_RESTORE_FAILED',
+  BACKUP_RESTORE_NOT_CONFIRMED: 'BACKUP_RESTORE_NOT_CONFIRMED',
   
   // Command Errors (1700-1799)
   COMMAND_NOT_FOUND: 'COMMAND_NOT_FOUND',
@@ -59,6 +61,7 @@ export const ERROR_CODES = {
   MCP_PROTOCOL_ERROR: 'MCP_PROTOCOL_ERROR',
   MCP_TOOL_NOT_FOUND: 'MCP_TOOL_NOT_FOUND',
   MCP_INVALID_REQUEST: 'MCP_INVALID_REQUEST',
+  MCP_DRY_RUN: 'MCP_DRY_RUN',
   
   // System Errors (1900-1999)
   SYSTEM_INTERNAL_ERROR: 'SYSTEM_INTERNAL_ERROR',
@@ -111,6 +114,8 @@ export const ERROR_MESSAGES = {
   [ERROR_CODES.BACKUP_FAILED]: 'Backup operation failed',
   [ERROR_CODES.BACKUP_CORRUPTED]: 'Backup file is corrupted',
   [ERROR_CODES.BACKUP_IN_PROGRESS]: 'Backup operation is already in progress',
+  [ERROR_CODES.BACKUP_RESTORE_FAILED]: 'Restore from backup failed',
+  [ERROR_CODES.BACKUP_RESTORE_NOT_CONFIRMED]: 'Restore requires explicit confirmation',
   
   // Command Errors
   [ERROR_CODES.COMMAND_NOT_FOUND]: 'Command not found',
@@ -123,6 +128,7 @@ export const ERROR_MESSAGES = {
   [ERROR_CODES.MCP_PROTOCOL_ERROR]: 'MCP protocol error',
   [ERROR_CODES.MCP_TOOL_NOT_FOUND]: 'Requested tool not found',
   [ERROR_CODES.MCP_INVALID_REQUEST]: 'Invalid MCP request',
+  [ERROR_CODES.MCP_DRY_RUN]: 'Dry run: the request was not sent',
   
   // System Errors
   [ERROR_CODES.SYSTEM_INTERNAL_ERROR]: 'Internal system error',
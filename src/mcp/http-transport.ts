@@ -0,0 +1,330 @@
+/**
+ * MCP Streamable HTTP transport
+ * POST carries JSON-RPC messages, GET opens an SSE stream for server notifications,
+ * DELETE ends the session. Sessions are identified by the Mcp-Session-Id header.
+ */
+
+import { randomUUID } from 'crypto';
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+
+import type { ApiClient } from '../auth/api-client.js';
+import { HTTP_STATUS_CODES } from '../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import { taskManager } from '../utils/async-handler.js';
+import type { TaskInfo } from '../utils/async-handler.js';
+import { Logger } from '../utils/logger.js';
+import { isTerminalStatus } from '../utils/task-tracker.js';
+import { createErrorResponse, createNotification } from './json-rpc.js';
+import type { JsonRpcNotification } from './json-rpc.js';
+import { McpProtocolHandler } from './protocol-handler.js';
+import type { McpProgressToken } from './protocol-handler.js';
+
+export const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+
+export interface McpHttpTransportOptions {
+  readonly getApiClient: () => ApiClient | null;
+  readonly serverName?: string;
+  readonly serverVersion?: string;
+  readonly sessionTimeoutMs?: number;
+}
+
+/**
+ * State held for each connected MCP client
+ */
+interface McpSession {
+  readonly id: string;
+  readonly handler: McpProtocolHandler;
+  readonly createdAt: Date;
+  lastActivity: Date;
+  readonly streams: Set<Response>;
+  readonly watchedTasks: Map<string, McpProgressToken>;
+}
+
+/**
+ * Session-based MCP endpoint for remote clients sharing one deployment
+ */
+export class McpHttpTransport {
+  private readonly options: McpHttpTransportOptions;
+  private readonly sessions = new Map<string, McpSession>();
+  private readonly unsubscribe: () => void;
+  private readonly cleanupInterval: NodeJS.Timeout;
+  private readonly keepAliveInterval: NodeJS.Timeout;
+  private readonly DEFAULT_SESSION_TIMEOUT = 1800000; // 30 minutes
+  private readonly KEEP_ALIVE_INTERVAL = 15000; // 15 seconds
+
+  constructor(options: McpHttpTransportOptions) {
+    this.options = options;
+    this.unsubscribe = taskManager.subscribe(task => this.handleTaskUpdate(task));
+
+    this.cleanupInterval = setInterval(() => this.cleanupIdleSessions(), 60000);
+    this.cleanupInterval.unref();
+
+    this.keepAliveInterval = setInterval(() => this.sendKeepAlive(), this.KEEP_ALIVE_INTERVAL);
+    this.keepAliveInterval.unref();
+  }
+
+  /**
+   * Build the Express router serving the MCP endpoint
+   */
+  public createRouter(): Router {
+    const router = Router();
+
+    router.post('/', (req: Request, res: Response) => {
+      void this.handlePost(req, res);
+    });
+    router.get('/', (req: Request, res: Response) => this.handleGet(req, res));
+    router.delete('/', (req: Request, res: Response) => this.handleDelete(req, res));
+
+    return router;
+  }
+
+  /**
+   * Number of active sessions
+   */
+  public getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every session and stop background work
+   */
+  public close(): void {
+    this.unsubscribe();
+    clearInterval(this.cleanupInterval);
+    clearInterval(this.keepAliveInterval);
+
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.closeSession(sessionId);
+    }
+  }
+
+  /**
+   * POST /mcp - JSON-RPC request, notification or batch
+   */
+  private async handlePost(req: Request, res: Response): Promise<void> {
+    const body: unknown = req.body;
+    const isInitialize = this.isInitializeRequest(body);
+
+    // initialize opens a new session; every other message must name an existing one
+    const session = isInitialize ? this.createSession() : this.resolveSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    session.lastActivity = new Date();
+
+    try {
+      const response = await session.handler.handleParsedMessage(body);
+
+      if (isInitialize && response && !Array.isArray(response) && 'error' in response) {
+        // Failed handshakes never establish a session
+        this.closeSession(session.id);
+        res.status(HTTP_STATUS_CODES.BAD_REQUEST).json(response);
+        return;
+      }
+
+      res.setHeader(MCP_SESSION_HEADER, session.id);
+
+      if (!response) {
+        // Notifications and responses only - nothing to return
+        res.status(HTTP_STATUS_CODES.ACCEPTED).end();
+        return;
+      }
+
+      res.status(HTTP_STATUS_CODES.OK).json(response);
+    } catch (error) {
+      Logger.logWithContext('error', 'Failed to handle MCP HTTP message', 'McpHttpTransport', {
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      res.status(HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR).json(createErrorResponse(null, error));
+    }
+  }
+
+  /**
+   * GET /mcp - open an SSE stream for server-to-client notifications
+   */
+  private handleGet(req: Request, res: Response): void {
+    const session = this.resolveSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    if (!req.accepts('text/event-stream')) {
+      this.sendTransportError(res, 406, 'Not Acceptable: client must accept text/event-stream');
+      return;
+    }
+
+    res.writeHead(HTTP_STATUS_CODES.OK, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      [MCP_SESSION_HEADER]: session.id,
+    });
+    res.flushHeaders();
+
+    session.streams.add(res);
+    session.lastActivity = new Date();
+
+    req.on('close', () => {
+      session.streams.delete(res);
+    });
+
+    Logger.logWithContext('debug', 'MCP SSE stream opened', 'McpHttpTransport', {
+      sessionId: session.id,
+      streams: session.streams.size,
+    });
+  }
+
+  /**
+   * DELETE /mcp - explicitly end a session
+   */
+  private handleDelete(req: Request, res: Response): void {
+    const session = this.resolveSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    this.closeSession(session.id);
+    res.status(HTTP_STATUS_CODES.NO_CONTENT).end();
+  }
+
+  /**
+   * Look up the session named by the request header, sending an error response if it is missing
+   */
+  private resolveSession(req: Request, res: Response): McpSession | undefined {
+    const sessionId = req.header(MCP_SESSION_HEADER);
+    if (!sessionId) {
+      this.sendTransportError(res, HTTP_STATUS_CODES.BAD_REQUEST, `Bad Request: ${MCP_SESSION_HEADER} header is required`);
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendTransportError(res, HTTP_STATUS_CODES.NOT_FOUND, 'Session not found');
+      return undefined;
+    }
+
+    return session;
+  }
+
+  private createSession(): McpSession {
+    const id = randomUUID();
+    const watchedTasks = new Map<string, McpProgressToken>();
+    const now = new Date();
+
+    const session: McpSession = {
+      id,
+      handler: new McpProtocolHandler({
+        getApiClient: this.options.getApiClient,
+        serverName: this.options.serverName,
+        serverVersion: this.options.serverVersion,
+        onTaskStarted: (taskId, progressToken) => {
+          // Clients that did not supply a token still get updates keyed by task ID
+          watchedTasks.set(taskId, progressToken ?? taskId);
+        },
+      }),
+      createdAt: now,
+      lastActivity: now,
+      streams: new Set(),
+      watchedTasks,
+    };
+
+    this.sessions.set(id, session);
+
+    Logger.logWithContext('info', 'MCP HTTP session created', 'McpHttpTransport', {
+      sessionId: id,
+      activeSessions: this.sessions.size,
+    });
+
+    return session;
+  }
+
+  private closeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    for (const stream of session.streams) {
+      stream.end();
+    }
+    session.streams.clear();
+    session.watchedTasks.clear();
+    this.sessions.delete(sessionId);
+
+    Logger.logWithContext('info', 'MCP HTTP session closed', 'McpHttpTransport', {
+      sessionId,
+      activeSessions: this.sessions.size,
+    });
+  }
+
+  /**
+   * Forward TaskManager updates as MCP progress notifications
+   */
+  private handleTaskUpdate(task: Readonly<TaskInfo>): void {
+    for (const session of this.sessions.values()) {
+      const progressToken = session.watchedTasks.get(task.id);
+      if (progressToken === undefined) {
+        continue;
+      }
+
+      this.sendNotification(
+        session,
+        createNotification('notifications/progress', {
+          progressToken,
+          progress: task.progress,
+          total: 100,
+          message: task.message,
+        })
+      );
+
+      if (isTerminalStatus(task.status)) {
+        session.watchedTasks.delete(task.id);
+      }
+    }
+  }
+
+  private sendNotification(session: McpSession, notification: JsonRpcNotification): void {
+    const event = `event: message\ndata: ${JSON.stringify(notification)}\n\n`;
+    for (const stream of session.streams) {
+      stream.write(event);
+    }
+  }
+
+  private sendKeepAlive(): void {
+    for (const session of this.sessions.values()) {
+      for (const stream of session.streams) {
+        stream.write(': keep-alive\n\n');
+      }
+    }
+  }
+
+  /**
+   * Drop sessions that have been idle with no open stream
+   */
+  private cleanupIdleSessions(): void {
+    const timeoutMs = this.options.sessionTimeoutMs ?? this.DEFAULT_SESSION_TIMEOUT;
+    const cutoff = Date.now() - timeoutMs;
+
+    for (const session of [...this.sessions.values()]) {
+      if (session.streams.size === 0 && session.lastActivity.getTime() < cutoff) {
+        this.closeSession(session.id);
+      }
+    }
+  }
+
+  private isInitializeRequest(body: unknown): boolean {
+    return (
+      !!body &&
+      typeof body === 'object' &&
+      !Array.isArray(body) &&
+      (body as Record<string, unknown>).method === 'initialize'
+    );
+  }
+
+  private sendTransportError(res: Response, status: number, message: string): void {
+    res.status(status).json(createErrorResponse(null, new RestorepointError(ERROR_CODES.MCP_INVALID_REQUEST, message)));
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * JSON-RPC 2.0 message types for the Model Context Protocol
+ * Shared by every MCP transport
+ */
+
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import type { ErrorCode } from '../constants/error-codes.js';
+
+export const JSON_RPC_VERSION = '2.0';
+
+/**
+ * MCP protocol revision implemented by this server
+ */
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+/**
+ * Standard JSON-RPC 2.0 error codes
+ */
+export const JSON_RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+/**
+ * Mapping of error codes to JSON-RPC error codes
+ * Unknown tools are reported as invalid params, as the MCP specification requires
+ */
+const MCP_ERROR_CODE_MAP: Partial<Record<ErrorCode, number>> = {
+  [ERROR_CODES.MCP_PROTOCOL_ERROR]: JSON_RPC_ERROR_CODES.PARSE_ERROR,
+  [ERROR_CODES.MCP_INVALID_REQUEST]: JSON_RPC_ERROR_CODES.INVALID_REQUEST,
+  [ERROR_CODES.MCP_TOOL_NOT_FOUND]: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+  [ERROR_CODES.MCP_SERVER_ERROR]: JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+  [ERROR_CODES.VALIDATION_MISSING_FIELD]: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+  [ERROR_CODES.VALIDATION_INVALID_INPUT]: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+};
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  readonly jsonrpc: typeof JSON_RPC_VERSION;
+  readonly id?: JsonRpcId;
+  readonly method: string;
+  readonly params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  readonly jsonrpc: typeof JSON_RPC_VERSION;
+  readonly method: string;
+  readonly params?: Record<string, unknown>;
+}
+
+export interface JsonRpcErrorObject {
+  readonly code: number;
+  readonly message: string;
+  readonly data?: {
+    readonly code: string;
+    readonly details?: Record<string, unknown>;
+  };
+}
+
+export interface JsonRpcSuccessResponse {
+  readonly jsonrpc: typeof JSON_RPC_VERSION;
+  readonly id: JsonRpcId;
+  readonly result: unknown;
+}
+
+export interface JsonRpcErrorResponse {
+  readonly jsonrpc: typeof JSON_RPC_VERSION;
+  readonly id: JsonRpcId;
+  readonly error: JsonRpcErrorObject;
+}
+
+export type JsonRpcResponse = JsonRpcSuccessResponse | JsonRpcErrorResponse;
+
+/**
+ * Check whether a parsed message is a well-formed JSON-RPC request or notification
+ */
+export const isJsonRpcRequest = (message: unknown): message is JsonRpcRequest => {
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return false;
+  }
+  const candidate = message as Record<string, unknown>;
+  return candidate.jsonrpc === JSON_RPC_VERSION && typeof candidate.method === 'string';
+};
+
+/**
+ * Build a JSON-RPC error object from any thrown value
+ */
+export const toJsonRpcError = (error: unknown, jsonRpcCode?: number): JsonRpcErrorObject => {
+  if (error instanceof RestorepointError) {
+    return {
+      code: jsonRpcCode ?? MCP_ERROR_CODE_MAP[error.code] ?? JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+      message: error.message,
+      data: {
+        code: error.code,
+        details: error.details,
+      },
+    };
+  }
+
+  return {
+    code: jsonRpcCode ?? JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+    message: error instanceof Error ? error.message : 'Unknown error occurred',
+    data: {
+      code: ERROR_CODES.MCP_SERVER_ERROR,
+    },
+  };
+};
+
+export const createSuccessResponse = (id: JsonRpcId, result: unknown): JsonRpcSuccessResponse => ({
+  jsonrpc: JSON_RPC_VERSION,
+  id,
+  result,
+});
+
+export const createErrorResponse = (id: JsonRpcId, error: unknown, jsonRpcCode?: number): JsonRpcErrorResponse => ({
+  jsonrpc: JSON_RPC_VERSION,
+  id,
+  error: toJsonRpcError(error, jsonRpcCode),
+});
+
+export const createNotification = (method: string, params?: Record<string, unknown>): JsonRpcNotification => ({
+  jsonrpc: JSON_RPC_VERSION,
+  method,
+  params,
+});
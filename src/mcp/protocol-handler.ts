@@ -0,0 +1,248 @@
+/**
+ * MCP Protocol Handler
+ * Transport-independent JSON-RPC dispatch for initialize, tools/list and tools/call
+ */
+
+import { accessControl } from '../auth/access-control.js';
+import type { ApiClient } from '../auth/api-client.js';
+import type { McpResult } from '../types/mcp-tools.js';
+import { API_CONSTANTS } from '../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import { toolRegistry } from '../tools/index.js';
+import { Logger } from '../utils/logger.js';
+import { getRequestContext } from '../utils/request-context.js';
+import {
+  JSON_RPC_ERROR_CODES,
+  MCP_PROTOCOL_VERSION,
+  createErrorResponse,
+  createSuccessResponse,
+  isJsonRpcRequest,
+} from './json-rpc.js';
+import type { JsonRpcRequest, JsonRpcResponse } from './json-rpc.js';
+
+/**
+ * Result payload of an MCP tools/call request
+ */
+export interface McpToolCallResult {
+  readonly content: readonly { readonly type: 'text'; readonly text: string }[];
+  readonly isError: boolean;
+}
+
+const SUPPORTED_METHODS = new Set([
+  'initialize',
+  'notifications/initialized',
+  'notifications/cancelled',
+  'ping',
+  'tools/list',
+  'tools/call',
+]);
+
+/**
+ * Token the client attached to a request to receive progress notifications
+ */
+export type McpProgressToken = string | number;
+
+export interface McpProtocolHandlerOptions {
+  readonly getApiClient: () => ApiClient | null;
+  readonly serverName?: string;
+  readonly serverVersion?: string;
+  /**
+   * Called when a tool call started a tracked long-running task
+   */
+  readonly onTaskStarted?: (taskId: string, progressToken: McpProgressToken | undefined) => void;
+}
+
+/**
+ * Dispatches MCP JSON-RPC messages to the shared tool handlers
+ */
+export class McpProtocolHandler {
+  private readonly options: McpProtocolHandlerOptions;
+  private initialized = false;
+
+  constructor(options: McpProtocolHandlerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Parse and handle a raw JSON-RPC payload (single message or batch)
+   */
+  public async handleRawMessage(raw: string): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      return createErrorResponse(
+        null,
+        new RestorepointError(ERROR_CODES.MCP_PROTOCOL_ERROR, 'Parse error: message is not valid JSON')
+      );
+    }
+
+    return this.handleParsedMessage(parsed);
+  }
+
+  /**
+   * Handle an already parsed JSON-RPC payload (single message or batch)
+   */
+  public async handleParsedMessage(parsed: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (Array.isArray(parsed)) {
+      if (parsed.length === 0) {
+        return createErrorResponse(
+          null,
+          new RestorepointError(ERROR_CODES.MCP_INVALID_REQUEST, 'Invalid request: empty batch')
+        );
+      }
+      const responses = await Promise.all(parsed.map(message => this.handleMessage(message)));
+      const answered = responses.filter((response): response is JsonRpcResponse => response !== null);
+      return answered.length > 0 ? answered : null;
+    }
+
+    return this.handleMessage(parsed);
+  }
+
+  /**
+   * Handle a single JSON-RPC message
+   * Returns null for notifications, which never receive a response
+   */
+  public async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!isJsonRpcRequest(message)) {
+      return createErrorResponse(
+        null,
+        new RestorepointError(ERROR_CODES.MCP_INVALID_REQUEST, 'Invalid request: expected a JSON-RPC 2.0 message')
+      );
+    }
+
+    const isNotification = message.id === undefined;
+
+    if (!SUPPORTED_METHODS.has(message.method)) {
+      if (isNotification) {
+        return null;
+      }
+      return createErrorResponse(
+        message.id ?? null,
+        new RestorepointError(ERROR_CODES.MCP_INVALID_REQUEST, `Method not found: ${message.method}`),
+        JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND
+      );
+    }
+
+    try {
+      const result = await this.dispatch(message);
+      return isNotification ? null : createSuccessResponse(message.id ?? null, result);
+    } catch (error) {
+      Logger.logWithContext('warn', `MCP request failed: ${message.method}`, 'McpProtocol', {
+        method: message.method,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return isNotification ? null : createErrorResponse(message.id ?? null, error);
+    }
+  }
+
+  /**
+   * Whether the client has completed the initialize handshake
+   */
+  public isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Route a request to its method implementation
+   */
+  private async dispatch(request: JsonRpcRequest): Promise<unknown> {
+    switch (request.method) {
+      case 'initialize':
+        return this.handleInitialize(request.params);
+      case 'notifications/initialized':
+        this.initialized = true;
+        return {};
+      case 'notifications/cancelled':
+        return {};
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: toolRegistry.list().filter(tool => accessControl.isAllowed(getRequestContext()?.caller, tool.name)) };
+      case 'tools/call':
+        return this.handleToolCall(request.params);
+      default:
+        throw new RestorepointError(ERROR_CODES.MCP_INVALID_REQUEST, `Method not found: ${request.method}`);
+    }
+  }
+
+  /**
+   * Handle the initialize handshake
+   */
+  private handleInitialize(params: Record<string, unknown> | undefined): Record<string, unknown> {
+    const requestedVersion = typeof params?.protocolVersion === 'string' ? params.protocolVersion : undefined;
+
+    Logger.logWithContext('info', 'MCP client initializing', 'McpProtocol', {
+      requestedVersion,
+      clientInfo: params?.clientInfo,
+    });
+
+    return {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {
+        tools: { listChanged: false },
+      },
+      serverInfo: {
+        name: this.options.serverName ?? API_CONSTANTS.SERVER_NAME,
+        version: this.options.serverVersion ?? API_CONSTANTS.SERVER_VERSION,
+      },
+    };
+  }
+
+  /**
+   * Handle tools/call by dispatching to the shared tool handlers
+   */
+  private async handleToolCall(params: Record<string, unknown> | undefined): Promise<McpToolCallResult> {
+    const name = params?.name;
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new RestorepointError(ERROR_CODES.VALIDATION_MISSING_FIELD, 'Invalid params: tool name is required');
+    }
+
+    if (!toolRegistry.has(name)) {
+      throw new RestorepointError(ERROR_CODES.MCP_TOOL_NOT_FOUND, `Tool not found: ${name}`);
+    }
+
+    const apiClient = this.options.getApiClient();
+    if (!apiClient) {
+      throw new RestorepointError(
+        ERROR_CODES.MCP_SERVER_ERROR,
+        'API client not available - Restorepoint connection failed'
+      );
+    }
+
+    const args = params?.arguments ?? {};
+    let result: McpResult;
+
+    try {
+      result = await toolRegistry.execute(name, args, apiClient);
+    } catch (error) {
+      result = {
+        success: false,
+        error: {
+          code: error instanceof RestorepointError ? error.code : ERROR_CODES.MCP_SERVER_ERROR,
+          message: error instanceof Error ? error.message : 'An unknown error occurred',
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
+    const taskId = result.metadata?.taskId;
+    if (typeof taskId === 'string' && this.options.onTaskStarted) {
+      this.options.onTaskStarted(taskId, this.getProgressToken(params));
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      isError: !result.success,
+    };
+  }
+
+  /**
+   * Read the progress token from the request _meta, if the client supplied one
+   */
+  private getProgressToken(params: Record<string, unknown> | undefined): McpProgressToken | undefined {
+    const meta = params?._meta as Record<string, unknown> | undefined;
+    const token = meta?.progressToken;
+    return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Restorepoint MCP Server - stdio transport
+ * Speaks newline-delimited JSON-RPC 2.0 on stdin/stdout so MCP clients can launch it directly
+ */
+
+import { createInterface } from 'readline';
+
+import { configManager } from '../config/index.js';
+import { ApiClient } from '../auth/api-client.js';
+import { Logger } from '../utils/logger.js';
+import { taskManager } from '../utils/async-handler.js';
+import { createTaskStore } from '../utils/task-store.js';
+import { taskTracker } from '../utils/task-tracker.js';
+import { notifier } from '../utils/notifier.js';
+import { createSpanExporter, tracer } from '../utils/tracing.js';
+import { responseCache } from '../utils/response-cache.js';
+import { auditLog } from '../utils/audit-log.js';
+import { McpProtocolHandler } from './protocol-handler.js';
+
+class McpStdioServer {
+  private apiClient: ApiClient | null = null;
+  private protocolHandler: McpProtocolHandler | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  public async initialize(): Promise<void> {
+    const config = await configManager.loadConfig();
+    // stdout is reserved for protocol messages
+    Logger.initialize(config, { useStderr: true });
+    taskManager.useStore(createTaskStore(config.async), { historyRetentionMs: config.async.historyRetention });
+    notifier.configure(config.notifications.webhooks);
+    tracer.useExporter(createSpanExporter(config.tracing));
+    responseCache.configure(config.cache);
+    auditLog.configure(config.audit);
+
+    try {
+      this.apiClient = await ApiClient.create(config);
+      ApiClient.getTargets().forEach(client => client.initializeToken());
+      taskTracker.resume(this.apiClient);
+      notifier.watchBackupJobs(ApiClient.getTargets(), config.notifications.backupJobWatchInterval);
+    } catch (apiError) {
+      // Continue without API client - tools/call will report the failure
+      Logger.logWithContext('error', 'Failed to initialize API client', 'McpStdioServer', {
+        error: apiError instanceof Error ? apiError.message : 'Unknown error',
+      });
+    }
+
+    this.protocolHandler = new McpProtocolHandler({
+      getApiClient: () => this.apiClient,
+      serverName: config.mcp.serverName,
+      serverVersion: config.mcp.version,
+    });
+  }
+
+  public async start(): Promise<void> {
+    await this.initialize();
+
+    const readline = createInterface({ input: process.stdin, terminal: false });
+    readline.on('line', line => {
+      const request = this.handleLine(line).finally(() => this.inFlight.delete(request));
+      this.inFlight.add(request);
+    });
+    readline.on('close', () => {
+      // The client closed stdin - finish in-flight requests and exit
+      void Promise.allSettled([...this.inFlight]).then(() => {
+        Logger.logWithContext('info', 'stdin closed, shutting down', 'McpStdioServer');
+        process.exit(0);
+      });
+    });
+
+    Logger.logWithContext('info', 'MCP stdio server ready', 'McpStdioServer');
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    if (!this.protocolHandler || line.trim().length === 0) {
+      return;
+    }
+
+    try {
+      const response = await this.protocolHandler.handleRawMessage(line);
+      if (response) {
+        process.stdout.write(`${JSON.stringify(response)}\n`);
+      }
+    } catch (error) {
+      Logger.logWithContext('error', 'Failed to handle MCP message', 'McpStdioServer', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const server = new McpStdioServer();
+  await server.start();
+}
+
+// Start the server if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    process.stderr.write(`Failed to start MCP stdio server: ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  });
+}
+
+export { McpStdioServer, main };
@@ -11,14 +11,21 @@ import { rateLimit } from 'express-rate-limit';
 
 import { configManager } from './config/index.js';
 import { ApiClient } from './auth/api-client.js';
+import { accessControl, API_KEY_HEADER } from './auth/access-control.js';
 import { Logger } from './utils/logger.js';
-import { handleListDevices, handleGetDevice } from './tools/devices/list-get.js';
-import { handleGetStatus } from './tools/devices/status.js';
-import { handleCreateDevice, handleUpdateDevice, handleDeleteDevice } from './tools/devices/crud.js';
-import { handleGetDeviceRequirements, handleValidateDeviceRequest } from './tools/devices/requirements-handler.js';
-import { handleListBackups, handleGetBackup, handleCreateBackup } from './tools/backups/index.js';
-import { handleListCommands, handleGetCommand, handleExecuteCommand, handleGetTaskStatus } from './tools/commands/index.js';
+import { taskManager } from './utils/async-handler.js';
+import { createTaskStore } from './utils/task-store.js';
+import { taskTracker } from './utils/task-tracker.js';
+import { notifier } from './utils/notifier.js';
+import { metricsRegistry, PROMETHEUS_CONTENT_TYPE } from './utils/metrics.js';
+import { getRequestContext, runWithContext } from './utils/request-context.js';
+import { createSpanExporter, formatTraceparent, parseTraceparent, SPAN_KIND, tracer } from './utils/tracing.js';
+import { responseCache } from './utils/response-cache.js';
+import { auditLog } from './utils/audit-log.js';
+import { toolRegistry } from './tools/index.js';
+import { McpHttpTransport, MCP_SESSION_HEADER } from './mcp/http-transport.js';
 import type { McpResult } from './types/mcp-tools.js';
+import { ERROR_CODES } from './constants/error-codes.js';
 
 // Simple interfaces for now
 interface ApiResponse<T = unknown> {
@@ -44,9 +51,13 @@ class RestorepointHttpServer {
   private readonly app: Application;
   private apiClient: ApiClient | null = null;
   private isShuttingDown = false;
+  private readonly mcpTransport: McpHttpTransport;
 
   constructor() {
     this.app = express();
+    this.mcpTransport = new McpHttpTransport({
+      getApiClient: () => this.apiClient,
+    });
     this.setupMiddleware();
     this.setupRoutes();
   }
@@ -57,7 +68,8 @@ class RestorepointHttpServer {
       origin: ['http://localhost:3001', 'http://localhost:3002', 'http://localhost:4001'],
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID']
+      allowedHeaders: ['Content-Type', 'Authorization', API_KEY_HEADER, 'X-Request-ID', 'traceparent', MCP_SESSION_HEADER],
+      exposedHeaders: [MCP_SESSION_HEADER, 'traceparent']
     }));
 
     const limiter = rateLimit({
@@ -78,21 +90,58 @@ class RestorepointHttpServer {
 
     this.app.use((req: Request, res: Response, next) => {
       req.requestId = req.headers['x-request-id'] as string || Math.random().toString(36).substring(7);
-      next();
+      runWithContext({ requestId: req.requestId, clientAddress: req.ip, userAgent: req.headers['user-agent'] }, next);
     });
+
+    // One server span per tool call; an incoming traceparent is continued and the span's is returned
+    this.app.post(['/tools/execute', '/mcp'], (req: Request, res: Response, next) => {
+      const span = tracer.startSpan(`${req.method} ${req.path}`, {
+        kind: SPAN_KIND.SERVER,
+        parent: parseTraceparent(req.headers.traceparent),
+        attributes: {
+          'http.request.method': req.method,
+          'url.path': req.path,
+          'rp.request_id': req.requestId,
+          'rp.tool.name': typeof req.body?.tool === 'string' ? req.body.tool : undefined,
+        },
+      });
+
+      res.setHeader('traceparent', formatTraceparent(span));
+      res.on('finish', () => {
+        span.setAttribute('http.response.status_code', res.statusCode);
+        if (res.statusCode >= 500) {
+          span.setStatus('ERROR', `HTTP ${res.statusCode}`);
+        }
+        span.end();
+      });
+
+      runWithContext({ span }, next);
+    });
+
+    // Everything except /health and /metrics needs a caller when authentication is enabled
+    this.app.use(['/info', '/tools', '/mcp'], accessControl.middleware());
   }
 
   private setupRoutes(): void {
     // Health check endpoint
     this.app.get('/health', (req: Request, res: Response) => {
       const isHealthy = !this.isShuttingDown;
+      const circuitBreaker = this.apiClient?.getCircuitBreakerState();
+      const targets = ApiClient.getTargets().map(client => ({
+        name: client.getTarget().name,
+        circuitBreaker: client.getCircuitBreakerState().state,
+      }));
+      // An open circuit means an appliance is unreachable; the server itself still answers
+      const isDegraded = targets.some(target => target.circuitBreaker !== 'CLOSED');
       const status = {
-        status: isHealthy ? 'healthy' : 'unhealthy',
+        status: !isHealthy ? 'unhealthy' : isDegraded ? 'degraded' : 'healthy',
         timestamp: new Date().toISOString(),
         uptime: process.uptime(),
         server: 'RP_SL1_API',
         version: '2.0.0',
-        apiConnected: this.apiClient !== undefined
+        apiConnected: this.apiClient !== undefined,
+        circuitBreaker: circuitBreaker ?? null,
+        targets
       };
       
       res.status(isHealthy ? 200 : 503).json({
@@ -102,25 +151,17 @@ class RestorepointHttpServer {
       });
     });
 
+    // Prometheus metrics endpoint
+    this.app.get('/metrics', (req: Request, res: Response) => {
+      res.type(PROMETHEUS_CONTENT_TYPE).send(metricsRegistry.render());
+    });
+
     // Info endpoint
     this.app.get('/info', (req: Request, res: Response) => {
-      const tools = [
-        { name: 'list_devices', description: 'List all network devices' },
-        { name: 'get_device', description: 'Get details of a specific device' },
-        { name: 'get_status', description: 'Get device status information' },
-        { name: 'create_device', description: 'Add a new device' },
-        { name: 'update_device', description: 'Update device configuration' },
-        { name: 'delete_device', description: 'Remove a device' },
-        { name: 'get_device_requirements', description: 'Get device creation requirements and supported types' },
-        { name: 'validate_device_request', description: 'Validate device creation request before submission' },
-        { name: 'list_backups', description: 'List backup history' },
-        { name: 'get_backup', description: 'Get backup details' },
-        { name: 'create_backup', description: 'Start backup operation' },
-        { name: 'list_commands', description: 'List command execution history' },
-        { name: 'get_command', description: 'Get command execution details' },
-        { name: 'execute_command', description: 'Execute command on devices' },
-        { name: 'get_task_status', description: 'Check task status' }
-      ];
+      const caller = getRequestContext()?.caller;
+      const tools = toolRegistry.list()
+        .filter(({ name }) => accessControl.isAllowed(caller, name))
+        .map(({ name, description }) => ({ name, description }));
       
       res.json({
         success: true,
@@ -130,8 +171,11 @@ class RestorepointHttpServer {
           endpoints: {
             health: '/health',
             info: '/info',
+            metrics: '/metrics',
             tools: '/tools',
-            execute: '/tools/execute'
+            schema: '/tools/:name/schema',
+            execute: '/tools/execute',
+            mcp: '/mcp'
           },
           tools
         },
@@ -144,8 +188,34 @@ class RestorepointHttpServer {
       res.json({
         success: true,
         data: {
-          message: 'Use POST /tools/execute to execute tools',
-          availableTools: ['list_devices', 'get_device', 'get_status', 'create_device', 'update_device', 'delete_device', 'get_device_requirements', 'validate_device_request', 'list_backups', 'get_backup', 'create_backup', 'list_commands', 'get_command', 'execute_command', 'get_task_status']
+          message: 'Use POST /tools/execute to execute tools and GET /tools/:name/schema for input schemas',
+          availableTools: toolRegistry.names().filter(name => accessControl.isAllowed(getRequestContext()?.caller, name))
+        },
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Tool input schema endpoint
+    this.app.get('/tools/:name/schema', (req: Request, res: Response) => {
+      const tool = toolRegistry.get(req.params.name);
+
+      if (!tool) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'TOOL_NOT_FOUND',
+            message: `Tool not found: ${req.params.name}`
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema
         },
         timestamp: new Date().toISOString()
       });
@@ -168,6 +238,17 @@ class RestorepointHttpServer {
           });
         }
 
+        if (!toolRegistry.has(tool)) {
+          return res.status(404).json({
+            success: false,
+            error: {
+              code: 'TOOL_NOT_FOUND',
+              message: `Tool not found: ${tool}`
+            },
+            timestamp: new Date().toISOString()
+          });
+        }
+
         if (!this.apiClient) {
           return res.status(503).json({
             success: false,
@@ -180,61 +261,20 @@ class RestorepointHttpServer {
         }
 
         
-        let result: McpResult;
-
-        // Execute the appropriate tool
-        switch (tool) {
-          case 'list_devices':
-            result = await handleListDevices(args, this.apiClient);
-            break;
-          case 'get_device':
-            result = await handleGetDevice(args, this.apiClient);
-            break;
-          case 'get_status':
-            result = await handleGetStatus(args, this.apiClient);
-            break;
-          case 'create_device':
-            result = await handleCreateDevice(args, this.apiClient);
-            break;
-          case 'update_device':
-            result = await handleUpdateDevice(args, this.apiClient);
-            break;
-          case 'delete_device':
-            result = await handleDeleteDevice(args, this.apiClient);
-            break;
-          case 'get_device_requirements':
-            result = await handleGetDeviceRequirements(args);
-            break;
-          case 'validate_device_request':
-            result = await handleValidateDeviceRequest(args);
-            break;
-          case 'list_backups':
-            result = await handleListBackups(args, this.apiClient);
-            break;
-          case 'get_backup':
-            result = await handleGetBackup(args, this.apiClient);
-            break;
-          case 'list_commands':
-            result = await handleListCommands(args, this.apiClient);
-            break;
-          case 'get_command':
-            result = await handleGetCommand(args, this.apiClient);
-            break;
-          case 'create_backup':
-            result = await handleCreateBackup(args, this.apiClient);
-            break;
-          case 'execute_command':
-            result = await handleExecuteCommand(args, this.apiClient);
-            break;
-          case 'get_task_status':
-            result = await handleGetTaskStatus(args, this.apiClient);
-            break;
-          default:
-            throw new Error(`Tool not found: ${tool}`);
+        const result: McpResult = await toolRegistry.execute(tool, args, this.apiClient, { requestId });
+
+        if (result.error?.code === ERROR_CODES.AUTH_UNAUTHORIZED) {
+          return res.status(403).json({
+            success: false,
+            error: {
+              code: result.error.code,
+              message: result.error.message
+            },
+            timestamp: new Date().toISOString()
+          });
         }
 
-        
-        return res.json({
+        return res.status(200).json({
           success: true,
           data: result,
           timestamp: new Date().toISOString()
@@ -253,6 +293,9 @@ class RestorepointHttpServer {
       }
     });
 
+    // MCP streamable HTTP endpoint (POST messages, GET SSE stream, DELETE session)
+    this.app.use('/mcp', this.mcpTransport.createRouter());
+
     // 404 handler
     this.app.use('*', (req: Request, res: Response) => {
       res.status(404).json({
@@ -283,11 +326,22 @@ class RestorepointHttpServer {
     try {
       const config = await configManager.loadConfig();
       Logger.initialize(config);
+      taskManager.useStore(createTaskStore(config.async), { historyRetentionMs: config.async.historyRetention });
+      notifier.configure(config.notifications.webhooks);
+      tracer.useExporter(createSpanExporter(config.tracing));
+      responseCache.configure(config.cache);
+      accessControl.configure(config.auth);
+      auditLog.configure(config.audit);
+      if (!accessControl.isEnabled()) {
+        Logger.logWithContext('warn', 'HTTP authentication is disabled; any client that can reach the server can run every tool', 'Server');
+      }
 
       // Create API client but don't block server startup on token initialization
       try {
         this.apiClient = await ApiClient.create(config);
-        this.apiClient.initializeToken();
+        ApiClient.getTargets().forEach(client => client.initializeToken());
+        taskTracker.resume(this.apiClient);
+        notifier.watchBackupJobs(ApiClient.getTargets(), config.notifications.backupJobWatchInterval);
       } catch (apiError: any) {
         // Continue without API client - server can still respond to health checks
       }
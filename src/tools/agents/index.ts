@@ -0,0 +1,314 @@
+/**
+ * Agent Management Tools Implementation
+ * Real API integration with Restorepoint remote collectors (agents)
+ */
+
+import type { McpResult, ToolRegistry } from '../../types/mcp-tools.js';
+import type { AgentStatus } from '../../types/restorepoint-api.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { AgentSchemas } from '../../utils/validators.js';
+import type { ListAgentsArgs, GetAgentArgs, GetAgentInfoArgs, GetAgentDebugLogArgs } from '../../utils/validators.js';
+
+/**
+ * Upstream field used for each sortBy value
+ */
+const AGENT_SORT_FIELDS: Record<ListAgentsArgs['sortBy'], string> = {
+  name: 'Name',
+  status: 'Connected',
+  lastSeen: 'LastSeen',
+  version: 'Version',
+};
+
+/**
+ * Derive the agent status from the upstream Connected flag
+ */
+export const getAgentStatus = (agent: Record<string, unknown>): AgentStatus =>
+  agent.Connected === true ? 'online' : agent.Connected === false ? 'offline' : 'error';
+
+const percentage = (used: unknown, total: unknown): number | undefined =>
+  typeof used === 'number' && typeof total === 'number' && total > 0
+    ? Math.round((used / total) * 1000) / 10
+    : undefined;
+
+/**
+ * Add usage percentages to the /agents/{id}/info payload
+ */
+export const summarizeAgentInfo = (info: Record<string, any>): Record<string, unknown> => ({
+  ...info,
+  memoryUsedPercent: percentage(info.Memory?.Used, info.Memory?.Total),
+  storageUsedPercent: percentage(info.Storage?.Used, info.Storage?.Total),
+});
+
+const toErrorResult = (error: unknown, fallbackMessage: string): McpResult => {
+  if (error instanceof RestorepointError) {
+    return {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        timestamp: error.timestamp.toISOString(),
+      },
+    };
+  }
+
+  return {
+    success: false,
+    error: {
+      code: ERROR_CODES.NETWORK_CONNECTION_FAILED,
+      message: `${fallbackMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      timestamp: new Date().toISOString(),
+    },
+  };
+};
+
+const logFailure = (message: string, error: unknown, context: Record<string, unknown> = {}): void => {
+  Logger.logWithContext('error', message, 'AgentTools', {
+    ...context,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+  });
+};
+
+/**
+ * Handle list_agents tool with real API integration
+ */
+export const handleListAgents = async (args: ListAgentsArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('AgentTools', 'listAgents');
+
+  try {
+    const { limit, offset, sortBy, sortOrder, status } = args;
+
+    Logger.logWithContext('info', 'Fetching agents from Restorepoint API', 'AgentTools', {
+      limit, offset, sortBy, sortOrder, status
+    });
+
+    const queryParams = new URLSearchParams({
+      limit: limit.toString(),
+      offset: offset.toString(),
+      sort: `${sortOrder === 'desc' ? '-' : ''}${AGENT_SORT_FIELDS[sortBy]}`,
+    });
+    if (status) queryParams.append('connected', String(status === 'online'));
+
+    const response = await apiClient.get<any>(`${RESTOREPOINT_ENDPOINTS.AGENTS}?${queryParams.toString()}`);
+
+    if (!response.success || !response.data) {
+      throw new RestorepointError(
+        ERROR_CODES.NETWORK_SERVER_ERROR,
+        response.message || 'Failed to retrieve agents from Restorepoint'
+      );
+    }
+
+    const rawAgents: Record<string, unknown>[] = Array.isArray(response.data) ? response.data : response.data.data || [];
+    const agents = rawAgents.map(agent => ({ ...agent, status: getAgentStatus(agent) }));
+    const total = response.metadata?.total ?? agents.length;
+    const offline = agents.filter(agent => agent.status !== 'online').length;
+
+    timer();
+
+    Logger.logWithContext('info', 'Agents retrieved successfully from API', 'AgentTools', {
+      returned: agents.length, total, offline
+    });
+
+    return {
+      success: true,
+      data: agents,
+      metadata: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+        online: agents.length - offline,
+        offline,
+      },
+      message: `Successfully retrieved ${agents.length} of ${total} agents (${offline} not connected)`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to retrieve agents from API', error);
+    return toErrorResult(error, 'Failed to retrieve agents');
+  }
+};
+
+/**
+ * Handle get_agent tool with real API integration
+ */
+export const handleGetAgent = async (args: GetAgentArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('AgentTools', 'getAgent');
+
+  try {
+    const { agentId, includeDevices, includeStatus } = args;
+
+    Logger.logWithContext('info', 'Fetching agent details from Restorepoint API', 'AgentTools', {
+      agentId, includeDevices, includeStatus
+    });
+
+    const response = await apiClient.get<any>(RESTOREPOINT_ENDPOINTS.AGENT_BY_ID(agentId));
+
+    if (!response.success || !response.data) {
+      throw new RestorepointError(
+        ERROR_CODES.NETWORK_SERVER_ERROR,
+        response.message || `Failed to retrieve agent details for agent: ${agentId}`
+      );
+    }
+
+    const { DeviceIDs, ...agent } = response.data?.data ?? response.data;
+    const deviceIds: unknown[] = Array.isArray(DeviceIDs) ? DeviceIDs : [];
+
+    const data: Record<string, unknown> = {
+      ...agent,
+      status: getAgentStatus(agent),
+      deviceCount: deviceIds.length,
+      ...(includeDevices ? { deviceIds } : {}),
+    };
+
+    // Status details are best-effort: a disconnected agent cannot report them
+    if (includeStatus) {
+      const [info, debug] = await Promise.allSettled([
+        apiClient.get<any>(RESTOREPOINT_ENDPOINTS.AGENT_INFO(agentId)),
+        apiClient.get<any>(RESTOREPOINT_ENDPOINTS.AGENT_DEBUG(agentId)),
+      ]);
+
+      data.info = info.status === 'fulfilled' && info.value.data
+        ? summarizeAgentInfo(info.value.data)
+        : { error: info.status === 'rejected' ? String(info.reason?.message ?? info.reason) : 'No agent info returned' };
+      data.debugEnabled = debug.status === 'fulfilled' ? debug.value.data?.IsDebug === true : undefined;
+    }
+
+    timer();
+
+    Logger.logWithContext('info', 'Agent details retrieved successfully from API', 'AgentTools', {
+      agentId, status: data.status, deviceCount: deviceIds.length
+    });
+
+    return {
+      success: true,
+      data,
+      message: `Successfully retrieved agent details for agent: ${agentId}`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to retrieve agent details from API', error, { agentId: args.agentId });
+    return toErrorResult(error, 'Failed to retrieve agent details');
+  }
+};
+
+/**
+ * Handle get_agent_info tool with real API integration
+ */
+export const handleGetAgentInfo = async (args: GetAgentInfoArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('AgentTools', 'getAgentInfo');
+
+  try {
+    const { agentId } = args;
+
+    Logger.logWithContext('info', 'Fetching agent system information from Restorepoint API', 'AgentTools', { agentId });
+
+    const response = await apiClient.get<any>(RESTOREPOINT_ENDPOINTS.AGENT_INFO(agentId));
+
+    if (!response.success || !response.data) {
+      throw new RestorepointError(
+        ERROR_CODES.NETWORK_SERVER_ERROR,
+        response.message || `Failed to retrieve system information for agent: ${agentId}`
+      );
+    }
+
+    timer();
+
+    return {
+      success: true,
+      data: summarizeAgentInfo(response.data),
+      message: `Successfully retrieved system information for agent: ${agentId}`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to retrieve agent system information from API', error, { agentId: args.agentId });
+    return toErrorResult(error, 'Failed to retrieve agent information');
+  }
+};
+
+/**
+ * Handle get_agent_debug_log tool with real API integration
+ */
+export const handleGetAgentDebugLog = async (args: GetAgentDebugLogArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('AgentTools', 'getAgentDebugLog');
+
+  try {
+    const { agentId, tailLines, grep } = args;
+
+    Logger.logWithContext('info', 'Fetching agent debug log from Restorepoint API', 'AgentTools', {
+      agentId, tailLines, hasGrep: !!grep
+    });
+
+    const response = await apiClient.get<unknown>(RESTOREPOINT_ENDPOINTS.AGENT_DEBUG_LOG(agentId));
+
+    if (!response.success) {
+      throw new RestorepointError(
+        ERROR_CODES.NETWORK_SERVER_ERROR,
+        response.message || `Failed to retrieve debug log for agent: ${agentId}`
+      );
+    }
+
+    const log = typeof response.data === 'string' ? response.data : '';
+    const allLines = log.split(/\r?\n/).filter(line => line.length > 0);
+    const matching = grep ? allLines.filter(line => line.toLowerCase().includes(grep.toLowerCase())) : allLines;
+    const lines = matching.slice(-tailLines);
+
+    timer();
+
+    return {
+      success: true,
+      data: {
+        agentId,
+        totalLines: allLines.length,
+        matchingLines: matching.length,
+        lines,
+        truncated: lines.length < matching.length,
+      },
+      message: allLines.length === 0
+        ? `Debug log for agent ${agentId} is empty; enable debug logging on the agent first`
+        : `Returned the last ${lines.length} of ${matching.length} debug log line(s) for agent ${agentId}`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to retrieve agent debug log from API', error, { agentId: args.agentId });
+    return toErrorResult(error, 'Failed to retrieve agent debug log');
+  }
+};
+
+/**
+ * Register agent tools
+ */
+export const registerAgentTools = (registry: ToolRegistry): void => {
+  registry.register({
+    name: 'list_agents',
+    description: 'List all agents with their status',
+    inputSchema: AgentSchemas.listAgents,
+    handler: handleListAgents,
+  });
+  registry.register({
+    name: 'get_agent',
+    description: 'Get detailed information about a specific agent',
+    inputSchema: AgentSchemas.getAgent,
+    handler: handleGetAgent,
+  });
+  registry.register({
+    name: 'get_agent_info',
+    description: 'Get agent system information (release, memory, load, uptime, storage)',
+    inputSchema: AgentSchemas.getAgentInfo,
+    handler: handleGetAgentInfo,
+  });
+  registry.register({
+    name: 'get_agent_debug_log',
+    description: 'Read the most recent lines of an agent debug log',
+    inputSchema: AgentSchemas.getAgentDebugLog,
+    handler: handleGetAgentDebugLog,
+  });
+};
@@ -0,0 +1,324 @@
+/**
+ * Backup Configuration Access
+ * Reads configuration content via /devices/{id}/backups/{backup_id}/config
+ */
+
+import type { McpResult } from '../../types/mcp-tools.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { API_CONSTANTS, RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { decodeHtmlEntities, formatBytes, limitBytes } from '../../utils/helpers.js';
+import type { GetBackupConfigArgs } from '../../utils/validators.js';
+
+/**
+ * Entry of a multi-file backup
+ */
+export interface BackupConfigFile {
+  readonly name: string;
+  readonly description?: string;
+}
+
+/**
+ * Configuration lines read from a backup
+ */
+export interface BackupConfigContent {
+  readonly isList: boolean;
+  readonly files: readonly BackupConfigFile[];
+  readonly lines: readonly string[];
+  readonly totalLines: number;
+  readonly truncated: boolean;
+}
+
+export interface FetchBackupConfigOptions {
+  readonly configType?: string;
+  readonly location?: string;
+  readonly offset?: number;
+  readonly maxLines?: number;
+}
+
+/**
+ * Lines requested per page (the appliance returns at most 500)
+ */
+const CONFIG_PAGE_SIZE = 500;
+
+/**
+ * Default cap on lines read from one configuration
+ */
+export const MAX_CONFIG_LINES = 20000;
+
+/**
+ * Read a backup configuration page by page
+ * Lines are returned HTML-decoded, starting at offset; reading stops at maxLines
+ */
+export const fetchBackupConfig = async (
+  apiClient: ApiClient,
+  deviceId: string,
+  backupId: string,
+  options: FetchBackupConfigOptions = {}
+): Promise<BackupConfigContent> => {
+  const maxLines = options.maxLines ?? MAX_CONFIG_LINES;
+  const payload: Record<string, unknown> = {};
+  if (options.configType) payload.ConfigType = options.configType;
+  if (options.location) payload.Location = options.location;
+
+  const lines: string[] = [];
+  const startOffset = options.offset ?? 0;
+  let totalLines = 0;
+  let offset = startOffset;
+
+  while (lines.length < maxLines) {
+    const queryParams = new URLSearchParams({
+      offset: offset.toString(),
+      limit: Math.min(CONFIG_PAGE_SIZE, maxLines - lines.length).toString(),
+    });
+
+    const response = await apiClient.post<any>(
+      `${RESTOREPOINT_ENDPOINTS.DEVICE_BACKUP_CONFIG(deviceId, backupId)}?${queryParams.toString()}`,
+      payload
+    );
+
+    if (!response.success || !response.data) {
+      throw new RestorepointError(
+        ERROR_CODES.BACKUP_NOT_FOUND,
+        response.message || `Failed to read configuration of backup '${backupId}' for device '${deviceId}'`
+      );
+    }
+
+    const page = response.data;
+
+    if (page.IsList) {
+      const files: BackupConfigFile[] = (Array.isArray(page.List) ? page.List : []).map((entry: any) => ({
+        name: String(entry.Name),
+        description: typeof entry.Description === 'string' ? entry.Description : undefined,
+      }));
+      return { isList: true, files, lines: [], totalLines: 0, truncated: false };
+    }
+
+    const pageLines: string[] = Array.isArray(page.Lines) ? page.Lines : [];
+    lines.push(...pageLines.map(line => decodeHtmlEntities(String(line))));
+    totalLines = typeof page.TotalLines === 'number' ? page.TotalLines : offset + pageLines.length;
+    offset += pageLines.length;
+
+    if (pageLines.length === 0 || offset >= totalLines) {
+      break;
+    }
+  }
+
+  return {
+    isList: false,
+    files: [],
+    lines: lines.slice(0, maxLines),
+    totalLines,
+    truncated: startOffset + Math.min(lines.length, maxLines) < totalLines,
+  };
+};
+
+/**
+ * File types stored as binary archives rather than text configuration
+ */
+const BINARY_FILE_TYPES = new Set(['bin', 'binary', 'bz2', 'db', 'gz', 'img', 'pkg', 'sqlite', 'tar', 'tgz', 'xz', 'zip', '7z']);
+
+/**
+ * Share of control characters above which content is treated as binary
+ */
+const BINARY_CONTROL_CHAR_RATIO = 0.1;
+
+/**
+ * Check whether configuration lines look like binary data
+ */
+export const looksBinary = (lines: readonly string[]): boolean => {
+  let total = 0;
+  let control = 0;
+  for (const line of lines) {
+    for (let index = 0; index < line.length; index++) {
+      const code = line.charCodeAt(index);
+      if (code === 0) {
+        return true;
+      }
+      if (code < 32 && code !== 9 && code !== 13) {
+        control++;
+      }
+      total++;
+    }
+  }
+  return total > 0 && control / total > BINARY_CONTROL_CHAR_RATIO;
+};
+
+/**
+ * Find the entry for a configuration type (or the first entry when no type is given)
+ */
+const findByConfigType = (entries: unknown, configType: string | undefined, ...keys: string[]): any => {
+  if (!Array.isArray(entries)) {
+    return undefined;
+  }
+  return entries.find(entry => !configType || keys.some(key => entry?.[key] === configType));
+};
+
+/**
+ * Describe a binary configuration by size and checksum instead of content
+ */
+const describeBinary = (backup: any, configType: string | undefined, fileType: string | undefined) => ({
+  binary: true,
+  configType,
+  fileType,
+  size: typeof backup.Size === 'number' ? backup.Size : undefined,
+  sizeFormatted: typeof backup.Size === 'number' ? formatBytes(backup.Size) : undefined,
+  sha256: findByConfigType(backup.SHA256Sums, configType, 'ConfigType')?.SHA256Sum,
+  md5: findByConfigType(backup.MD5s, configType, 'ConfigurationType')?.MD5,
+});
+
+/**
+ * Handle get_backup_config tool with real API integration
+ */
+export const handleGetBackupConfig = async (args: GetBackupConfigArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('BackupTools', 'getBackupConfig');
+
+  try {
+    const { deviceId, backupId, configType, location, startLine, endLine, grep, maxLines } = args;
+    const maxBytes = Math.min(args.maxBytes, API_CONSTANTS.MAX_RESPONSE_SIZE);
+
+    Logger.logWithContext('info', 'Fetching backup configuration from Restorepoint API', 'BackupTools', {
+      deviceId, backupId, configType, location, startLine, endLine, hasGrep: !!grep
+    });
+
+    const backupResponse = await apiClient.get<any>(
+      `${RESTOREPOINT_ENDPOINTS.DEVICE_BACKUP_BY_ID(deviceId, backupId)}?has_file_type=true`
+    );
+    if (!backupResponse.success || !backupResponse.data) {
+      throw new RestorepointError(
+        ERROR_CODES.BACKUP_NOT_FOUND,
+        backupResponse.message || `Backup '${backupId}' not found for device '${deviceId}'`
+      );
+    }
+
+    const backup = backupResponse.data?.data ?? backupResponse.data;
+    const fileTypeEntry = findByConfigType(backup.FileTypes, configType, 'ConfigType');
+    const fileType: string | undefined = typeof fileTypeEntry?.FileType === 'string' ? fileTypeEntry.FileType : undefined;
+
+    if (!location && fileType && BINARY_FILE_TYPES.has(fileType.toLowerCase())) {
+      timer();
+      return {
+        success: true,
+        data: describeBinary(backup, configType, fileType),
+        message: `Backup ${backupId} holds a binary ${fileType} file; content is not returned`,
+      };
+    }
+
+    // Grep searches the whole configuration; otherwise only the requested range is read
+    const offset = grep ? 0 : (startLine ?? 1) - 1;
+    const rangeLines = endLine ? endLine - (startLine ?? 1) + 1 : undefined;
+    const config = await fetchBackupConfig(apiClient, deviceId, backupId, {
+      configType,
+      location,
+      offset,
+      maxLines: grep ? MAX_CONFIG_LINES : Math.min(maxLines, rangeLines ?? maxLines),
+    });
+
+    if (config.isList) {
+      timer();
+      return {
+        success: true,
+        data: { isList: true, files: config.files },
+        message: `Backup ${backupId} contains ${config.files.length} file(s); pass location to read one`,
+      };
+    }
+
+    if (looksBinary(config.lines)) {
+      timer();
+      return {
+        success: true,
+        data: describeBinary(backup, configType, fileType),
+        message: `Backup ${backupId} configuration is binary; content is not returned`,
+      };
+    }
+
+    if (grep) {
+      const needle = grep.toLowerCase();
+      const firstLine = startLine ?? 1;
+      const lastLine = endLine ?? Number.MAX_SAFE_INTEGER;
+      const allMatches = config.lines
+        .map((text, index) => ({ line: index + 1, text }))
+        .filter(match => match.line >= firstLine && match.line <= lastLine && match.text.toLowerCase().includes(needle));
+      const { kept, bytes } = limitBytes(
+        allMatches.slice(0, maxLines),
+        match => Buffer.byteLength(match.text) + String(match.line).length + 2,
+        maxBytes
+      );
+
+      timer();
+
+      Logger.logWithContext('info', 'Backup configuration searched successfully', 'BackupTools', {
+        deviceId, backupId, matches: allMatches.length, returned: kept.length, bytes
+      });
+
+      return {
+        success: true,
+        data: {
+          configType,
+          totalLines: config.totalLines,
+          totalMatches: allMatches.length,
+          matches: kept,
+          truncated: kept.length < allMatches.length || config.truncated,
+        },
+        message: `Found ${allMatches.length} line(s) matching '${grep}' in backup ${backupId}`,
+      };
+    }
+
+    const { kept, bytes } = limitBytes(config.lines, line => Buffer.byteLength(line), maxBytes);
+    const firstLine = offset + 1;
+
+    timer();
+
+    Logger.logWithContext('info', 'Backup configuration retrieved successfully', 'BackupTools', {
+      deviceId, backupId, lines: kept.length, bytes
+    });
+
+    return {
+      success: true,
+      data: {
+        configType,
+        totalLines: config.totalLines,
+        startLine: firstLine,
+        endLine: offset + kept.length,
+        content: kept.join('\n'),
+        bytes,
+        truncated: kept.length < config.lines.length || config.truncated,
+      },
+      message: `Returned lines ${firstLine}-${offset + kept.length} of ${config.totalLines} from backup ${backupId}`,
+    };
+
+  } catch (error) {
+    timer();
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    Logger.logWithContext('error', 'Failed to retrieve backup configuration from API', 'BackupTools', {
+      deviceId: args.deviceId,
+      backupId: args.backupId,
+      error: errorMessage,
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    if (error instanceof RestorepointError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          timestamp: error.timestamp.toISOString(),
+        },
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.NETWORK_CONNECTION_FAILED,
+        message: `Failed to retrieve backup configuration: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+};
@@ -0,0 +1,256 @@
+/**
+ * Backup Diff Tool Implementation
+ * Compares two backup configurations on the appliance or locally
+ */
+
+import type { McpResult } from '../../types/mcp-tools.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { diffLines, formatUnifiedDiff, summarizeDiffOps, summarizeDiffText } from '../../utils/text-diff.js';
+import type { DiffSummary } from '../../utils/text-diff.js';
+import type { DiffBackupsArgs } from '../../utils/validators.js';
+import { fetchBackupConfig } from './config.js';
+
+/**
+ * A backup taking part in a comparison
+ */
+interface BackupRef {
+  readonly deviceId: string;
+  readonly backupId: string;
+}
+
+interface ComputedDiff {
+  readonly diff: string;
+  readonly format: 'appliance' | 'unified';
+  readonly summary: DiffSummary;
+  readonly truncated: boolean;
+}
+
+/**
+ * Maximum diff lines requested from the appliance
+ */
+const APPLIANCE_DIFF_LIMIT = 2000;
+
+/**
+ * Number of recent backups searched when resolving "latest vs previous"
+ */
+const BACKUP_LOOKUP_LIMIT = 50;
+
+/**
+ * Resolve the older (base) and newer (target) backups to compare
+ * Missing IDs default to the latest backup and the one taken before it
+ */
+const resolveBackups = async (
+  args: DiffBackupsArgs,
+  apiClient: ApiClient
+): Promise<{ base: BackupRef; target: BackupRef }> => {
+  const { deviceId, backupId, compareBackupId, compareDeviceId } = args;
+
+  if (backupId && compareBackupId) {
+    return {
+      base: { deviceId: compareDeviceId ?? deviceId, backupId: compareBackupId },
+      target: { deviceId, backupId },
+    };
+  }
+
+  const queryParams = new URLSearchParams({
+    sort: '-Created',
+    limit: BACKUP_LOOKUP_LIMIT.toString(),
+  });
+  const response = await apiClient.get<any>(
+    `${RESTOREPOINT_ENDPOINTS.DEVICE_BACKUPS(deviceId)}?${queryParams.toString()}`
+  );
+  const backups: any[] = Array.isArray(response.data) ? response.data : response.data?.data || [];
+  const backupIds = backups.map(backup => String(backup.ID ?? backup.id));
+
+  const targetId = backupId ?? backupIds[0];
+  if (!targetId) {
+    throw new RestorepointError(
+      ERROR_CODES.BACKUP_NOT_FOUND,
+      `Device '${deviceId}' has no backups to compare`
+    );
+  }
+
+  const baseId = compareBackupId ?? backupIds[backupIds.indexOf(targetId) + 1];
+  if (!baseId || (!compareBackupId && !backupIds.includes(targetId))) {
+    throw new RestorepointError(
+      ERROR_CODES.BACKUP_NOT_FOUND,
+      `No earlier backup of device '${deviceId}' found to compare with backup '${targetId}'`
+    );
+  }
+
+  return {
+    base: { deviceId: compareDeviceId ?? deviceId, backupId: baseId },
+    target: { deviceId, backupId: targetId },
+  };
+};
+
+/**
+ * Ask the appliance for the diff
+ */
+const diffOnAppliance = async (
+  apiClient: ApiClient,
+  base: BackupRef,
+  target: BackupRef,
+  args: DiffBackupsArgs
+): Promise<ComputedDiff> => {
+  const toRequestBackup = (ref: BackupRef): Record<string, unknown> => ({
+    DeviceID: parseInt(ref.deviceId, 10),
+    BackupID: parseInt(ref.backupId, 10),
+    ...(args.configType ? { ConfigType: args.configType } : {}),
+  });
+
+  const response = await apiClient.post<any>(RESTOREPOINT_ENDPOINTS.BACKUPS_DIFF, {
+    Backups: [toRequestBackup(base), toRequestBackup(target)],
+    OnlyDifferences: true,
+    Context: args.context,
+    Limit: APPLIANCE_DIFF_LIMIT,
+    HTML: false,
+  });
+
+  if (!response.success || !response.data || typeof response.data.Diff !== 'string') {
+    throw new RestorepointError(
+      ERROR_CODES.NETWORK_SERVER_ERROR,
+      response.message || 'Restorepoint did not return a diff'
+    );
+  }
+
+  const diff: string = response.data.Diff;
+  const total = typeof response.data.Total === 'number' ? response.data.Total : 0;
+
+  return {
+    diff,
+    format: 'appliance',
+    summary: summarizeDiffText(diff),
+    truncated: total > APPLIANCE_DIFF_LIMIT,
+  };
+};
+
+/**
+ * Fetch both configurations and diff them locally
+ */
+const diffLocally = async (
+  apiClient: ApiClient,
+  base: BackupRef,
+  target: BackupRef,
+  args: DiffBackupsArgs
+): Promise<ComputedDiff> => {
+  const options = { configType: args.configType };
+  const [baseConfig, targetConfig] = await Promise.all([
+    fetchBackupConfig(apiClient, base.deviceId, base.backupId, options),
+    fetchBackupConfig(apiClient, target.deviceId, target.backupId, options),
+  ]);
+
+  if (baseConfig.isList || targetConfig.isList) {
+    throw new RestorepointError(
+      ERROR_CODES.VALIDATION_INVALID_INPUT,
+      'Multi-file backups cannot be compared locally; pass a configType that holds a single configuration'
+    );
+  }
+
+  const ops = diffLines(baseConfig.lines, targetConfig.lines);
+
+  return {
+    diff: formatUnifiedDiff(ops, {
+      context: args.context,
+      oldLabel: `device ${base.deviceId} backup ${base.backupId}`,
+      newLabel: `device ${target.deviceId} backup ${target.backupId}`,
+    }),
+    format: 'unified',
+    summary: summarizeDiffOps(ops),
+    truncated: baseConfig.truncated || targetConfig.truncated,
+  };
+};
+
+/**
+ * Handle diff_backups tool with real API integration
+ */
+export const handleDiffBackups = async (args: DiffBackupsArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('BackupTools', 'diffBackups');
+
+  try {
+    const { deviceId, mode } = args;
+
+    Logger.logWithContext('info', 'Comparing backups', 'BackupTools', {
+      deviceId, backupId: args.backupId, compareBackupId: args.compareBackupId, mode
+    });
+
+    const { base, target } = await resolveBackups(args, apiClient);
+
+    let computed: ComputedDiff;
+    let fallbackReason: string | undefined;
+
+    if (mode === 'local') {
+      computed = await diffLocally(apiClient, base, target, args);
+    } else {
+      try {
+        computed = await diffOnAppliance(apiClient, base, target, args);
+      } catch (error) {
+        if (mode === 'appliance') {
+          throw error;
+        }
+        fallbackReason = error instanceof Error ? error.message : 'Unknown error';
+        Logger.logWithContext('warn', 'Appliance diff failed, comparing locally', 'BackupTools', {
+          deviceId, error: fallbackReason
+        });
+        computed = await diffLocally(apiClient, base, target, args);
+      }
+    }
+
+    timer();
+
+    const identical = computed.summary.added === 0 && computed.summary.removed === 0;
+
+    Logger.logWithContext('info', 'Backups compared successfully', 'BackupTools', {
+      base, target, format: computed.format, added: computed.summary.added, removed: computed.summary.removed
+    });
+
+    return {
+      success: true,
+      data: {
+        base,
+        target,
+        identical,
+        ...computed,
+        ...(fallbackReason ? { fallbackReason } : {}),
+      },
+      message: identical
+        ? `Backup ${base.backupId} and backup ${target.backupId} are identical`
+        : `Backup ${target.backupId} adds ${computed.summary.added} and removes ${computed.summary.removed} line(s) compared to backup ${base.backupId}`,
+    };
+
+  } catch (error) {
+    timer();
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    Logger.logWithContext('error', 'Failed to compare backups', 'BackupTools', {
+      deviceId: args.deviceId,
+      error: errorMessage,
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    if (error instanceof RestorepointError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          timestamp: error.timestamp.toISOString(),
+        },
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.NETWORK_CONNECTION_FAILED,
+        message: `Failed to compare backups: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+};
@@ -3,17 +3,26 @@
  * Real API integration with Restorepoint servers
  */
 
-import type { McpResult } from '../../types/mcp-tools.js';
+import type { McpResult, ToolRegistry } from '../../types/mcp-tools.js';
 import { Logger } from '../../utils/logger.js';
 import { ApiClient } from '../../auth/api-client.js';
 import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
 import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { taskManager } from '../../utils/async-handler.js';
+import { describeWaitOutcome, extractUpstreamTaskId, skipWaitAtTaskLimit, taskTracker } from '../../utils/task-tracker.js';
 import type { BackupListResponse, BackupResponse } from '../../types/restorepoint-api.js';
+import { BackupSchemas } from '../../utils/validators.js';
+import type { ListBackupsArgs, GetBackupArgs, CreateBackupArgs } from '../../utils/validators.js';
+import { handleRestoreBackup, handleListRestores } from './restore.js';
+import { handleDiffBackups } from './diff.js';
+import { handleGetBackupConfig } from './config.js';
+
+export { handleRestoreBackup, handleListRestores, handleDiffBackups, handleGetBackupConfig };
 
 /**
  * Handle list_backups tool with real API integration
  */
-export const handleListBackups = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleListBackups = async (args: ListBackupsArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('BackupTools', 'listBackups');
   
   try {
@@ -25,15 +34,7 @@ export const handleListBackups = async (args: unknown, apiClient: ApiClient): Pr
       deviceId,
       dateFrom,
       dateTo
-    } = args as { 
-      limit?: number; 
-      offset?: number; 
-      sortBy?: string; 
-      sortOrder?: string;
-      deviceId?: string;
-      dateFrom?: string;
-      dateTo?: string;
-    };
+    } = args;
 
     // Input validation
     if (limit < 1 || limit > 1000) {
@@ -150,13 +151,11 @@ export const handleListBackups = async (args: unknown, apiClient: ApiClient): Pr
 /**
  * Handle get_backup tool with real API integration
  */
-export const handleGetBackup = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleGetBackup = async (args: GetBackupArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('BackupTools', 'getBackup');
   
   try {
-    const { backupId } = args as { 
-      backupId: string; 
-    };
+    const { backupId } = args;
 
     if (!backupId || backupId.trim().length === 0) {
       return {
@@ -252,18 +251,14 @@ export const handleGetBackup = async (args: unknown, apiClient: ApiClient): Prom
 /**
  * Handle create_backup tool with real API integration
  */
-export const handleCreateBackup = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleCreateBackup = async (args: CreateBackupArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('BackupTools', 'createBackup');
   
   try {
-    const { deviceId, deviceIds, backupType = 'automatic' } = args as { 
-      deviceId?: string | number;
-      deviceIds?: (string | number)[];
-      backupType?: string;
-    };
+    const { deviceId, deviceIds, backupType = 'automatic', wait } = args;
 
     // Input validation
-    const devicesToBackup = deviceIds || (deviceId ? [deviceId] : []);
+    const devicesToBackup: string[] = deviceIds || (deviceId ? [deviceId] : []);
     
     if (devicesToBackup.length === 0) {
       return {
@@ -276,15 +271,28 @@ export const handleCreateBackup = async (args: unknown, apiClient: ApiClient): P
       };
     }
 
+    // Refuse up front rather than start a backup we cannot wait for
+    if (wait && !taskManager.hasCapacity()) {
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.TASK_LIMIT_EXCEEDED,
+          message: 'Too many tasks are running to wait for this backup; retry later or omit wait',
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
     Logger.logWithContext('info', 'Creating backup via Restorepoint API', 'BackupTools', {
       deviceIds: devicesToBackup,
-      backupType
+      backupType,
+      wait: !!wait
     });
 
     // Build request payload
     const payload: any = {
       backupType,
-      deviceIds: devicesToBackup.map(id => typeof id === 'string' ? parseInt(id, 10) : id)
+      deviceIds: devicesToBackup.map(id => parseInt(id, 10))
     };
 
     // Make API request to create backup
@@ -302,11 +310,64 @@ export const handleCreateBackup = async (args: unknown, apiClient: ApiClient): P
     }
 
     const backupTask = response.data;
+    const upstreamTaskId = extractUpstreamTaskId(backupTask);
+
+    const waited = wait && upstreamTaskId
+      ? await taskTracker.waitFor(apiClient, upstreamTaskId, {
+          type: 'backup',
+          message: `Backup of ${devicesToBackup.length} device(s)`,
+          details: { deviceIds: devicesToBackup, backupType },
+          ...wait,
+        }).catch(skipWaitAtTaskLimit)
+      : null;
+
+    if (wait && waited) {
+      const outcome = describeWaitOutcome(waited);
+
+      timer();
+
+      if (waited.timedOut) {
+        return {
+          success: true,
+          data: { task: outcome },
+          message: `Backup still running after ${wait.timeoutMs}ms; check get_task_status with task ${waited.task.id}`,
+          metadata: { taskId: waited.task.id, upstreamTaskId },
+        };
+      }
+
+      if (waited.task.status !== 'completed') {
+        return {
+          success: false,
+          error: {
+            code: ERROR_CODES.BACKUP_FAILED,
+            message: `Backup ${waited.task.status}: ${waited.task.message}`,
+            details: outcome,
+            timestamp: new Date().toISOString(),
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: { task: outcome },
+        message: `Backup completed for ${devicesToBackup.length} device(s)`,
+        metadata: { taskId: waited.task.id, upstreamTaskId },
+      };
+    }
+
+    // Track the upstream task locally so progress can be streamed to MCP clients
+    const trackedTask = upstreamTaskId
+      ? taskTracker.track(apiClient, upstreamTaskId, {
+          type: 'backup',
+          message: `Backup of ${devicesToBackup.length} device(s)`,
+          details: { deviceIds: devicesToBackup, backupType },
+        })
+      : null;
 
     timer();
 
     Logger.logWithContext('info', 'Backup creation initiated successfully', 'BackupTools', {
-      taskId: backupTask?.id || backupTask?.taskId,
+      taskId: upstreamTaskId,
       deviceIds: devicesToBackup,
       backupType
     });
@@ -314,7 +375,10 @@ export const handleCreateBackup = async (args: unknown, apiClient: ApiClient): P
     return {
       success: true,
       data: backupTask,
-      message: `Successfully initiated backup for ${devicesToBackup.length} device(s)`,
+      message: wait && upstreamTaskId
+        ? `Backup started as upstream job ${upstreamTaskId}; not waiting because the concurrent task limit was reached`
+        : `Successfully initiated backup for ${devicesToBackup.length} device(s)`,
+      metadata: trackedTask ? { taskId: trackedTask.id, upstreamTaskId } : undefined,
     };
 
   } catch (error) {
@@ -348,4 +412,54 @@ export const handleCreateBackup = async (args: unknown, apiClient: ApiClient): P
       },
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Register backup tools
+ */
+export const registerBackupTools = (registry: ToolRegistry): void => {
+  registry.register({
+    name: 'list_backups',
+    description: 'List backup history',
+    inputSchema: BackupSchemas.listBackups,
+    handler: handleListBackups,
+  });
+  registry.register({
+    name: 'get_backup',
+    description: 'Get backup details',
+    inputSchema: BackupSchemas.getBackup,
+    handler: handleGetBackup,
+  });
+  registry.register({
+    name: 'get_backup_config',
+    description: 'Read the configuration content of a backup (line range, grep and size limits)',
+    inputSchema: BackupSchemas.getBackupConfig,
+    handler: handleGetBackupConfig,
+  });
+  registry.register({
+    name: 'create_backup',
+    description: 'Start backup operation',
+    inputSchema: BackupSchemas.createBackup,
+    handler: handleCreateBackup,
+    mutating: true,
+  });
+  registry.register({
+    name: 'restore_backup',
+    description: 'Restore a device configuration from a backup (requires confirm; supports dryRun preview)',
+    inputSchema: BackupSchemas.restoreBackup,
+    handler: handleRestoreBackup,
+    mutating: true,
+  });
+  registry.register({
+    name: 'list_restores',
+    description: 'List active and finished restore jobs',
+    inputSchema: BackupSchemas.listRestores,
+    handler: handleListRestores,
+  });
+  registry.register({
+    name: 'diff_backups',
+    description: 'Compare two backup configurations (defaults to latest vs previous backup of a device)',
+    inputSchema: BackupSchemas.diffBackups,
+    handler: handleDiffBackups,
+  });
+};
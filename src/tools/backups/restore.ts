@@ -0,0 +1,363 @@
+/**
+ * Restore Tools Implementation
+ * Restores device configurations from backups via /devices/{id}/backups/{backup_id}/restore
+ */
+
+import type { McpResult } from '../../types/mcp-tools.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { taskManager } from '../../utils/async-handler.js';
+import { extractUpstreamTaskId, taskTracker } from '../../utils/task-tracker.js';
+import type { RestoreBackupArgs, ListRestoresArgs } from '../../utils/validators.js';
+
+/**
+ * What a restore would do, shown for dry runs and unconfirmed requests
+ */
+export interface RestorePreview {
+  readonly backup: {
+    readonly id: string;
+    readonly deviceId: string;
+    readonly name?: string;
+    readonly created?: string;
+    readonly configurationTypes?: unknown;
+  };
+  readonly targetDevice: {
+    readonly id: string;
+    readonly name?: string;
+  };
+  readonly sourceConfigType?: string;
+  readonly targetConfigType?: string;
+  readonly resetAfter: boolean;
+  readonly crossDevice: boolean;
+}
+
+/**
+ * Number of recent jobs searched for the job started by a restore
+ */
+const RESTORE_JOB_LOOKUP_LIMIT = 20;
+
+/**
+ * Check whether an upstream job is a restore job
+ */
+export const isRestoreJob = (job: unknown): boolean => {
+  if (!job || typeof job !== 'object') {
+    return false;
+  }
+  const record = job as Record<string, unknown>;
+  const type = record.Type ?? record.type;
+  return typeof type === 'string' && /restore/i.test(type);
+};
+
+const jobDeviceId = (job: Record<string, unknown>): string | undefined => {
+  const deviceId = job.DeviceID ?? job.deviceId;
+  return deviceId === undefined || deviceId === null ? undefined : String(deviceId);
+};
+
+/**
+ * Whether a job was created at or after a time; jobs without a readable creation time never match
+ * Job timestamps may only have second precision, so the comparison is made at whole seconds
+ */
+const createdSince = (job: Record<string, unknown>, since: number): boolean => {
+  const created = job.Created ?? job.created;
+  const createdAt = typeof created === 'string' || typeof created === 'number' ? new Date(created).getTime() : NaN;
+  return !Number.isNaN(createdAt) && createdAt >= Math.floor(since / 1000) * 1000;
+};
+
+const unwrapList = (data: unknown): Record<string, unknown>[] => {
+  const list = Array.isArray(data) ? data : (data as any)?.data;
+  return Array.isArray(list) ? list : [];
+};
+
+const unwrapRecord = (data: unknown): Record<string, unknown> => {
+  const record = (data as any)?.data ?? data;
+  return record && typeof record === 'object' ? record : {};
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+/**
+ * Fetch the backup and target device so the caller can see what will be overwritten
+ */
+const buildRestorePreview = async (args: RestoreBackupArgs, apiClient: ApiClient): Promise<RestorePreview> => {
+  const targetDeviceId = args.targetDeviceId ?? args.deviceId;
+
+  const backupResponse = await apiClient.get<unknown>(
+    RESTOREPOINT_ENDPOINTS.DEVICE_BACKUP_BY_ID(args.deviceId, args.backupId)
+  );
+  if (!backupResponse.success || !backupResponse.data) {
+    throw new RestorepointError(
+      ERROR_CODES.BACKUP_NOT_FOUND,
+      backupResponse.message || `Backup '${args.backupId}' not found for device '${args.deviceId}'`
+    );
+  }
+
+  const deviceResponse = await apiClient.get<unknown>(RESTOREPOINT_ENDPOINTS.DEVICE_BY_ID(targetDeviceId));
+  if (!deviceResponse.success || !deviceResponse.data) {
+    throw new RestorepointError(
+      ERROR_CODES.DEVICE_NOT_FOUND,
+      deviceResponse.message || `Target device '${targetDeviceId}' not found`
+    );
+  }
+
+  const backup = unwrapRecord(backupResponse.data);
+  const device = unwrapRecord(deviceResponse.data);
+
+  return {
+    backup: {
+      id: args.backupId,
+      deviceId: args.deviceId,
+      name: optionalString(backup.Name ?? backup.name),
+      created: optionalString(backup.Created ?? backup.created),
+      configurationTypes: backup.ConfigurationTypes,
+    },
+    targetDevice: {
+      id: targetDeviceId,
+      name: optionalString(device.Name ?? device.name),
+    },
+    sourceConfigType: args.sourceConfigType,
+    targetConfigType: args.targetConfigType,
+    resetAfter: args.resetAfter,
+    crossDevice: targetDeviceId !== args.deviceId,
+  };
+};
+
+const describePreview = (preview: RestorePreview): string =>
+  `backup ${preview.backup.id} (taken ${preview.backup.created ?? 'at an unknown time'}) ` +
+  `onto device ${preview.targetDevice.name ?? 'unknown'} (${preview.targetDevice.id})`;
+
+/**
+ * Find the job started by a restore; the restore endpoint does not return one
+ * Only jobs created since the restore was requested match, so an earlier restore is never picked up.
+ * Best-effort: returns null when no matching job is found
+ */
+const findRestoreJobId = async (apiClient: ApiClient, targetDeviceId: string, requestedAt: number): Promise<string | null> => {
+  try {
+    const queryParams = new URLSearchParams({
+      limit: RESTORE_JOB_LOOKUP_LIMIT.toString(),
+      sort: '-Created',
+    });
+    const response = await apiClient.get<unknown>(`${RESTOREPOINT_ENDPOINTS.JOBS}?${queryParams.toString()}`, {
+      maxRetries: 1,
+    });
+    const job = unwrapList(response.data).find(
+      candidate => isRestoreJob(candidate) && jobDeviceId(candidate) === targetDeviceId && createdSince(candidate, requestedAt)
+    );
+    return job ? extractUpstreamTaskId(job) : null;
+  } catch (error) {
+    Logger.logWithContext('warn', 'Unable to look up restore job', 'RestoreTools', {
+      targetDeviceId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+};
+
+/**
+ * Handle restore_backup tool with real API integration
+ */
+export const handleRestoreBackup = async (args: RestoreBackupArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('RestoreTools', 'restoreBackup');
+
+  try {
+    const { deviceId, backupId, sourceConfigType, targetConfigType, resetAfter, confirm, dryRun } = args;
+    const targetDeviceId = args.targetDeviceId ?? deviceId;
+
+    Logger.logWithContext('info', 'Preparing restore from backup', 'RestoreTools', {
+      deviceId, backupId, targetDeviceId, dryRun, confirm
+    });
+
+    const preview = await buildRestorePreview(args, apiClient);
+
+    // Build request payload
+    const endpoint = RESTOREPOINT_ENDPOINTS.DEVICE_BACKUP_RESTORE(deviceId, backupId);
+    const payload: Record<string, unknown> = {
+      TargetDeviceID: parseInt(targetDeviceId, 10),
+      ResetAfter: resetAfter,
+    };
+    if (sourceConfigType) payload.SourceConfigType = sourceConfigType;
+    if (targetConfigType) payload.TargetConfigType = targetConfigType;
+
+    if (dryRun) {
+      timer();
+      return {
+        success: true,
+        data: { dryRun: true, preview, request: apiClient.planRequest('POST', endpoint, payload) },
+        message: `Dry run: would restore ${describePreview(preview)}`,
+      };
+    }
+
+    if (!confirm) {
+      timer();
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.BACKUP_RESTORE_NOT_CONFIRMED,
+          message: `Restoring ${describePreview(preview)} overwrites its configuration; set confirm to true to proceed`,
+          details: { preview },
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
+    const requestedAt = Date.now();
+    const response = await apiClient.post<unknown>(endpoint, payload);
+
+    if (!response.success) {
+      throw new RestorepointError(
+        ERROR_CODES.BACKUP_RESTORE_FAILED,
+        response.message || 'Failed to start restore on Restorepoint',
+        response.errors ? Object.keys(response.errors).length : 0
+      );
+    }
+
+    const upstreamTaskId = extractUpstreamTaskId(response.data) ?? await findRestoreJobId(apiClient, targetDeviceId, requestedAt);
+
+    // Track the restore job locally so progress can be streamed to MCP clients
+    const trackedTask = upstreamTaskId
+      ? taskTracker.track(apiClient, upstreamTaskId, {
+          type: 'restore',
+          message: `Restore of ${describePreview(preview)}`,
+          details: { deviceId, backupId, targetDeviceId },
+          statusEndpoint: RESTOREPOINT_ENDPOINTS.JOB_BY_ID,
+        })
+      : null;
+
+    timer();
+
+    Logger.logWithContext('info', 'Restore initiated successfully', 'RestoreTools', {
+      deviceId, backupId, targetDeviceId, upstreamTaskId
+    });
+
+    return {
+      success: true,
+      data: { preview, upstreamTaskId },
+      message: `Successfully initiated restore of ${describePreview(preview)}`,
+      metadata: trackedTask ? { taskId: trackedTask.id, upstreamTaskId } : undefined,
+    };
+
+  } catch (error) {
+    timer();
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    Logger.logWithContext('error', 'Failed to restore backup via API', 'RestoreTools', {
+      deviceId: args.deviceId,
+      backupId: args.backupId,
+      error: errorMessage,
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    if (error instanceof RestorepointError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          timestamp: error.timestamp.toISOString(),
+        },
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.BACKUP_RESTORE_FAILED,
+        message: `Failed to restore backup: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+};
+
+/**
+ * Handle list_restores tool with real API integration
+ * Combines active and finished Restorepoint restore jobs with locally tracked restores
+ */
+export const handleListRestores = async (args: ListRestoresArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('RestoreTools', 'listRestores');
+
+  try {
+    const { deviceId, includeHistoric, limit } = args;
+
+    Logger.logWithContext('info', 'Fetching restore jobs from Restorepoint API', 'RestoreTools', {
+      deviceId, includeHistoric, limit
+    });
+
+    const matches = (job: Record<string, unknown>): boolean =>
+      isRestoreJob(job) && (!deviceId || jobDeviceId(job) === deviceId);
+
+    const activeResponse = await apiClient.get<unknown>(RESTOREPOINT_ENDPOINTS.JOBS);
+    const active = unwrapList(activeResponse.data).filter(matches);
+
+    let historic: Record<string, unknown>[] = [];
+    if (includeHistoric) {
+      const queryParams = new URLSearchParams({ limit: '500', sort: '-Created' });
+      const historicResponse = await apiClient.get<unknown>(
+        `${RESTOREPOINT_ENDPOINTS.JOBS_HISTORIC}?${queryParams.toString()}`
+      );
+      historic = unwrapList(historicResponse.data).filter(matches).slice(0, limit);
+    }
+
+    const tracked = taskManager
+      .getTasks({ type: 'restore' })
+      .filter(task => !deviceId || task.details?.targetDeviceId === deviceId)
+      .map(task => ({
+        taskId: task.id,
+        upstreamTaskId: task.details?.upstreamTaskId,
+        status: task.status,
+        progress: task.progress,
+        message: task.message,
+        createdAt: task.createdAt.toISOString(),
+        updatedAt: task.updatedAt.toISOString(),
+      }));
+
+    timer();
+
+    Logger.logWithContext('info', 'Restore jobs retrieved successfully from API', 'RestoreTools', {
+      active: active.length,
+      historic: historic.length,
+      tracked: tracked.length,
+    });
+
+    return {
+      success: true,
+      data: { active, historic, tracked },
+      message: `Found ${active.length} active and ${historic.length} finished restore job(s)`,
+    };
+
+  } catch (error) {
+    timer();
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    Logger.logWithContext('error', 'Failed to retrieve restore jobs from API', 'RestoreTools', {
+      error: errorMessage,
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    if (error instanceof RestorepointError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          timestamp: error.timestamp.toISOString(),
+        },
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.NETWORK_CONNECTION_FAILED,
+        message: `Failed to retrieve restore jobs: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+};
@@ -3,17 +3,30 @@
  * Real API integration with Restorepoint servers
  */
 
-import type { McpResult } from '../../types/mcp-tools.js';
+import type { McpResult, ToolRegistry } from '../../types/mcp-tools.js';
 import { Logger } from '../../utils/logger.js';
 import { ApiClient } from '../../auth/api-client.js';
 import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
 import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { taskManager } from '../../utils/async-handler.js';
+import { describeWaitOutcome, extractUpstreamTaskId, skipWaitAtTaskLimit, taskTracker } from '../../utils/task-tracker.js';
 import type { CommandListResponse, CommandResponse } from '../../types/restorepoint-api.js';
+import { CommandSchemas } from '../../utils/validators.js';
+import type { ListCommandsArgs, GetCommandArgs, ExecuteCommandArgs, TaskStatusArgs } from '../../utils/validators.js';
+import {
+  handleScheduleCommand, handleListCommandSchedules, handleUpdateCommandSchedule, handleDeleteCommandSchedule,
+} from './schedules.js';
+import { findOutputsSince, handleGetCommandOutput, handleListCommandOutputs, handleDiffCommandOutputs } from './outputs.js';
+import { handleCancelTask } from './tasks.js';
+
+export { handleScheduleCommand, handleListCommandSchedules, handleUpdateCommandSchedule, handleDeleteCommandSchedule };
+export { handleGetCommandOutput, handleListCommandOutputs, handleDiffCommandOutputs };
+export { handleCancelTask };
 
 /**
  * Handle list_commands tool with real API integration
  */
-export const handleListCommands = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleListCommands = async (args: ListCommandsArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('CommandTools', 'listCommands');
   
   try {
@@ -24,14 +37,7 @@ export const handleListCommands = async (args: unknown, apiClient: ApiClient): P
       sortOrder = 'desc',
       deviceId,
       status
-    } = args as { 
-      limit?: number; 
-      offset?: number; 
-      sortBy?: string; 
-      sortOrder?: string;
-      deviceId?: string;
-      status?: string;
-    };
+    } = args;
 
     // Input validation
     if (limit < 1 || limit > 1000) {
@@ -147,13 +153,11 @@ export const handleListCommands = async (args: unknown, apiClient: ApiClient): P
 /**
  * Handle get_command tool with real API integration
  */
-export const handleGetCommand = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleGetCommand = async (args: GetCommandArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('CommandTools', 'getCommand');
   
   try {
-    const { commandId } = args as { 
-      commandId: string; 
-    };
+    const { commandId } = args;
 
     if (!commandId || commandId.trim().length === 0) {
       return {
@@ -249,20 +253,14 @@ export const handleGetCommand = async (args: unknown, apiClient: ApiClient): Pro
 /**
  * Handle execute_command tool with real API integration
  */
-export const handleExecuteCommand = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleExecuteCommand = async (args: ExecuteCommandArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('CommandTools', 'executeCommand');
   
   try {
-    const { deviceId, deviceIds, command, variables, commandType = 'ad-hoc' } = args as { 
-      deviceId?: string | number;
-      deviceIds?: (string | number)[];
-      command: string;
-      variables?: Record<string, string>;
-      commandType?: string;
-    };
+    const { deviceId, deviceIds, command, variables, commandType = 'ad-hoc', wait } = args;
 
     // Input validation
-    const devicesToExecute = deviceIds || (deviceId ? [deviceId] : []);
+    const devicesToExecute: string[] = deviceIds || (deviceId ? [deviceId] : []);
     
     if (devicesToExecute.length === 0) {
       return {
@@ -286,18 +284,33 @@ export const handleExecuteCommand = async (args: unknown, apiClient: ApiClient):
       };
     }
 
+    // Refuse up front rather than start a command we cannot wait for
+    if (wait && !taskManager.hasCapacity()) {
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.TASK_LIMIT_EXCEEDED,
+          message: 'Too many tasks are running to wait for this command; retry later or omit wait',
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
     Logger.logWithContext('info', 'Executing command via Restorepoint API', 'CommandTools', {
       deviceIds: devicesToExecute,
       command: command.trim(),
       commandType,
-      hasVariables: !!variables
+      hasVariables: !!variables,
+      wait: !!wait
     });
 
+    const startedAt = new Date();
+
     // Build request payload
     const payload: any = {
       commandType,
       command: command.trim(),
-      deviceIds: devicesToExecute.map(id => typeof id === 'string' ? parseInt(id, 10) : id)
+      deviceIds: devicesToExecute.map(id => parseInt(id, 10))
     };
 
     // Add variables if provided
@@ -320,11 +333,72 @@ export const handleExecuteCommand = async (args: unknown, apiClient: ApiClient):
     }
 
     const commandTask = response.data;
+    const upstreamTaskId = extractUpstreamTaskId(commandTask);
+
+    const waited = wait && upstreamTaskId
+      ? await taskTracker.waitFor(apiClient, upstreamTaskId, {
+          type: 'command',
+          message: `Command execution on ${devicesToExecute.length} device(s)`,
+          details: { deviceIds: devicesToExecute, commandType },
+          ...wait,
+        }).catch(skipWaitAtTaskLimit)
+      : null;
+
+    if (wait && waited) {
+      const outcome = describeWaitOutcome(waited);
+
+      timer();
+
+      if (waited.timedOut) {
+        return {
+          success: true,
+          data: { task: outcome },
+          message: `Command still running after ${wait.timeoutMs}ms; check get_task_status with task ${waited.task.id}`,
+          metadata: { taskId: waited.task.id, upstreamTaskId },
+        };
+      }
+
+      if (waited.task.status !== 'completed') {
+        return {
+          success: false,
+          error: {
+            code: ERROR_CODES.COMMAND_FAILED,
+            message: `Command ${waited.task.status}: ${waited.task.message}`,
+            details: outcome,
+            timestamp: new Date().toISOString(),
+          },
+        };
+      }
+
+      const outputs = await findOutputsSince(apiClient, devicesToExecute, startedAt).catch((error: unknown) => {
+        Logger.logWithContext('warn', 'Command finished but its output could not be read', 'CommandTools', {
+          upstreamTaskId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return undefined;
+      });
+
+      return {
+        success: true,
+        data: { task: outcome, outputs },
+        message: `Command completed on ${devicesToExecute.length} device(s)`,
+        metadata: { taskId: waited.task.id, upstreamTaskId },
+      };
+    }
+
+    // Track the upstream task locally so progress can be streamed to MCP clients
+    const trackedTask = upstreamTaskId
+      ? taskTracker.track(apiClient, upstreamTaskId, {
+          type: 'command',
+          message: `Command execution on ${devicesToExecute.length} device(s)`,
+          details: { deviceIds: devicesToExecute, commandType },
+        })
+      : null;
 
     timer();
 
     Logger.logWithContext('info', 'Command execution initiated successfully', 'CommandTools', {
-      taskId: commandTask?.id || commandTask?.taskId,
+      taskId: upstreamTaskId,
       deviceIds: devicesToExecute,
       command: command.trim(),
       commandType
@@ -333,7 +407,10 @@ export const handleExecuteCommand = async (args: unknown, apiClient: ApiClient):
     return {
       success: true,
       data: commandTask,
-      message: `Successfully initiated command execution for ${devicesToExecute.length} device(s)`,
+      message: wait && upstreamTaskId
+        ? `Command started as upstream job ${upstreamTaskId}; not waiting because the concurrent task limit was reached`
+        : `Successfully initiated command execution for ${devicesToExecute.length} device(s)`,
+      metadata: trackedTask ? { taskId: trackedTask.id, upstreamTaskId } : undefined,
     };
 
   } catch (error) {
@@ -372,16 +449,13 @@ export const handleExecuteCommand = async (args: unknown, apiClient: ApiClient):
 /**
  * Handle get_task_status tool with real API integration
  */
-export const handleGetTaskStatus = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleGetTaskStatus = async (args: TaskStatusArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('CommandTools', 'getTaskStatus');
   
   try {
-    const { taskId, taskType = 'command' } = args as { 
-      taskId: string | number;
-      taskType?: string;
-    };
+    const { taskId, taskType = 'command' } = args;
 
-    if (!taskId || (typeof taskId === 'string' && taskId.trim().length === 0)) {
+    if (!taskId || taskId.trim().length === 0) {
       return {
         success: false,
         error: {
@@ -392,7 +466,7 @@ export const handleGetTaskStatus = async (args: unknown, apiClient: ApiClient):
       };
     }
 
-    const taskIdStr = typeof taskId === 'string' ? taskId.trim() : taskId.toString();
+    const taskIdStr = taskId.trim();
 
     Logger.logWithContext('info', 'Fetching task status from Restorepoint API', 'CommandTools', {
       taskId: taskIdStr,
@@ -479,4 +553,87 @@ export const handleGetTaskStatus = async (args: unknown, apiClient: ApiClient):
       },
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Register command tools
+ */
+export const registerCommandTools = (registry: ToolRegistry): void => {
+  registry.register({
+    name: 'list_commands',
+    description: 'List command execution history',
+    inputSchema: CommandSchemas.listCommands,
+    handler: handleListCommands,
+  });
+  registry.register({
+    name: 'get_command',
+    description: 'Get command execution details',
+    inputSchema: CommandSchemas.getCommand,
+    handler: handleGetCommand,
+  });
+  registry.register({
+    name: 'execute_command',
+    description: 'Execute command on devices',
+    inputSchema: CommandSchemas.executeCommand,
+    handler: handleExecuteCommand,
+    mutating: true,
+  });
+  registry.register({
+    name: 'get_task_status',
+    description: 'Check task status',
+    inputSchema: CommandSchemas.taskStatus,
+    handler: handleGetTaskStatus,
+  });
+  registry.register({
+    name: 'cancel_task',
+    description: 'Cancel a running command, backup or restore job',
+    inputSchema: CommandSchemas.cancelTask,
+    handler: handleCancelTask,
+    mutating: true,
+  });
+  registry.register({
+    name: 'schedule_command',
+    description: 'Schedule a saved command on devices; previews the next run times unless confirm is true',
+    inputSchema: CommandSchemas.scheduleCommand,
+    handler: handleScheduleCommand,
+    mutating: true,
+  });
+  registry.register({
+    name: 'list_command_schedules',
+    description: 'List command schedules with their upcoming run times',
+    inputSchema: CommandSchemas.listCommandSchedules,
+    handler: handleListCommandSchedules,
+  });
+  registry.register({
+    name: 'update_command_schedule',
+    description: 'Update a command schedule; previews the next run times unless confirm is true',
+    inputSchema: CommandSchemas.updateCommandSchedule,
+    handler: handleUpdateCommandSchedule,
+    mutating: true,
+  });
+  registry.register({
+    name: 'delete_command_schedule',
+    description: 'Delete a command schedule (requires confirm)',
+    inputSchema: CommandSchemas.deleteCommandSchedule,
+    handler: handleDeleteCommandSchedule,
+    mutating: true,
+  });
+  registry.register({
+    name: 'get_command_output',
+    description: 'Read what a command printed on a device, paginated by line',
+    inputSchema: CommandSchemas.getCommandOutput,
+    handler: handleGetCommandOutput,
+  });
+  registry.register({
+    name: 'list_command_outputs',
+    description: 'List command runs with the output ID of each device',
+    inputSchema: CommandSchemas.listCommandOutputs,
+    handler: handleListCommandOutputs,
+  });
+  registry.register({
+    name: 'diff_command_outputs',
+    description: 'Compare two command outputs or runs (the two latest on a device by default)',
+    inputSchema: CommandSchemas.diffCommandOutputs,
+    handler: handleDiffCommandOutputs,
+  });
+};
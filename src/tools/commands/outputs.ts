@@ -0,0 +1,551 @@
+/**
+ * Command Output Tools Implementation
+ * Reads, lists and compares what commands printed via /commands/outputs
+ */
+
+import type { McpResult } from '../../types/mcp-tools.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { API_CONSTANTS, RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { logFailure, toErrorResult } from './results.js';
+import { limitBytes } from '../../utils/helpers.js';
+import { diffLines, formatUnifiedDiff, parseHtmlDiff, summarizeDiffOps, summarizeDiffText } from '../../utils/text-diff.js';
+import type { DiffSummary } from '../../utils/text-diff.js';
+import type { GetCommandOutputArgs, ListCommandOutputsArgs, DiffCommandOutputsArgs } from '../../utils/validators.js';
+
+/**
+ * A command output or a whole run taking part in a comparison
+ */
+export interface OutputRef {
+  readonly kind: 'output' | 'group';
+  readonly id: string;
+}
+
+/**
+ * How one device's output changed between two runs
+ */
+export interface DeviceOutputDiff {
+  readonly deviceId: string;
+  readonly deviceName?: string;
+  readonly baseOutputId?: string;
+  readonly targetOutputId?: string;
+  readonly added: number;
+  readonly removed: number;
+}
+
+interface ComputedDiff {
+  readonly diff: string;
+  readonly format: 'appliance' | 'unified';
+  readonly summary: DiffSummary;
+  /**
+   * Per-device changes when two runs are compared locally
+   */
+  readonly devices?: readonly DeviceOutputDiff[];
+}
+
+/**
+ * The output each device wrote in a run
+ */
+interface RunOutput {
+  readonly outputId: string;
+  readonly deviceName?: string;
+}
+
+const toList = (data: any): Record<string, any>[] =>
+  Array.isArray(data) ? data : Array.isArray(data?.data) ? data.data : [];
+
+const toLines = (output: string): string[] => {
+  const lines = output.split(/\r?\n/);
+  return lines.length > 1 && lines[lines.length - 1] === '' ? lines.slice(0, -1) : lines;
+};
+
+/**
+ * Read one command output, downloading the text when the record does not carry it
+ */
+const fetchOutput = async (apiClient: ApiClient, outputId: string): Promise<Record<string, any>> => {
+  const response = await apiClient.get<any>(RESTOREPOINT_ENDPOINTS.COMMAND_OUTPUT(outputId));
+  if (!response.success || !response.data) {
+    throw new RestorepointError(
+      ERROR_CODES.COMMAND_NOT_FOUND,
+      response.message || `Command output '${outputId}' not found`
+    );
+  }
+
+  const output = response.data?.data ?? response.data;
+  if (typeof output.Output === 'string') {
+    return output;
+  }
+
+  const download = await apiClient.post<unknown>(RESTOREPOINT_ENDPOINTS.COMMAND_OUTPUT_DOWNLOAD(outputId));
+  return { ...output, Output: typeof download.data === 'string' ? download.data : '' };
+};
+
+const fetchOutputGroup = async (apiClient: ApiClient, groupId: string): Promise<Record<string, any>> => {
+  const response = await apiClient.get<any>(RESTOREPOINT_ENDPOINTS.COMMAND_OUTPUT_GROUP(groupId));
+  if (!response.success || !response.data) {
+    throw new RestorepointError(
+      ERROR_CODES.COMMAND_NOT_FOUND,
+      response.message || `Command run '${groupId}' not found`
+    );
+  }
+  return response.data?.data ?? response.data;
+};
+
+/**
+ * IDs of the most recent outputs of a command on a device, newest first
+ */
+const findLatestOutputIds = async (
+  apiClient: ApiClient,
+  commandId: string,
+  deviceId: string,
+  count: number
+): Promise<string[]> => {
+  const queryParams = new URLSearchParams({
+    'deviceid[]': deviceId,
+    'command_id[]': commandId,
+    sort: '-Created',
+    limit: count.toString(),
+  });
+  const response = await apiClient.get<any>(`${RESTOREPOINT_ENDPOINTS.COMMAND_OUTPUTS}?${queryParams.toString()}`);
+
+  return toList(response.data).map(output => String(output.ID));
+};
+
+/**
+ * Outputs written for the given devices since a point in time, newest first
+ * Each output is cut to an equal share of the response size budget
+ */
+export const findOutputsSince = async (
+  apiClient: ApiClient,
+  deviceIds: readonly string[],
+  since: Date
+): Promise<Record<string, unknown>[]> => {
+  const queryParams = new URLSearchParams({
+    created_after: since.toISOString(),
+    sort: '-Created',
+    limit: Math.min(deviceIds.length, 500).toString(),
+  });
+  deviceIds.forEach(deviceId => queryParams.append('deviceid[]', deviceId));
+
+  const response = await apiClient.get<any>(`${RESTOREPOINT_ENDPOINTS.COMMAND_OUTPUTS}?${queryParams.toString()}`);
+  const outputs = toList(response.data);
+  const budget = Math.floor(API_CONSTANTS.MAX_RESPONSE_SIZE / Math.max(outputs.length, 1));
+
+  return outputs.map(output => {
+    const lines = toLines(typeof output.Output === 'string' ? output.Output : '');
+    const { kept } = limitBytes(lines, line => Buffer.byteLength(line), budget);
+    return {
+      outputId: output.ID,
+      deviceId: output.DeviceID,
+      deviceName: output.DeviceName,
+      output: kept.join('\n'),
+      totalLines: lines.length,
+      truncated: kept.length < lines.length,
+    };
+  });
+};
+
+/**
+ * Resolve the output to read from an output ID, a run and device, or a command and device
+ */
+const resolveOutputId = async (args: GetCommandOutputArgs, apiClient: ApiClient): Promise<string> => {
+  const { outputId, groupId, commandId, deviceId } = args;
+
+  if (outputId) {
+    return outputId;
+  }
+
+  if (groupId && deviceId) {
+    const group = await fetchOutputGroup(apiClient, groupId);
+    const index = (group.DeviceIDs ?? []).map(String).indexOf(deviceId);
+    const id = index >= 0 ? group.CommandOutputIDs?.[index] : undefined;
+    if (id === undefined) {
+      throw new RestorepointError(
+        ERROR_CODES.COMMAND_NOT_FOUND,
+        `Device '${deviceId}' has no output in command run '${groupId}'`
+      );
+    }
+    return String(id);
+  }
+
+  const [latest] = await findLatestOutputIds(apiClient, commandId ?? '', deviceId ?? '', 1);
+  if (!latest) {
+    throw new RestorepointError(
+      ERROR_CODES.COMMAND_NOT_FOUND,
+      `Command '${commandId}' has no output for device '${deviceId}'`
+    );
+  }
+  return latest;
+};
+
+/**
+ * Handle get_command_output tool with real API integration
+ */
+export const handleGetCommandOutput = async (args: GetCommandOutputArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('CommandTools', 'getCommandOutput');
+
+  try {
+    const { startLine, grep, maxLines } = args;
+    const maxBytes = Math.min(args.maxBytes, API_CONSTANTS.MAX_RESPONSE_SIZE);
+
+    const outputId = await resolveOutputId(args, apiClient);
+
+    Logger.logWithContext('info', 'Fetching command output from Restorepoint API', 'CommandTools', {
+      outputId, startLine, maxLines, hasGrep: !!grep
+    });
+
+    const output = await fetchOutput(apiClient, outputId);
+    const lines = toLines(output.Output);
+    const source = {
+      outputId,
+      deviceId: output.DeviceID,
+      deviceName: output.DeviceName,
+      commandId: output.CommandID,
+      commandName: output.CommandName,
+      groupId: output.CommandOutputGroupID,
+      created: output.Created,
+      totalLines: lines.length,
+    };
+
+    if (grep) {
+      const needle = grep.toLowerCase();
+      const allMatches = lines
+        .map((text, index) => ({ line: index + 1, text }))
+        .filter(match => match.line >= startLine && match.text.toLowerCase().includes(needle));
+      const { kept } = limitBytes(
+        allMatches.slice(0, maxLines),
+        match => Buffer.byteLength(match.text) + String(match.line).length + 2,
+        maxBytes
+      );
+
+      timer();
+
+      return {
+        success: true,
+        data: {
+          ...source,
+          totalMatches: allMatches.length,
+          matches: kept,
+          truncated: kept.length < allMatches.length,
+        },
+        message: `Found ${allMatches.length} line(s) matching '${grep}' in output ${outputId}`,
+      };
+    }
+
+    const { kept, bytes } = limitBytes(
+      lines.slice(startLine - 1, startLine - 1 + maxLines),
+      line => Buffer.byteLength(line),
+      maxBytes
+    );
+    const endLine = startLine - 1 + kept.length;
+    const hasMore = endLine < lines.length;
+
+    timer();
+
+    Logger.logWithContext('info', 'Command output retrieved successfully', 'CommandTools', {
+      outputId, lines: kept.length, bytes
+    });
+
+    return {
+      success: true,
+      data: {
+        ...source,
+        startLine,
+        endLine,
+        content: kept.join('\n'),
+        bytes,
+        truncated: hasMore,
+        ...(hasMore ? { nextStartLine: endLine + 1 } : {}),
+      },
+      message: `Returned lines ${startLine}-${endLine} of ${lines.length} from output ${outputId}${output.DeviceName ? ` (${output.DeviceName})` : ''}`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to retrieve command output', error, { outputId: args.outputId, deviceId: args.deviceId });
+    return toErrorResult(error, 'Failed to retrieve command output');
+  }
+};
+
+/**
+ * Handle list_command_outputs tool with real API integration
+ * Each entry is one run of a command with the output of every device it ran on
+ */
+export const handleListCommandOutputs = async (args: ListCommandOutputsArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('CommandTools', 'listCommandOutputs');
+
+  try {
+    const { commandId, deviceId, search, dateFrom, dateTo, limit, offset } = args;
+
+    Logger.logWithContext('info', 'Fetching command runs from Restorepoint API', 'CommandTools', {
+      commandId, deviceId, limit, offset
+    });
+
+    const queryParams = new URLSearchParams({
+      offset: offset.toString(),
+      limit: limit.toString(),
+      sort: '-Created',
+    });
+    if (search) queryParams.append('fulltext', search);
+    if (dateFrom) queryParams.append('created_after', dateFrom);
+    if (dateTo) queryParams.append('created_before', dateTo);
+
+    const response = await apiClient.get<any>(`${RESTOREPOINT_ENDPOINTS.COMMAND_OUTPUTS_GROUPED}?${queryParams.toString()}`);
+
+    if (!response.success || !response.data) {
+      throw new RestorepointError(
+        ERROR_CODES.NETWORK_SERVER_ERROR,
+        response.message || 'Failed to retrieve command outputs from Restorepoint'
+      );
+    }
+
+    // The grouped endpoint has no command or device filter, so those apply to the returned page
+    const runs = toList(response.data)
+      .filter(group => !commandId || String(group.CommandID) === commandId)
+      .filter(group => !deviceId || (group.DeviceIDs ?? []).map(String).includes(deviceId))
+      .map(group => {
+        const deviceIds: unknown[] = group.DeviceIDs ?? [];
+        return {
+          groupId: group.CommandOutputGroupID,
+          commandId: group.CommandID,
+          commandName: group.CommandName,
+          scheduleId: group.CommandScheduleID || undefined,
+          created: group.Created,
+          devices: deviceIds.map((id, index) => ({
+            deviceId: id,
+            deviceName: group.DeviceNames?.[index],
+            outputId: group.CommandOutputIDs?.[index],
+          })),
+        };
+      });
+    const total = response.metadata?.total ?? runs.length;
+
+    timer();
+
+    return {
+      success: true,
+      data: runs,
+      metadata: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+        ...(commandId || deviceId ? { filteredOnPage: true } : {}),
+      },
+      message: `Successfully retrieved ${runs.length} command run(s)`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to retrieve command outputs', error, { commandId: args.commandId });
+    return toErrorResult(error, 'Failed to retrieve command outputs');
+  }
+};
+
+/**
+ * Resolve the older (base) and newer (target) outputs to compare
+ */
+const resolveDiffRefs = async (
+  args: DiffCommandOutputsArgs,
+  apiClient: ApiClient
+): Promise<{ base: OutputRef; target: OutputRef }> => {
+  const { outputId, compareOutputId, groupId, compareGroupId, commandId, deviceId } = args;
+
+  if (outputId && compareOutputId) {
+    return { base: { kind: 'output', id: compareOutputId }, target: { kind: 'output', id: outputId } };
+  }
+  if (groupId && compareGroupId) {
+    return { base: { kind: 'group', id: compareGroupId }, target: { kind: 'group', id: groupId } };
+  }
+
+  const [latest, previous] = await findLatestOutputIds(apiClient, commandId ?? '', deviceId ?? '', 2);
+  if (!latest || !previous) {
+    throw new RestorepointError(
+      ERROR_CODES.COMMAND_NOT_FOUND,
+      `Command '${commandId}' needs at least two outputs for device '${deviceId}' to compare`
+    );
+  }
+  return { base: { kind: 'output', id: previous }, target: { kind: 'output', id: latest } };
+};
+
+const diffOnAppliance = async (apiClient: ApiClient, base: OutputRef, target: OutputRef): Promise<ComputedDiff> => {
+  const payload = base.kind === 'output'
+    ? { CommandOutputID1: parseInt(base.id, 10), CommandOutputID2: parseInt(target.id, 10) }
+    : { CommandOutputGroupID1: parseInt(base.id, 10), CommandOutputGroupID2: parseInt(target.id, 10) };
+
+  const response = await apiClient.post<any>(RESTOREPOINT_ENDPOINTS.COMMAND_OUTPUTS_DIFF, payload);
+
+  if (!response.success || !response.data || typeof response.data.Diff !== 'string') {
+    throw new RestorepointError(
+      ERROR_CODES.NETWORK_SERVER_ERROR,
+      response.message || 'Restorepoint did not return a diff'
+    );
+  }
+
+  const raw: string = response.data.Diff;
+  const diff = raw.includes('<div') ? parseHtmlDiff(raw) : raw;
+
+  return { diff, format: 'appliance', summary: summarizeDiffText(diff) };
+};
+
+/**
+ * Lines of a command output; no output at all has no lines
+ */
+const readOutputLines = async (apiClient: ApiClient, outputId: string | undefined): Promise<string[]> => {
+  if (outputId === undefined) {
+    return [];
+  }
+  const output = await fetchOutput(apiClient, outputId);
+  return toLines(typeof output.Output === 'string' ? output.Output : '');
+};
+
+/**
+ * Map each device of a run to the output it wrote
+ */
+const fetchRunOutputs = async (apiClient: ApiClient, groupId: string): Promise<Map<string, RunOutput>> => {
+  const group = await fetchOutputGroup(apiClient, groupId);
+  const deviceIds: unknown[] = group.DeviceIDs ?? [];
+  const outputs = new Map<string, RunOutput>();
+
+  deviceIds.forEach((deviceId, index) => {
+    const outputId = group.CommandOutputIDs?.[index];
+    if (outputId !== undefined) {
+      outputs.set(String(deviceId), { outputId: String(outputId), deviceName: group.DeviceNames?.[index] });
+    }
+  });
+  return outputs;
+};
+
+/**
+ * Compare two runs device by device; a device missing from one run compares against no output
+ */
+const diffRunsLocally = async (
+  apiClient: ApiClient,
+  base: OutputRef,
+  target: OutputRef,
+  context: number
+): Promise<ComputedDiff> => {
+  const [baseOutputs, targetOutputs] = await Promise.all([
+    fetchRunOutputs(apiClient, base.id),
+    fetchRunOutputs(apiClient, target.id),
+  ]);
+  const deviceIds = [...new Set([...targetOutputs.keys(), ...baseOutputs.keys()])];
+
+  const compared = await Promise.all(deviceIds.map(async deviceId => {
+    const baseOutput = baseOutputs.get(deviceId);
+    const targetOutput = targetOutputs.get(deviceId);
+    const [baseLines, targetLines] = await Promise.all([
+      readOutputLines(apiClient, baseOutput?.outputId),
+      readOutputLines(apiClient, targetOutput?.outputId),
+    ]);
+    const ops = diffLines(baseLines, targetLines);
+    const deviceName = targetOutput?.deviceName ?? baseOutput?.deviceName;
+    const device = deviceName ? `${deviceName} (${deviceId})` : `device ${deviceId}`;
+    const summary = summarizeDiffOps(ops);
+
+    return {
+      ops,
+      diff: formatUnifiedDiff(ops, {
+        context,
+        oldLabel: `run ${base.id} ${device}${baseOutput ? '' : ' (no output)'}`,
+        newLabel: `run ${target.id} ${device}${targetOutput ? '' : ' (no output)'}`,
+      }),
+      device: {
+        deviceId,
+        deviceName,
+        baseOutputId: baseOutput?.outputId,
+        targetOutputId: targetOutput?.outputId,
+        added: summary.added,
+        removed: summary.removed,
+      },
+    };
+  }));
+
+  return {
+    diff: compared.map(entry => entry.diff).filter(Boolean).join('\n'),
+    format: 'unified',
+    summary: summarizeDiffOps(compared.flatMap(entry => entry.ops)),
+    devices: compared.map(entry => entry.device),
+  };
+};
+
+const diffLocally = async (
+  apiClient: ApiClient,
+  base: OutputRef,
+  target: OutputRef,
+  context: number
+): Promise<ComputedDiff> => {
+  if (base.kind === 'group') {
+    return diffRunsLocally(apiClient, base, target, context);
+  }
+
+  const [baseLines, targetLines] = await Promise.all([
+    readOutputLines(apiClient, base.id),
+    readOutputLines(apiClient, target.id),
+  ]);
+  const ops = diffLines(baseLines, targetLines);
+
+  return {
+    diff: formatUnifiedDiff(ops, { context, oldLabel: `output ${base.id}`, newLabel: `output ${target.id}` }),
+    format: 'unified',
+    summary: summarizeDiffOps(ops),
+  };
+};
+
+/**
+ * Handle diff_command_outputs tool with real API integration
+ */
+export const handleDiffCommandOutputs = async (args: DiffCommandOutputsArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('CommandTools', 'diffCommandOutputs');
+
+  try {
+    const { mode, context } = args;
+    const { base, target } = await resolveDiffRefs(args, apiClient);
+
+    Logger.logWithContext('info', 'Comparing command outputs', 'CommandTools', { base, target, mode });
+
+    let computed: ComputedDiff;
+    let fallbackReason: string | undefined;
+
+    if (mode === 'local') {
+      computed = await diffLocally(apiClient, base, target, context);
+    } else {
+      try {
+        computed = await diffOnAppliance(apiClient, base, target);
+      } catch (error) {
+        if (mode === 'appliance') {
+          throw error;
+        }
+        fallbackReason = error instanceof Error ? error.message : 'Unknown error';
+        Logger.logWithContext('warn', 'Appliance diff failed, comparing locally', 'CommandTools', {
+          base, target, error: fallbackReason
+        });
+        computed = await diffLocally(apiClient, base, target, context);
+      }
+    }
+
+    timer();
+
+    const identical = computed.summary.added === 0 && computed.summary.removed === 0;
+
+    return {
+      success: true,
+      data: {
+        base,
+        target,
+        identical,
+        ...computed,
+        ...(fallbackReason ? { fallbackReason } : {}),
+      },
+      message: identical
+        ? `${base.kind} ${base.id} and ${target.kind} ${target.id} are identical`
+        : `${target.kind} ${target.id} adds ${computed.summary.added} and removes ${computed.summary.removed} line(s) compared to ${base.kind} ${base.id}`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to compare command outputs', error, { outputId: args.outputId, groupId: args.groupId });
+    return toErrorResult(error, 'Failed to compare command outputs');
+  }
+};
@@ -0,0 +1,42 @@
+/**
+ * Command Tool Results
+ * Error results and failure logging shared by the command schedule and output tools
+ */
+
+import type { McpResult } from '../../types/mcp-tools.js';
+import { Logger } from '../../utils/logger.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+
+/**
+ * Turn a thrown error into a failed tool result
+ */
+export const toErrorResult = (error: unknown, fallbackMessage: string): McpResult => {
+  if (error instanceof RestorepointError) {
+    return {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        timestamp: error.timestamp.toISOString(),
+      },
+    };
+  }
+
+  return {
+    success: false,
+    error: {
+      code: ERROR_CODES.NETWORK_CONNECTION_FAILED,
+      message: `${fallbackMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      timestamp: new Date().toISOString(),
+    },
+  };
+};
+
+export const logFailure = (message: string, error: unknown, context: Record<string, unknown>): void => {
+  Logger.logWithContext('error', message, 'CommandTools', {
+    ...context,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+  });
+};
@@ -0,0 +1,343 @@
+/**
+ * Command Schedule Tools Implementation
+ * Manages /commands/{id}/schedules with local schedule validation and run previews
+ */
+
+import type { McpResult } from '../../types/mcp-tools.js';
+import type { CronExpression } from '../../types/restorepoint-api.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { logFailure, toErrorResult } from './results.js';
+import { getNextRuns, parseCronExpression } from '../../utils/cron.js';
+import type {
+  ScheduleCommandArgs,
+  ListCommandSchedulesArgs,
+  UpdateCommandScheduleArgs,
+  DeleteCommandScheduleArgs,
+} from '../../utils/validators.js';
+
+/**
+ * Number of upcoming runs shown before a schedule is saved
+ */
+const PREVIEW_RUN_COUNT = 5;
+
+/**
+ * Upcoming runs of a schedule as shown to the caller
+ */
+export interface SchedulePreview {
+  readonly type: 'Scheduled' | 'OnceAt';
+  readonly schedule?: CronExpression;
+  readonly nextRuns: readonly string[];
+  readonly timezone: 'UTC';
+  readonly note?: string;
+}
+
+/**
+ * Compute the preview for a recurring schedule or a one-off run
+ */
+export const previewSchedule = (
+  schedule: CronExpression | undefined,
+  runAt: string | undefined,
+  count: number = PREVIEW_RUN_COUNT,
+  from: Date = new Date()
+): SchedulePreview => {
+  if (schedule === undefined) {
+    return {
+      type: 'OnceAt',
+      nextRuns: runAt ? [new Date(runAt).toISOString()] : [],
+      timezone: 'UTC',
+    };
+  }
+
+  const cron = parseCronExpression(schedule);
+
+  return {
+    type: 'Scheduled',
+    schedule: cron.normalized,
+    nextRuns: getNextRuns(cron, count, from).map(run => run.toISOString()),
+    timezone: 'UTC',
+    ...(cron.weekInterval > 1
+      ? { note: `Runs every ${cron.weekInterval} weeks; the appliance decides which week the cycle starts in` }
+      : {}),
+  };
+};
+
+const toVariables = (variables: ScheduleCommandArgs['variables']) =>
+  variables?.map(variable => ({
+    Name: variable.name,
+    Value: variable.value,
+    DeviceID: parseInt(variable.deviceId, 10),
+  }));
+
+const ensureFutureRun = (runAt: string | undefined): void => {
+  if (runAt && new Date(runAt).getTime() <= Date.now()) {
+    throw new RestorepointError(
+      ERROR_CODES.VALIDATION_OUT_OF_RANGE,
+      `runAt '${runAt}' is in the past`
+    );
+  }
+};
+
+const fetchSchedule = async (apiClient: ApiClient, commandId: string, scheduleId: string): Promise<Record<string, any>> => {
+  const response = await apiClient.get<any>(RESTOREPOINT_ENDPOINTS.COMMAND_SCHEDULE_BY_ID(commandId, scheduleId));
+  if (!response.success || !response.data) {
+    throw new RestorepointError(
+      ERROR_CODES.COMMAND_NOT_FOUND,
+      response.message || `Schedule '${scheduleId}' of command '${commandId}' not found`
+    );
+  }
+  return response.data?.data ?? response.data;
+};
+
+const describeRuns = (preview: SchedulePreview): string =>
+  preview.nextRuns.length > 0 ? `next run ${preview.nextRuns[0]} UTC` : 'no upcoming runs';
+
+/**
+ * Handle schedule_command tool with real API integration
+ */
+export const handleScheduleCommand = async (args: ScheduleCommandArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('CommandTools', 'scheduleCommand');
+
+  try {
+    const { commandId, deviceIds, schedule, runAt, keepLast, emailAddress, variables, confirm } = args;
+
+    ensureFutureRun(runAt);
+    const preview = previewSchedule(schedule, runAt);
+
+    Logger.logWithContext('info', 'Scheduling command', 'CommandTools', {
+      commandId, deviceCount: deviceIds.length, type: preview.type, confirm
+    });
+
+    if (!confirm) {
+      timer();
+      return {
+        success: true,
+        data: { committed: false, preview },
+        message: `Preview only (${describeRuns(preview)}); set confirm to true to create the schedule`,
+      };
+    }
+
+    const payload: Record<string, unknown> = {
+      CommandID: parseInt(commandId, 10),
+      DeviceIDs: deviceIds.map(id => parseInt(id, 10)),
+      Type: preview.type,
+      KeepLast: keepLast,
+    };
+    if (preview.schedule) payload.Schedule = preview.schedule;
+    if (runAt) payload.NextRun = new Date(runAt).toISOString();
+    if (emailAddress) payload.EmailAddress = emailAddress;
+    if (variables) payload.Variables = toVariables(variables);
+
+    const response = await apiClient.post<any>(RESTOREPOINT_ENDPOINTS.COMMAND_SCHEDULES_BY_COMMAND(commandId), payload);
+
+    if (!response.success) {
+      throw new RestorepointError(
+        ERROR_CODES.COMMAND_FAILED,
+        response.message || 'Failed to create command schedule on Restorepoint',
+        response.errors ? Object.keys(response.errors).length : 0
+      );
+    }
+
+    timer();
+
+    Logger.logWithContext('info', 'Command schedule created successfully', 'CommandTools', {
+      commandId, scheduleId: response.data?.ID
+    });
+
+    return {
+      success: true,
+      data: { committed: true, schedule: response.data, preview },
+      message: `Scheduled command ${commandId} on ${deviceIds.length} device(s); ${describeRuns(preview)}`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to schedule command', error, { commandId: args.commandId });
+    return toErrorResult(error, 'Failed to schedule command');
+  }
+};
+
+/**
+ * Handle list_command_schedules tool with real API integration
+ */
+export const handleListCommandSchedules = async (args: ListCommandSchedulesArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('CommandTools', 'listCommandSchedules');
+
+  try {
+    const { commandId, limit, offset, nextRuns } = args;
+
+    Logger.logWithContext('info', 'Fetching command schedules from Restorepoint API', 'CommandTools', {
+      commandId, limit, offset
+    });
+
+    const queryParams = new URLSearchParams({ limit: limit.toString(), offset: offset.toString() });
+    const endpoint = commandId
+      ? RESTOREPOINT_ENDPOINTS.COMMAND_SCHEDULES_BY_COMMAND(commandId)
+      : RESTOREPOINT_ENDPOINTS.COMMAND_SCHEDULES;
+
+    const response = await apiClient.get<any>(`${endpoint}?${queryParams.toString()}`);
+
+    if (!response.success || !response.data) {
+      throw new RestorepointError(
+        ERROR_CODES.NETWORK_SERVER_ERROR,
+        response.message || 'Failed to retrieve command schedules from Restorepoint'
+      );
+    }
+
+    const rawSchedules: Record<string, any>[] = Array.isArray(response.data) ? response.data : response.data.data || [];
+    const schedules = rawSchedules.map(schedule => {
+      if (nextRuns === 0) {
+        return schedule;
+      }
+      try {
+        const preview = schedule.Type === 'OnceAt'
+          ? previewSchedule(undefined, schedule.NextRun)
+          : previewSchedule(schedule.Schedule, undefined, nextRuns);
+        return { ...schedule, upcomingRuns: preview.nextRuns };
+      } catch (error) {
+        return { ...schedule, scheduleError: error instanceof Error ? error.message : 'Invalid schedule' };
+      }
+    });
+    const total = response.metadata?.total ?? schedules.length;
+
+    timer();
+
+    return {
+      success: true,
+      data: schedules,
+      metadata: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+      message: `Successfully retrieved ${schedules.length} of ${total} command schedules`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to retrieve command schedules', error, { commandId: args.commandId });
+    return toErrorResult(error, 'Failed to retrieve command schedules');
+  }
+};
+
+/**
+ * Handle update_command_schedule tool with real API integration
+ */
+export const handleUpdateCommandSchedule = async (args: UpdateCommandScheduleArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('CommandTools', 'updateCommandSchedule');
+
+  try {
+    const { commandId, scheduleId, deviceIds, schedule, runAt, keepLast, emailAddress, variables, confirm } = args;
+
+    ensureFutureRun(runAt);
+
+    const existing = await fetchSchedule(apiClient, commandId, scheduleId);
+    const useRunAt = runAt !== undefined || (schedule === undefined && existing.Type === 'OnceAt');
+    const preview = useRunAt
+      ? previewSchedule(undefined, runAt ?? existing.NextRun)
+      : previewSchedule(schedule ?? existing.Schedule, undefined);
+
+    Logger.logWithContext('info', 'Updating command schedule', 'CommandTools', {
+      commandId, scheduleId, type: preview.type, confirm
+    });
+
+    if (!confirm) {
+      timer();
+      return {
+        success: true,
+        data: { committed: false, current: existing, preview },
+        message: `Preview only (${describeRuns(preview)}); set confirm to true to save the schedule`,
+      };
+    }
+
+    const payload: Record<string, unknown> = {
+      ...existing,
+      Type: preview.type,
+      ...(preview.schedule ? { Schedule: preview.schedule } : {}),
+      ...(runAt ? { NextRun: new Date(runAt).toISOString() } : {}),
+      ...(deviceIds ? { DeviceIDs: deviceIds.map(id => parseInt(id, 10)) } : {}),
+      ...(keepLast !== undefined ? { KeepLast: keepLast } : {}),
+      ...(emailAddress ? { EmailAddress: emailAddress } : {}),
+      ...(variables ? { Variables: toVariables(variables) } : {}),
+    };
+
+    const response = await apiClient.put<any>(
+      RESTOREPOINT_ENDPOINTS.COMMAND_SCHEDULE_BY_ID(commandId, scheduleId),
+      payload
+    );
+
+    if (!response.success) {
+      throw new RestorepointError(
+        ERROR_CODES.COMMAND_FAILED,
+        response.message || `Failed to update schedule '${scheduleId}' on Restorepoint`,
+        response.errors ? Object.keys(response.errors).length : 0
+      );
+    }
+
+    timer();
+
+    return {
+      success: true,
+      data: { committed: true, schedule: response.data, preview },
+      message: `Updated schedule ${scheduleId} of command ${commandId}; ${describeRuns(preview)}`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to update command schedule', error, { commandId: args.commandId, scheduleId: args.scheduleId });
+    return toErrorResult(error, 'Failed to update command schedule');
+  }
+};
+
+/**
+ * Handle delete_command_schedule tool with real API integration
+ */
+export const handleDeleteCommandSchedule = async (args: DeleteCommandScheduleArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('CommandTools', 'deleteCommandSchedule');
+
+  try {
+    const { commandId, scheduleId, confirm } = args;
+
+    const existing = await fetchSchedule(apiClient, commandId, scheduleId);
+
+    if (!confirm) {
+      timer();
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.VALIDATION_MISSING_FIELD,
+          message: `Deleting schedule ${scheduleId} of command ${existing.CommandName ?? commandId} requires confirm set to true`,
+          details: { schedule: existing },
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
+    Logger.logWithContext('info', 'Deleting command schedule', 'CommandTools', { commandId, scheduleId });
+
+    const response = await apiClient.delete<unknown>(RESTOREPOINT_ENDPOINTS.COMMAND_SCHEDULE_BY_ID(commandId, scheduleId));
+
+    if (!response.success) {
+      throw new RestorepointError(
+        ERROR_CODES.COMMAND_FAILED,
+        response.message || `Failed to delete schedule '${scheduleId}' on Restorepoint`
+      );
+    }
+
+    timer();
+
+    return {
+      success: true,
+      data: { deleted: true, schedule: existing },
+      message: `Deleted schedule ${scheduleId} of command ${commandId}`,
+    };
+
+  } catch (error) {
+    timer();
+    logFailure('Failed to delete command schedule', error, { commandId: args.commandId, scheduleId: args.scheduleId });
+    return toErrorResult(error, 'Failed to delete command schedule');
+  }
+};
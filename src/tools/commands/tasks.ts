@@ -0,0 +1,185 @@
+/**
+ * Task Control Tools Implementation
+ * Cancels upstream Restorepoint jobs and the local tasks tracking them
+ */
+
+import type { McpContext, McpResult } from '../../types/mcp-tools.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { taskManager } from '../../utils/async-handler.js';
+import type { TaskInfo } from '../../utils/async-handler.js';
+import { delay } from '../../utils/helpers.js';
+import { isTerminalStatus, parseUpstreamTask, taskTracker } from '../../utils/task-tracker.js';
+import type { UpstreamTaskSnapshot } from '../../utils/task-tracker.js';
+import type { CancelTaskArgs } from '../../utils/validators.js';
+
+/**
+ * Times the job is re-read to confirm it stopped
+ */
+const CANCEL_CONFIRM_ATTEMPTS = 3;
+const CANCEL_CONFIRM_INTERVAL_MS = 1000;
+
+const readJob = async (apiClient: ApiClient, jobId: string): Promise<UpstreamTaskSnapshot> => {
+  const response = await apiClient.get<unknown>(RESTOREPOINT_ENDPOINTS.JOB_BY_ID(jobId), { maxRetries: 1 });
+  return parseUpstreamTask(response.data);
+};
+
+/**
+ * Re-read the job until it reports cancelled (or finished some other way)
+ */
+const confirmCancelled = async (apiClient: ApiClient, jobId: string): Promise<UpstreamTaskSnapshot | undefined> => {
+  let snapshot: UpstreamTaskSnapshot | undefined;
+
+  for (let attempt = 0; attempt < CANCEL_CONFIRM_ATTEMPTS; attempt++) {
+    if (attempt > 0) {
+      await delay(CANCEL_CONFIRM_INTERVAL_MS);
+    }
+    try {
+      snapshot = await readJob(apiClient, jobId);
+      if (isTerminalStatus(snapshot.status)) {
+        return snapshot;
+      }
+    } catch (error) {
+      Logger.logWithContext('debug', `Unable to re-read job ${jobId}`, 'CommandTools', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return snapshot;
+};
+
+/**
+ * Handle cancel_task tool with real API integration
+ */
+export const handleCancelTask = async (
+  args: CancelTaskArgs,
+  apiClient: ApiClient,
+  context?: Pick<McpContext, 'dryRun'>
+): Promise<McpResult> => {
+  const timer = Logger.startTimer('CommandTools', 'cancelTask');
+
+  try {
+    const { taskId } = args;
+
+    // Accept both local task IDs and upstream job IDs
+    const localTask: TaskInfo | null = taskManager.getTask(taskId) ?? taskTracker.findByUpstreamId(taskId);
+    const upstreamId = localTask ? localTask.details?.upstreamTaskId : taskId;
+    const jobId = typeof upstreamId === 'string' || typeof upstreamId === 'number' ? String(upstreamId) : undefined;
+
+    Logger.logWithContext('info', 'Cancelling task', 'CommandTools', {
+      taskId, localTaskId: localTask?.id, jobId
+    });
+
+    if (localTask && isTerminalStatus(localTask.status)) {
+      timer();
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.VALIDATION_INVALID_INPUT,
+          message: `Task ${localTask.id} already finished with status ${localTask.status}`,
+          details: { localTaskId: localTask.id, status: localTask.status },
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
+    // Tasks that never reached the appliance only need to stop locally
+    if (!jobId && context?.dryRun) {
+      timer();
+      return {
+        success: true,
+        data: { dryRun: true, localTaskId: taskId, jobId: null, request: null },
+        message: `Dry run: would cancel local task ${taskId}; it never reached the appliance, so no request would be sent`,
+      };
+    }
+
+    if (!jobId) {
+      taskTracker.stop(taskId);
+      taskManager.cancelTask(taskId);
+      timer();
+      return {
+        success: true,
+        data: { localTaskId: taskId, jobId: null, confirmed: true, status: 'cancelled' },
+        message: `Cancelled local task ${taskId}`,
+      };
+    }
+
+    // The job lives on the appliance the task was started on
+    const client = localTask ? taskTracker.clientFor(localTask, apiClient) : apiClient;
+
+    try {
+      await client.delete<unknown>(RESTOREPOINT_ENDPOINTS.JOB_BY_ID(jobId));
+    } catch (error) {
+      if (error instanceof RestorepointError && error.statusCode === 404) {
+        throw new RestorepointError(ERROR_CODES.TASK_NOT_FOUND, `Job '${jobId}' not found on Restorepoint`, 404);
+      }
+      throw error;
+    }
+
+    const snapshot = await confirmCancelled(client, jobId);
+    const confirmed = snapshot?.status === 'cancelled';
+
+    // Unconfirmed cancellations stay tracked so the poller records the real outcome
+    if (localTask && confirmed) {
+      taskTracker.stop(localTask.id);
+      taskManager.updateTaskStatus(localTask.id, 'cancelled', snapshot?.message ?? 'Task was cancelled', undefined, {
+        upstreamStatus: snapshot?.raw.Status ?? snapshot?.raw.status,
+      });
+    }
+
+    timer();
+
+    Logger.logWithContext('info', 'Task cancellation requested', 'CommandTools', {
+      jobId, localTaskId: localTask?.id, confirmed, upstreamStatus: snapshot?.status
+    });
+
+    return {
+      success: true,
+      data: {
+        localTaskId: localTask?.id ?? null,
+        jobId,
+        confirmed,
+        status: snapshot?.status ?? 'unknown',
+        ...(snapshot ? { job: snapshot.raw } : {}),
+      },
+      message: confirmed
+        ? `Cancelled job ${jobId}`
+        : `Cancellation of job ${jobId} requested but not yet confirmed (status: ${snapshot?.status ?? 'unknown'})`,
+    };
+
+  } catch (error) {
+    timer();
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    Logger.logWithContext('error', 'Failed to cancel task', 'CommandTools', {
+      taskId: args.taskId,
+      error: errorMessage,
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    if (error instanceof RestorepointError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          timestamp: error.timestamp.toISOString(),
+        },
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.NETWORK_CONNECTION_FAILED,
+        message: `Failed to cancel task: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+};
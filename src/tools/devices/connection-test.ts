@@ -0,0 +1,361 @@
+/**
+ * Device Connection Test
+ * Pre-flight diagnostic: DNS, reachability, protocol port and credential login, as seen from the appliance
+ */
+
+import type { McpResult } from '../../types/mcp-tools.js';
+import type { PluginField } from '../../types/restorepoint-api.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { buildPluginFields, determineProtocol, getDeviceTypeInfo, isValidIpAddress, DEVICE_TYPES } from './requirements.js';
+import type { TestDeviceConnectionArgs } from '../../utils/validators.js';
+
+/**
+ * Fingerprint test that shows a protocol's port is open
+ * Protocols missing here (e.g. WinRM) skip the port step
+ */
+const PROTOCOL_FINGERPRINTS: Readonly<Record<string, string>> = {
+  ssh: 'sshbanner',
+  scp: 'sshbanner',
+  sftp: 'sshbanner',
+  telnet: 'telnetbanner',
+  http: 'httpbanner',
+  https: 'httpsbanner',
+  ftp: 'ftpbanner',
+};
+
+/**
+ * Lines of the appliance login log kept in the diagnostic
+ */
+const LOGIN_LOG_TAIL_LINES = 20;
+
+/**
+ * Settings the appliance uses to connect to a device (POST /devices/test body)
+ */
+export interface DeviceTestRequest {
+  readonly PluginKey: string;
+  readonly PluginFields: readonly PluginField[];
+  readonly Address: string;
+  readonly Protocol: string;
+  readonly AgentID?: number;
+  readonly CredentialID?: number;
+}
+
+export type ConnectionTestStepName = 'dns' | 'reachability' | 'port' | 'login';
+
+/**
+ * One diagnostic step; a warning does not fail the test (many devices drop ICMP)
+ */
+export interface ConnectionTestStep {
+  readonly step: ConnectionTestStepName;
+  readonly status: 'passed' | 'warning' | 'failed' | 'skipped';
+  readonly message: string;
+  readonly durationMs?: number;
+  readonly details?: Record<string, unknown>;
+}
+
+export interface ConnectionTestResult {
+  readonly passed: boolean;
+  readonly address: string;
+  readonly resolvedAddress?: string;
+  readonly protocol: string;
+  readonly pluginKey: string;
+  readonly agentId: number;
+  readonly steps: readonly ConnectionTestStep[];
+}
+
+/**
+ * Upstream /network/ping and /network/resolve payload
+ */
+interface NetworkResult {
+  readonly Result?: string;
+  readonly Message?: string;
+}
+
+/**
+ * Upstream /network/fingerprint entry
+ */
+interface FingerprintEntry {
+  readonly Test?: string;
+  readonly Title?: string;
+  readonly Result?: string;
+  readonly Error?: string;
+}
+
+/**
+ * Upstream /devices/test payload
+ */
+interface DeviceTestResponse {
+  readonly Device?: string;
+  readonly Result?: string;
+  readonly IsError?: boolean;
+  readonly Log?: string;
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const isSuccess = (result: NetworkResult | undefined): boolean =>
+  result?.Result?.toLowerCase() === 'success';
+
+const skipped = (step: ConnectionTestStepName, message: string): ConnectionTestStep => ({
+  step,
+  status: 'skipped',
+  message,
+});
+
+/**
+ * Run a step, timing it; an upstream error fails the step instead of the whole test
+ */
+const timedStep = async (
+  step: ConnectionTestStepName,
+  run: () => Promise<Omit<ConnectionTestStep, 'step' | 'durationMs'>>
+): Promise<ConnectionTestStep> => {
+  const startTime = Date.now();
+  try {
+    return { step, ...(await run()), durationMs: Date.now() - startTime };
+  } catch (error) {
+    return { step, status: 'failed', message: errorMessage(error), durationMs: Date.now() - startTime };
+  }
+};
+
+const resolveStep = (apiClient: ApiClient, hostname: string, agentId: number): Promise<ConnectionTestStep> =>
+  timedStep('dns', async () => {
+    const response = await apiClient.post<NetworkResult>(RESTOREPOINT_ENDPOINTS.NETWORK_RESOLVE, {
+      Hostname: hostname,
+      AgentID: agentId,
+    }, { maxRetries: 1, readOnly: true });
+
+    return isSuccess(response.data)
+      ? { status: 'passed', message: `${hostname} resolves to ${response.data?.Message}`, details: { address: response.data?.Message } }
+      : { status: 'failed', message: response.data?.Message ?? response.message ?? `Unable to resolve ${hostname}` };
+  });
+
+const pingStep = (apiClient: ApiClient, address: string, agentId: number): Promise<ConnectionTestStep> =>
+  timedStep('reachability', async () => {
+    const response = await apiClient.post<NetworkResult>(RESTOREPOINT_ENDPOINTS.NETWORK_PING, {
+      Address: address,
+      AgentID: agentId,
+    }, { maxRetries: 1, readOnly: true });
+
+    return isSuccess(response.data)
+      ? { status: 'passed', message: `${address} answers ping`, details: { output: response.data?.Message } }
+      : {
+        status: 'warning',
+        message: `${address} does not answer ping (${response.data?.Message ?? 'no response'}); it may block ICMP`,
+      };
+  });
+
+const portStep = (apiClient: ApiClient, address: string, protocol: string, agentId: number): Promise<ConnectionTestStep> => {
+  const test = PROTOCOL_FINGERPRINTS[protocol.toLowerCase()];
+  if (!test) {
+    return Promise.resolve(skipped('port', `The appliance cannot fingerprint ${protocol}; relying on the login test`));
+  }
+
+  return timedStep('port', async () => {
+    const response = await apiClient.post<unknown>(RESTOREPOINT_ENDPOINTS.NETWORK_FINGERPRINT, {
+      Address: address,
+      AgentID: agentId,
+    }, { maxRetries: 1, readOnly: true });
+    const entries: FingerprintEntry[] = Array.isArray(response.data)
+      ? response.data
+      : Array.isArray((response.data as any)?.data) ? (response.data as any).data : [];
+    const entry = entries.find(candidate => candidate.Test === test);
+
+    return entry?.Result && !entry.Error
+      ? { status: 'passed', message: `${protocol} is answering on ${address}`, details: { banner: entry.Result } }
+      : { status: 'failed', message: `${protocol} is not answering on ${address}${entry?.Error ? `: ${entry.Error}` : ''}` };
+  });
+};
+
+const loginStep = (apiClient: ApiClient, request: DeviceTestRequest): Promise<ConnectionTestStep> =>
+  timedStep('login', async () => {
+    const response = await apiClient.post<DeviceTestResponse>(RESTOREPOINT_ENDPOINTS.DEVICE_TEST, request, {
+      skipRetry: true,
+      readOnly: true,
+    });
+    const result = response.data;
+    const logTail = result?.Log?.trimEnd().split('\n').slice(-LOGIN_LOG_TAIL_LINES).join('\n');
+
+    if (!response.success || !result) {
+      return { status: 'failed', message: response.message ?? 'The appliance did not return a login result' };
+    }
+
+    return result.IsError === false
+      ? { status: 'passed', message: `Logged in over ${request.Protocol}`, details: { result: result.Result } }
+      : { status: 'failed', message: `Login failed: ${result.Result ?? 'unknown error'}`, details: { result: result.Result, logTail } };
+  });
+
+/**
+ * Test whether the appliance can reach and log in to a device
+ * Steps run in order; once the address cannot be resolved or the port is closed, later steps are skipped
+ */
+export const runConnectionTest = async (apiClient: ApiClient, request: DeviceTestRequest): Promise<ConnectionTestResult> => {
+  const agentId = request.AgentID ?? 0;
+  const steps: ConnectionTestStep[] = [];
+  let address: string | undefined = request.Address;
+
+  if (isValidIpAddress(request.Address)) {
+    steps.push(skipped('dns', `${request.Address} is an IP address`));
+  } else {
+    const dns = await resolveStep(apiClient, request.Address, agentId);
+    steps.push(dns);
+    address = dns.status === 'passed' ? String(dns.details?.address) : undefined;
+  }
+
+  if (!address) {
+    steps.push(skipped('reachability', 'The address could not be resolved'));
+    steps.push(skipped('port', 'The address could not be resolved'));
+    steps.push(skipped('login', 'The address could not be resolved'));
+  } else {
+    steps.push(await pingStep(apiClient, address, agentId));
+    const port = await portStep(apiClient, address, request.Protocol, agentId);
+    steps.push(port);
+    steps.push(port.status === 'failed'
+      ? skipped('login', `${request.Protocol} is not answering`)
+      : await loginStep(apiClient, request));
+  }
+
+  return {
+    passed: steps.some(step => step.step === 'login' && step.status === 'passed'),
+    address: request.Address,
+    resolvedAddress: address !== request.Address ? address : undefined,
+    protocol: request.Protocol,
+    pluginKey: request.PluginKey,
+    agentId,
+    steps,
+  };
+};
+
+/**
+ * One-line outcome of a connection test
+ */
+export const summarizeConnectionTest = (result: ConnectionTestResult): string => {
+  if (result.passed) {
+    return `The appliance can log in to ${result.address} over ${result.protocol}`;
+  }
+  const failed = result.steps.find(step => step.status === 'failed');
+  return failed ? `Connection test failed at the ${failed.step} step: ${failed.message}` : 'Connection test did not complete';
+};
+
+/**
+ * Connection settings of an existing device, with optional replacement credentials
+ */
+const fetchDeviceTestRequest = async (apiClient: ApiClient, args: TestDeviceConnectionArgs, deviceId: string): Promise<DeviceTestRequest> => {
+  const response = await apiClient.get<unknown>(RESTOREPOINT_ENDPOINTS.DEVICE_BY_ID(deviceId));
+  const device = ((response.data as any)?.data ?? response.data) as Record<string, any> | undefined;
+  if (!response.success || !device || typeof device !== 'object') {
+    throw new RestorepointError(ERROR_CODES.DEVICE_NOT_FOUND, response.message || `Device '${deviceId}' not found`, 404);
+  }
+
+  const storedFields: PluginField[] = Array.isArray(device.PluginFields) ? device.PluginFields : [];
+  const pluginFields = args.credentials
+    ? [
+      ...storedFields.filter(field => field.Name !== 'username' && field.Name !== 'password'),
+      { Name: 'username', Value: args.credentials.username.trim() },
+      { Name: 'password', Value: args.credentials.password },
+    ]
+    : storedFields;
+
+  return {
+    PluginKey: String(device.PluginKey ?? ''),
+    PluginFields: pluginFields,
+    Address: args.ipAddress ?? args.hostname ?? String(device.Address ?? ''),
+    Protocol: args.protocol ?? String(device.Protocol ?? ''),
+    AgentID: args.agentId ?? (typeof device.AgentID === 'number' ? device.AgentID : undefined),
+    CredentialID: typeof device.CredentialID === 'number' && !args.credentials ? device.CredentialID : undefined,
+  };
+};
+
+/**
+ * Handle test_device_connection tool for a proposed or existing device
+ * A failed test is still a successful call: data.passed and the steps say what went wrong
+ */
+export const handleTestDeviceConnection = async (args: TestDeviceConnectionArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('DeviceTools', 'testDeviceConnection');
+
+  try {
+    let request: DeviceTestRequest;
+
+    if (args.deviceId !== undefined) {
+      request = await fetchDeviceTestRequest(apiClient, args, args.deviceId);
+    } else {
+      const deviceTypeInfo = getDeviceTypeInfo(args.type ?? '');
+      if (!deviceTypeInfo) {
+        timer();
+        return {
+          success: false,
+          error: {
+            code: ERROR_CODES.DEVICE_INVALID_TYPE,
+            message: `Unsupported device type: '${args.type}'. Supported types: ${Object.keys(DEVICE_TYPES).join(', ')}`,
+            details: { supportedDeviceTypes: Object.keys(DEVICE_TYPES) },
+            timestamp: new Date().toISOString(),
+          },
+        };
+      }
+
+      request = {
+        PluginKey: deviceTypeInfo.pluginKey,
+        PluginFields: buildPluginFields(deviceTypeInfo.pluginKey, args.credentials!),
+        Address: (args.ipAddress ?? args.hostname)!.trim(),
+        Protocol: args.protocol ?? determineProtocol(deviceTypeInfo.pluginKey, args.ipAddress),
+        AgentID: args.agentId,
+      };
+    }
+
+    Logger.logWithContext('info', 'Testing device connection', 'DeviceTools', {
+      deviceId: args.deviceId,
+      address: request.Address,
+      protocol: request.Protocol,
+      pluginKey: request.PluginKey,
+    });
+
+    const result = await runConnectionTest(apiClient, request);
+
+    timer();
+
+    Logger.logWithContext('info', 'Device connection test finished', 'DeviceTools', {
+      address: request.Address,
+      passed: result.passed,
+      steps: result.steps.map(step => `${step.step}:${step.status}`),
+    });
+
+    return {
+      success: true,
+      data: args.deviceId !== undefined ? { deviceId: args.deviceId, ...result } : result,
+      message: summarizeConnectionTest(result),
+    };
+
+  } catch (error) {
+    timer();
+
+    Logger.logWithContext('error', 'Failed to test device connection', 'DeviceTools', {
+      deviceId: args.deviceId,
+      error: errorMessage(error),
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    if (error instanceof RestorepointError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          timestamp: error.timestamp.toISOString(),
+        },
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.DEVICE_CONNECTION_FAILED,
+        message: `Failed to test device connection: ${errorMessage(error)}`,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+};
@@ -10,12 +10,15 @@ import { ApiClient } from '../../auth/api-client.js';
 import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
 import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
 import type { Device, DeviceCreateRequest, DeviceUpdateRequest, DeviceResponse, PluginField, DeviceMonitor, AssetField, BackupSchedule, FailurePolicy } from '../../types/restorepoint-api.js';
-import { validateDeviceRequest, getDeviceTypeInfo, DEVICE_TYPES } from './requirements.js';
+import { validateDeviceRequest, getDeviceTypeInfo, buildPluginFields, determineProtocol, DEVICE_TYPES } from './requirements.js';
+import { runConnectionTest, summarizeConnectionTest } from './connection-test.js';
+import type { ConnectionTestResult } from './connection-test.js';
+import type { CreateDeviceArgs, UpdateDeviceArgs, DeleteDeviceArgs } from '../../utils/validators.js';
 
 /**
  * Handle create_device tool with validation and real API integration
  */
-export const handleCreateDevice = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleCreateDevice = async (args: CreateDeviceArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('DeviceTools', 'createDevice');
   
   try {
@@ -26,16 +29,9 @@ export const handleCreateDevice = async (args: unknown, apiClient: ApiClient): P
       hostname,
       credentials,
       description,
-      enabled = true
-    } = args as {
-      name: string;
-      type: string;
-      ipAddress?: string;
-      hostname?: string;
-      credentials: { username: string; password: string };
-      description?: string;
-      enabled?: boolean;
-    };
+      enabled = true,
+      testFirst = false
+    } = args;
 
     Logger.logWithContext('info', 'Creating new device with enhanced validation', 'DeviceTools', {
       name,
@@ -160,6 +156,30 @@ export const handleCreateDevice = async (args: unknown, apiClient: ApiClient): P
       deviceRequest: JSON.stringify(deviceRequest, null, 2)
     });
 
+    // Only create devices the appliance can log in to
+    let connectionTest: ConnectionTestResult | undefined;
+    if (testFirst) {
+      connectionTest = await runConnectionTest(apiClient, deviceRequest);
+      if (!connectionTest.passed) {
+        timer();
+        Logger.logWithContext('warn', 'Device not created: connection test failed', 'DeviceTools', {
+          name,
+          address,
+          steps: connectionTest.steps.map(step => `${step.step}:${step.status}`),
+        });
+
+        return {
+          success: false,
+          error: {
+            code: ERROR_CODES.DEVICE_CONNECTION_FAILED,
+            message: `Device '${name}' was not created. ${summarizeConnectionTest(connectionTest)}`,
+            details: { connectionTest },
+            timestamp: new Date().toISOString(),
+          },
+        };
+      }
+    }
+
     // Make API request to create device
     const response = await apiClient.post<DeviceResponse>(
       RESTOREPOINT_ENDPOINTS.DEVICES,
@@ -219,6 +239,7 @@ export const handleCreateDevice = async (args: unknown, apiClient: ApiClient): P
       success: true,
       data: device,
       message: `Successfully created device: ${device.name} (${device.id})`,
+      ...(connectionTest ? { metadata: { connectionTest } } : {}),
     };
 
   } catch (error) {
@@ -261,7 +282,7 @@ export const handleCreateDevice = async (args: unknown, apiClient: ApiClient): P
 /**
  * Handle update_device tool with partial updates via API
  */
-export const handleUpdateDevice = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleUpdateDevice = async (args: UpdateDeviceArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('DeviceTools', 'updateDevice');
   
   try {
@@ -274,16 +295,7 @@ export const handleUpdateDevice = async (args: unknown, apiClient: ApiClient): P
       credentials, 
       description, 
       enabled 
-    } = args as {
-      deviceId: string;
-      name?: string;
-      type?: string;
-      ipAddress?: string;
-      hostname?: string;
-      credentials?: { username?: string; password?: string };
-      description?: string;
-      enabled?: boolean;
-    };
+    } = args;
 
     // Input validation
     if (!deviceId || deviceId.trim().length === 0) {
@@ -469,14 +481,11 @@ export const handleUpdateDevice = async (args: unknown, apiClient: ApiClient): P
 /**
  * Handle delete_device tool with safety checks via API
  */
-export const handleDeleteDevice = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleDeleteDevice = async (args: DeleteDeviceArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('DeviceTools', 'deleteDevice');
   
   try {
-    const { deviceId, force = false } = args as { 
-      deviceId: string; 
-      force?: boolean; 
-    };
+    const { deviceId, force = false } = args;
 
     // Input validation
     if (!deviceId || deviceId.trim().length === 0) {
@@ -611,120 +620,4 @@ function isValidIpAddress(ip: string): boolean {
 function mapDeviceTypeToPluginKey(deviceType: string): string {
   const typeInfo = getDeviceTypeInfo(deviceType);
   return typeInfo ? typeInfo.pluginKey : deviceType.replace(/[-\s]+/g, '_').toLowerCase();
-}
-
-/**
- * Build PluginFields array based on plugin type and credentials
- */
-function buildPluginFields(pluginKey: string, credentials: { username: string; password: string }): PluginField[] {
-  const fields: PluginField[] = [];
-  
-  // Most devices require username and password
-  fields.push({
-    Name: 'username',
-    Value: credentials.username.trim()
-  });
-  
-  fields.push({
-    Name: 'password',
-    Value: credentials.password
-  });
-  
-  // Add plugin-specific fields
-  switch (pluginKey) {
-    case 'cisco_ios':
-    case 'cisco_nxos':
-    case 'cisco_iosxr':
-    case 'juniper_junos':
-    case 'arista_eos':
-      fields.push({
-        Name: 'enable_password',
-        Value: credentials.password // Using same password for simplicity
-      });
-      break;
-      
-    case 'palo_alto':
-      fields.push({
-        Name: 'backup_port',
-        Value: '443'
-      });
-      break;
-      
-    case 'fortinet_fortigate':
-      fields.push({
-        Name: 'backup_port',
-        Value: '443'
-      });
-      break;
-      
-    case 'f5_bigip':
-      fields.push({
-        Name: 'backup_port',
-        Value: '443'
-      });
-      break;
-      
-    case 'windows':
-      fields.push({
-        Name: 'winrm_port',
-        Value: '5985'
-      });
-      break;
-  }
-  
-  return fields;
-}
-
-/**
- * Determine protocol based on plugin type and address
- */
-function determineProtocol(pluginKey: string, ipAddress?: string): string {
-  // For IP-based devices, determine protocol by plugin type
-  if (ipAddress && isValidIpAddress(ipAddress)) {
-    switch (pluginKey) {
-      case 'cisco_ios':
-      case 'cisco_nxos':
-      case 'cisco_iosxr':
-      case 'juniper_junos':
-      case 'arista_eos':
-      case 'hp_procurve':
-      case 'dell':
-      case 'brocade':
-        return 'SSH';
-        
-      case 'windows':
-        return 'WinRM';
-        
-      case 'palo_alto':
-      case 'fortinet_fortigate':
-      case 'f5_bigip':
-      case 'checkpoint':
-      case 'cisco_asa':
-      case 'cisco_firepower':
-        return 'HTTPS';
-        
-      case 'linux':
-        return 'SSH';
-        
-      default:
-        return 'SSH';
-    }
-  }
-  
-  // For hostname-based devices, assume HTTPS for modern devices
-  switch (pluginKey) {
-    case 'palo_alto':
-    case 'fortinet_fortigate':
-    case 'f5_bigip':
-    case 'checkpoint':
-    case 'cisco_asa':
-    case 'cisco_firepower':
-      return 'HTTPS';
-      
-    case 'windows':
-      return 'WinRM';
-      
-    default:
-      return 'SSH';
-  }
 }
\ No newline at end of file
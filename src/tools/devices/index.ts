@@ -3,8 +3,91 @@
  * Provides exports for device CRUD operations and management
  */
 
-export { handleListDevices } from './list.js';
-export { handleGetDevice } from './list-get.js';
-export { handleCreateDevice, handleUpdateDevice, handleDeleteDevice } from './crud.js';
-export { handleGetStatus } from './status.js';
-export { handleGetDeviceRequirements, handleValidateDeviceRequest } from './requirements-handler.js';
\ No newline at end of file
+import type { ToolRegistry } from '../../types/mcp-tools.js';
+import { DeviceSchemas } from '../../utils/validators.js';
+import { handleListDevices, handleGetDevice } from './list-get.js';
+import { handleCreateDevice, handleUpdateDevice, handleDeleteDevice } from './crud.js';
+import { handleGetStatus } from './status.js';
+import { handleGetDeviceRequirements, handleValidateDeviceRequest } from './requirements-handler.js';
+import { handleTestDeviceConnection } from './connection-test.js';
+
+export {
+  handleListDevices,
+  handleGetDevice,
+  handleCreateDevice,
+  handleUpdateDevice,
+  handleDeleteDevice,
+  handleGetStatus,
+  handleGetDeviceRequirements,
+  handleValidateDeviceRequest,
+  handleTestDeviceConnection,
+};
+
+/**
+ * Register device tools
+ */
+export const registerDeviceTools = (registry: ToolRegistry): void => {
+  registry.register({
+    name: 'list_devices',
+    description: 'List all network devices',
+    inputSchema: DeviceSchemas.listDevices,
+    handler: handleListDevices,
+    cache: { group: 'devices', ttlMs: 60000 },
+  });
+  registry.register({
+    name: 'get_device',
+    description: 'Get details of a specific device',
+    inputSchema: DeviceSchemas.getDevice,
+    handler: handleGetDevice,
+    cache: { group: 'devices', ttlMs: 60000 },
+  });
+  registry.register({
+    name: 'get_status',
+    description: 'Get device status information',
+    inputSchema: DeviceSchemas.getStatus,
+    handler: handleGetStatus,
+  });
+  registry.register({
+    name: 'create_device',
+    description: 'Add a new device',
+    inputSchema: DeviceSchemas.createDevice,
+    handler: handleCreateDevice,
+    invalidates: ['devices'],
+    mutating: true,
+  });
+  registry.register({
+    name: 'update_device',
+    description: 'Update device configuration',
+    inputSchema: DeviceSchemas.updateDevice,
+    handler: handleUpdateDevice,
+    invalidates: ['devices'],
+    mutating: true,
+  });
+  registry.register({
+    name: 'delete_device',
+    description: 'Remove a device',
+    inputSchema: DeviceSchemas.deleteDevice,
+    handler: handleDeleteDevice,
+    invalidates: ['devices'],
+    mutating: true,
+  });
+  registry.register({
+    name: 'get_device_requirements',
+    description: 'Get device creation requirements and supported types',
+    inputSchema: DeviceSchemas.deviceRequirements,
+    handler: handleGetDeviceRequirements,
+    cache: { group: 'device-requirements', ttlMs: 3600000 },
+  });
+  registry.register({
+    name: 'validate_device_request',
+    description: 'Validate device creation request before submission',
+    inputSchema: DeviceSchemas.validateDeviceRequest,
+    handler: handleValidateDeviceRequest,
+  });
+  registry.register({
+    name: 'test_device_connection',
+    description: 'Check DNS, reachability, protocol port and login from the appliance to a proposed or existing device',
+    inputSchema: DeviceSchemas.testDeviceConnection,
+    handler: handleTestDeviceConnection,
+  });
+};
@@ -10,12 +10,13 @@ import { ApiClient } from '../../auth/api-client.js';
 import { RESTOREPOINT_ENDPOINTS, HTTP_STATUS_CODES } from '../../constants/endpoints.js';
 import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
 import type { DeviceListResponse, DeviceResponse } from '../../types/restorepoint-api.js';
+import type { ListDevicesArgs, GetDeviceArgs } from '../../utils/validators.js';
 
 /**
  * Handle list_devices tool with comprehensive filtering and pagination
  * Real API integration with Restorepoint servers
  */
-export const handleListDevices = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleListDevices = async (args: ListDevicesArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('DeviceTools', 'listDevices');
   
   try {
@@ -23,17 +24,7 @@ export const handleListDevices = async (args: unknown, apiClient: ApiClient): Pr
       limit = 50, 
       offset = 0, 
       filter 
-    } = args as { 
-      limit?: number; 
-      offset?: number; 
-      sortBy?: string; 
-      sortOrder?: string;
-      filter?: {
-        type?: string;
-        enabled?: boolean;
-        searchTerm?: string;
-      };
-    };
+    } = args;
 
     // Input validation
     if (limit < 1 || limit > 1000) {
@@ -197,14 +188,11 @@ export const handleListDevices = async (args: unknown, apiClient: ApiClient): Pr
  * Handle get_device tool with comprehensive device details
  * Real API integration with Restorepoint servers
  */
-export const handleGetDevice = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleGetDevice = async (args: GetDeviceArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('DeviceTools', 'getDevice');
   
   try {
-    const { deviceId, includeConnections = false } = args as { 
-      deviceId: string; 
-      includeConnections?: boolean; 
-    };
+    const { deviceId, includeConnections = false } = args;
 
     // Input validation
     if (!deviceId || deviceId.trim().length === 0) {
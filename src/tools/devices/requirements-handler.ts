@@ -11,20 +11,16 @@ import {
   getSupportedDeviceTypes,
   validateDeviceRequest 
 } from './requirements.js';
+import type { DeviceRequirementsArgs, ValidateDeviceRequestArgs } from '../../utils/validators.js';
 
 /**
  * Handle get_device_requirements tool request
  */
-export const handleGetDeviceRequirements = async (args: unknown): Promise<McpResult> => {
+export const handleGetDeviceRequirements = async (args: DeviceRequirementsArgs): Promise<McpResult> => {
   const timer = Logger.startTimer('DeviceTools', 'getDeviceRequirements');
   
   try {
-    const { deviceType, includeExamples = true, includeValidation = false, request } = args as {
-      deviceType?: string;
-      includeExamples?: boolean;
-      includeValidation?: boolean;
-      request?: any;
-    };
+    const { deviceType, includeExamples = true, includeValidation = false, request } = args;
 
     Logger.logWithContext('info', 'Fetching device creation requirements', 'DeviceTools', {
       deviceType,
@@ -140,11 +136,11 @@ export const handleGetDeviceRequirements = async (args: unknown): Promise<McpRes
 /**
  * Handle validate_device_request tool request
  */
-export const handleValidateDeviceRequest = async (args: unknown): Promise<McpResult> => {
+export const handleValidateDeviceRequest = async (args: ValidateDeviceRequestArgs): Promise<McpResult> => {
   const timer = Logger.startTimer('DeviceTools', 'validateDeviceRequest');
   
   try {
-    const { request } = args as { request: any };
+    const { request } = args;
 
     if (!request) {
       return {
@@ -168,7 +164,7 @@ export const handleValidateDeviceRequest = async (args: unknown): Promise<McpRes
 
     // If validation passes and device type is specified, add type-specific info
     let deviceTypeInfo = null;
-    if (validation.isValid && request.type) {
+    if (validation.isValid && typeof request.type === 'string') {
       deviceTypeInfo = getDeviceTypeInfo(request.type);
     }
 
@@ -3,6 +3,7 @@
  * Provides accurate device creation requirements and validation utilities
  */
 
+import type { PluginField } from '../../types/restorepoint-api.js';
 import { Logger } from '../../utils/logger.js';
 
 /**
@@ -295,7 +296,123 @@ export function getSupportedDeviceTypes(): Record<string, DeviceTypeInfo[]> {
 /**
  * Validate IP address format
  */
-function isValidIpAddress(ip: string): boolean {
+export function isValidIpAddress(ip: string): boolean {
   const ipRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
   return ipRegex.test(ip);
+}
+
+/**
+ * Build PluginFields array based on plugin type and credentials
+ */
+export function buildPluginFields(pluginKey: string, credentials: { username: string; password: string }): PluginField[] {
+  const fields: PluginField[] = [];
+  
+  // Most devices require username and password
+  fields.push({
+    Name: 'username',
+    Value: credentials.username.trim()
+  });
+  
+  fields.push({
+    Name: 'password',
+    Value: credentials.password
+  });
+  
+  // Add plugin-specific fields
+  switch (pluginKey) {
+    case 'cisco_ios':
+    case 'cisco_nxos':
+    case 'cisco_iosxr':
+    case 'juniper_junos':
+    case 'arista_eos':
+      fields.push({
+        Name: 'enable_password',
+        Value: credentials.password // Using same password for simplicity
+      });
+      break;
+      
+    case 'palo_alto':
+      fields.push({
+        Name: 'backup_port',
+        Value: '443'
+      });
+      break;
+      
+    case 'fortinet_fortigate':
+      fields.push({
+        Name: 'backup_port',
+        Value: '443'
+      });
+      break;
+      
+    case 'f5_bigip':
+      fields.push({
+        Name: 'backup_port',
+        Value: '443'
+      });
+      break;
+      
+    case 'windows':
+      fields.push({
+        Name: 'winrm_port',
+        Value: '5985'
+      });
+      break;
+  }
+  
+  return fields;
+}
+
+/**
+ * Determine protocol based on plugin type and address
+ */
+export function determineProtocol(pluginKey: string, ipAddress?: string): string {
+  // For IP-based devices, determine protocol by plugin type
+  if (ipAddress && isValidIpAddress(ipAddress)) {
+    switch (pluginKey) {
+      case 'cisco_ios':
+      case 'cisco_nxos':
+      case 'cisco_iosxr':
+      case 'juniper_junos':
+      case 'arista_eos':
+      case 'hp_procurve':
+      case 'dell':
+      case 'brocade':
+        return 'SSH';
+        
+      case 'windows':
+        return 'WinRM';
+        
+      case 'palo_alto':
+      case 'fortinet_fortigate':
+      case 'f5_bigip':
+      case 'checkpoint':
+      case 'cisco_asa':
+      case 'cisco_firepower':
+        return 'HTTPS';
+        
+      case 'linux':
+        return 'SSH';
+        
+      default:
+        return 'SSH';
+    }
+  }
+  
+  // For hostname-based devices, assume HTTPS for modern devices
+  switch (pluginKey) {
+    case 'palo_alto':
+    case 'fortinet_fortigate':
+    case 'f5_bigip':
+    case 'checkpoint':
+    case 'cisco_asa':
+    case 'cisco_firepower':
+      return 'HTTPS';
+      
+    case 'windows':
+      return 'WinRM';
+      
+    default:
+      return 'SSH';
+  }
 }
\ No newline at end of file
@@ -9,6 +9,7 @@ import { Logger } from '../../utils/logger.js';
 import { ApiClient } from '../../auth/api-client.js';
 import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
 import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import type { GetStatusArgs } from '../../utils/validators.js';
 
 /**
  * Device status interface for structured response
@@ -41,47 +42,11 @@ interface DeviceStatus {
  * Handle get_status tool to retrieve device status information
  * Extracts status data from device information
  */
-export const handleGetStatus = async (args: unknown, apiClient: ApiClient): Promise<McpResult> => {
+export const handleGetStatus = async (args: GetStatusArgs, apiClient: ApiClient): Promise<McpResult> => {
   const timer = Logger.startTimer('DeviceTools', 'getStatus');
   
   try {
-    // Handle different argument formats - could be string, object, or already parsed
-    let parsedArgs: any = args;
-    
-    // If args is a string, parse it as JSON
-    if (typeof args === 'string') {
-      try {
-        parsedArgs = JSON.parse(args);
-      } catch (e) {
-        return {
-          success: false,
-          error: {
-            code: ERROR_CODES.VALIDATION_INVALID_FORMAT,
-            message: 'Invalid arguments format',
-            timestamp: new Date().toISOString(),
-          },
-        };
-      }
-    }
-    
-    // Extract device_id parameter with different naming conventions
-    let deviceId: string | number | undefined;
-    
-    if (parsedArgs && typeof parsedArgs === 'object') {
-      deviceId = parsedArgs.device_id || parsedArgs.deviceId || parsedArgs['device_id'];
-    }
-
-    // Input validation
-    if (!deviceId || (typeof deviceId === 'string' && deviceId.trim().length === 0)) {
-      return {
-        success: false,
-        error: {
-          code: ERROR_CODES.VALIDATION_MISSING_FIELD,
-          message: 'Device ID is required',
-          timestamp: new Date().toISOString(),
-        },
-      };
-    }
+    const { deviceId } = args;
 
     Logger.logWithContext('info', 'Fetching device status from Restorepoint API', 'DeviceTools', {
       deviceId,
@@ -209,7 +174,7 @@ export const handleGetStatus = async (args: unknown, apiClient: ApiClient): Prom
     
     // Log the error with context
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const deviceId = (args as any).device_id || (args as any).deviceId || 'unknown';
+    const deviceId = args.deviceId || 'unknown';
     
     Logger.logWithContext('error', 'Failed to retrieve device status', 'DeviceTools', {
       deviceId,
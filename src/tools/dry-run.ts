@@ -0,0 +1,137 @@
+/**
+ * Dry-run plans for mutating tools
+ * The registry runs the tool with a DryRunPlan in the request context; the API client records the
+ * first changing request there instead of sending it, and the plan is returned in its place
+ */
+
+import type { ApiClient } from '../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import type { McpResult } from '../types/mcp-tools.js';
+import { Logger } from '../utils/logger.js';
+import type { DryRunPlan, PlannedRequest } from '../utils/request-context.js';
+
+/**
+ * Arguments that name the devices a tool call affects
+ */
+const DEVICE_ARGUMENTS = ['deviceId', 'deviceIds', 'targetDeviceId'] as const;
+
+/**
+ * A device the planned request would affect, as currently known to the appliance
+ */
+export interface PlannedDevice {
+  readonly id: string;
+  readonly found: boolean;
+  readonly name?: string;
+  readonly address?: string;
+}
+
+/**
+ * Distinct device IDs named in a tool's validated arguments
+ */
+export const plannedDeviceIds = (args: unknown): string[] => {
+  if (!args || typeof args !== 'object') {
+    return [];
+  }
+
+  const record = args as Record<string, unknown>;
+  const ids = DEVICE_ARGUMENTS.flatMap(key => {
+    const value = record[key];
+    return Array.isArray(value) ? value : value === undefined ? [] : [value];
+  });
+  return [...new Set(ids.map(id => String(id).trim()))];
+};
+
+/**
+ * Look up each affected device; a 404 marks it as not found
+ */
+const resolveDevices = (apiClient: ApiClient, deviceIds: readonly string[]): Promise<PlannedDevice[]> =>
+  Promise.all(deviceIds.map(async id => {
+    try {
+      const response = await apiClient.get<unknown>(RESTOREPOINT_ENDPOINTS.DEVICE_BY_ID(id));
+      const raw = response.data as Record<string, any> | undefined;
+      const device = (raw?.data ?? raw) as Record<string, unknown> | undefined;
+      if (!response.success || !device) {
+        return { id, found: false };
+      }
+
+      const name = device.Name ?? device.name;
+      const address = device.Address ?? device.address;
+      return {
+        id,
+        found: true,
+        ...(typeof name === 'string' ? { name } : {}),
+        ...(typeof address === 'string' ? { address } : {}),
+      };
+    } catch (error) {
+      if (error instanceof RestorepointError && error.statusCode === 404) {
+        return { id, found: false };
+      }
+      throw error;
+    }
+  }));
+
+/**
+ * Result of a dry-run tool call
+ * With a planned request, the affected devices are resolved and the plan replaces the handler's result
+ * (which only reports that the request was held back). Calls that failed validation first, or never
+ * needed to send anything, keep their own result.
+ */
+export const toDryRunResult = async (
+  toolName: string,
+  target: string,
+  plan: DryRunPlan,
+  result: McpResult,
+  apiClient: ApiClient,
+  args: unknown
+): Promise<McpResult> => {
+  if (!plan.request) {
+    return result.success ? { ...result, metadata: { ...result.metadata, dryRun: true } } : result;
+  }
+
+  const request: PlannedRequest = plan.request;
+
+  try {
+    const devices = await resolveDevices(apiClient, plannedDeviceIds(args));
+    const missing = devices.filter(device => !device.found).map(device => device.id);
+
+    Logger.logWithContext('info', 'Planned dry-run tool call', 'DryRun', {
+      tool: toolName, target, method: request.method, url: request.url, devices: devices.length, missing,
+    });
+
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.DEVICE_NOT_FOUND,
+          message: `Dry run: ${toolName} names device${missing.length === 1 ? '' : 's'} not found on ${target}: ${missing.join(', ')}`,
+          details: { dryRun: true, request, devices },
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: { dryRun: true, tool: toolName, target, request, ...(devices.length > 0 ? { devices } : {}) },
+      message: `Dry run: ${toolName} would send ${request.method} ${request.url}; nothing was changed`,
+      metadata: { dryRun: true },
+    };
+
+  } catch (error) {
+    Logger.logWithContext('error', 'Failed to resolve devices for dry run', 'DryRun', {
+      tool: toolName,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return {
+      success: false,
+      error: {
+        code: error instanceof RestorepointError ? error.code : ERROR_CODES.MCP_SERVER_ERROR,
+        message: `Dry run: could not resolve the affected devices: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        details: { dryRun: true, request },
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+};
@@ -0,0 +1,33 @@
+/**
+ * Tool Catalogue
+ * Shared registry used by the HTTP API and the MCP transports
+ */
+
+import { McpToolRegistry } from './registry.js';
+import { registerDeviceTools } from './devices/index.js';
+import { registerBackupTools } from './backups/index.js';
+import { registerCommandTools } from './commands/index.js';
+import { registerAgentTools } from './agents/index.js';
+import { registerSystemTools } from './system/index.js';
+import { registerJobTools } from './jobs/index.js';
+
+export { McpToolRegistry } from './registry.js';
+
+/**
+ * Build a registry containing every tool
+ */
+export const createToolRegistry = (): McpToolRegistry => {
+  const registry = new McpToolRegistry();
+  registerDeviceTools(registry);
+  registerBackupTools(registry);
+  registerCommandTools(registry);
+  registerAgentTools(registry);
+  registerSystemTools(registry);
+  registerJobTools(registry);
+  return registry;
+};
+
+/**
+ * Registry shared by every transport
+ */
+export const toolRegistry = createToolRegistry();
@@ -0,0 +1,258 @@
+/**
+ * Job Dashboard Tools Implementation
+ * Running, queued and finished appliance jobs from /jobs and /jobs/historic
+ */
+
+import type { McpResult, ToolRegistry } from '../../types/mcp-tools.js';
+import type { TaskQueueInfo } from '../../types/common.js';
+import type { TaskStatus } from '../../constants/endpoints.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { mapUpstreamTaskStatus, taskTracker } from '../../utils/task-tracker.js';
+import { JobSchemas } from '../../utils/validators.js';
+import type { ListJobsArgs, ListJobHistoryArgs } from '../../utils/validators.js';
+
+/**
+ * Appliance job as returned by the job tools
+ */
+export interface JobSummary {
+  readonly id: string;
+  readonly type?: string;
+  readonly description?: string;
+  readonly deviceId?: string;
+  readonly deviceName?: string;
+  readonly user?: string;
+  readonly status: TaskStatus;
+  readonly upstreamStatus?: string;
+  readonly progress?: number;
+  readonly created?: string;
+  readonly updated?: string;
+  readonly durationMs?: number;
+  readonly lastMessage?: string;
+  readonly localTaskId?: string;
+}
+
+type JobFilters = ListJobsArgs | ListJobHistoryArgs;
+
+/**
+ * Jobs requested per page (the appliance returns at most 500)
+ */
+const JOB_PAGE_SIZE = 500;
+
+/**
+ * Pages scanned before giving up on filling the requested number of jobs
+ */
+const MAX_JOB_PAGES = 10;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+/**
+ * Normalize an appliance job
+ */
+export const toJobSummary = (job: Record<string, any>): JobSummary => {
+  const id = String(job.ID ?? job.id);
+  const messages: unknown[] = Array.isArray(job.Messages) ? job.Messages : [];
+
+  return {
+    id,
+    type: optionalString(job.Type),
+    description: optionalString(job.Description),
+    deviceId: job.DeviceID ? String(job.DeviceID) : undefined,
+    deviceName: optionalString(job.DeviceName),
+    user: optionalString(job.User),
+    status: mapUpstreamTaskStatus(job.Status),
+    upstreamStatus: optionalString(job.Status),
+    progress: typeof job.Progress === 'number' ? job.Progress : undefined,
+    created: optionalString(job.Created),
+    updated: optionalString(job.Updated),
+    // The appliance reports durations in nanoseconds
+    durationMs: typeof job.Duration === 'number' ? Math.round(job.Duration / 1e6) : undefined,
+    lastMessage: messages.length > 0 ? String(messages[messages.length - 1]) : undefined,
+    localTaskId: taskTracker.findByUpstreamId(id)?.id,
+  };
+};
+
+const matchesFilters = (job: JobSummary, filters: JobFilters): boolean => {
+  const created = job.created ? Date.parse(job.created) : NaN;
+
+  if (filters.type && job.type?.toLowerCase() !== filters.type.toLowerCase()) return false;
+  if (filters.deviceId && job.deviceId !== filters.deviceId) return false;
+  if (filters.user && job.user?.toLowerCase() !== filters.user.toLowerCase()) return false;
+  if (filters.status && job.status !== filters.status) return false;
+  if (filters.dateFrom && !(created >= Date.parse(filters.dateFrom))) return false;
+  if (filters.dateTo && !(created <= Date.parse(filters.dateTo))) return false;
+  return true;
+};
+
+/**
+ * Average of the values, 0 when there are none
+ */
+const average = (values: readonly number[]): number =>
+  values.length === 0 ? 0 : Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+/**
+ * Summarize jobs as a task queue
+ * Wait time is how long queued jobs have been pending; process time is the job duration
+ */
+export const summarizeJobQueue = (name: string, jobs: readonly JobSummary[], now: Date = new Date()): TaskQueueInfo => {
+  const pending = jobs.filter(job => job.status === 'pending');
+  const started = jobs.filter(job => job.status !== 'pending');
+
+  return {
+    name,
+    size: jobs.length,
+    processing: jobs.filter(job => job.status === 'running').length,
+    completed: jobs.filter(job => job.status === 'completed').length,
+    failed: jobs.filter(job => job.status === 'failed' || job.status === 'timeout').length,
+    averageWaitTime: average(
+      pending.filter(job => job.created).map(job => Math.max(0, now.getTime() - Date.parse(job.created as string)))
+    ),
+    averageProcessTime: average(started.flatMap(job => (job.durationMs === undefined ? [] : [job.durationMs]))),
+    timestamp: now.toISOString(),
+  };
+};
+
+/**
+ * Page through jobs newest first until enough match the filters
+ */
+const collectJobs = async (
+  apiClient: ApiClient,
+  endpoint: string,
+  filters: JobFilters
+): Promise<{ jobs: JobSummary[]; scanned: number; complete: boolean }> => {
+  const matched: JobSummary[] = [];
+  let scanned = 0;
+
+  for (let page = 0; page < MAX_JOB_PAGES; page++) {
+    const queryParams = new URLSearchParams({
+      offset: scanned.toString(),
+      limit: JOB_PAGE_SIZE.toString(),
+      sort: '-Created',
+    });
+    const response = await apiClient.get<any>(`${endpoint}?${queryParams.toString()}`);
+
+    if (!response.success) {
+      throw new RestorepointError(
+        ERROR_CODES.NETWORK_SERVER_ERROR,
+        response.message || 'Failed to retrieve jobs from Restorepoint'
+      );
+    }
+
+    const items: Record<string, any>[] = Array.isArray(response.data) ? response.data : response.data?.data || [];
+    const jobs = items.map(toJobSummary);
+    matched.push(...jobs.filter(job => matchesFilters(job, filters)));
+    scanned += items.length;
+
+    const total = response.metadata?.total;
+    const oldest = jobs[jobs.length - 1]?.created;
+    const pastRange = filters.dateFrom !== undefined && oldest !== undefined && Date.parse(oldest) < Date.parse(filters.dateFrom);
+    const exhausted = items.length < JOB_PAGE_SIZE || (typeof total === 'number' && scanned >= total);
+
+    if (matched.length > filters.limit || pastRange || exhausted) {
+      return { jobs: matched, scanned, complete: true };
+    }
+  }
+
+  return { jobs: matched, scanned, complete: false };
+};
+
+const listJobs = async (
+  apiClient: ApiClient,
+  endpoint: string,
+  queueName: string,
+  filters: JobFilters,
+  operation: string
+): Promise<McpResult> => {
+  const timer = Logger.startTimer('JobTools', operation);
+
+  try {
+    Logger.logWithContext('info', 'Fetching jobs from Restorepoint API', 'JobTools', {
+      endpoint, type: filters.type, deviceId: filters.deviceId, user: filters.user, status: filters.status
+    });
+
+    const { jobs, scanned, complete } = await collectJobs(apiClient, endpoint, filters);
+    const returned = jobs.slice(0, filters.limit);
+
+    timer();
+
+    return {
+      success: true,
+      data: {
+        queue: summarizeJobQueue(queueName, jobs),
+        jobs: returned,
+      },
+      metadata: {
+        matched: jobs.length,
+        returned: returned.length,
+        scanned,
+        hasMore: jobs.length > filters.limit || !complete,
+      },
+      message: `Found ${returned.length} ${queueName} job(s)`,
+    };
+
+  } catch (error) {
+    timer();
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    Logger.logWithContext('error', 'Failed to retrieve jobs', 'JobTools', {
+      endpoint,
+      error: errorMessage,
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    if (error instanceof RestorepointError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          timestamp: error.timestamp.toISOString(),
+        },
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.NETWORK_CONNECTION_FAILED,
+        message: `Failed to retrieve jobs: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+};
+
+/**
+ * Handle list_jobs tool with real API integration
+ */
+export const handleListJobs = async (args: ListJobsArgs, apiClient: ApiClient): Promise<McpResult> =>
+  listJobs(apiClient, RESTOREPOINT_ENDPOINTS.JOBS, 'active', args, 'listJobs');
+
+/**
+ * Handle list_job_history tool with real API integration
+ */
+export const handleListJobHistory = async (args: ListJobHistoryArgs, apiClient: ApiClient): Promise<McpResult> =>
+  listJobs(apiClient, RESTOREPOINT_ENDPOINTS.JOBS_HISTORIC, 'historic', args, 'listJobHistory');
+
+/**
+ * Register job tools
+ */
+export const registerJobTools = (registry: ToolRegistry): void => {
+  registry.register({
+    name: 'list_jobs',
+    description: 'List running and queued appliance jobs with a queue summary',
+    inputSchema: JobSchemas.listJobs,
+    handler: handleListJobs,
+  });
+  registry.register({
+    name: 'list_job_history',
+    description: 'List finished appliance jobs with a summary of outcomes',
+    inputSchema: JobSchemas.listJobHistory,
+    handler: handleListJobHistory,
+  });
+};
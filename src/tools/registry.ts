@@ -0,0 +1,405 @@
+/**
+ * Tool Registry
+ * Holds every tool's definition, input schema and handler for the HTTP API and MCP transports
+ */
+
+import { accessControl } from '../auth/access-control.js';
+import { ApiClient, DEFAULT_TARGET } from '../auth/api-client.js';
+import type {
+  McpContext,
+  McpInputSchema,
+  McpResult,
+  McpTool,
+  McpToolRegistration,
+  RegisteredTool,
+  ToolCacheOptions,
+  ToolRegistry,
+} from '../types/mcp-tools.js';
+import type { ZodTypeAny } from 'zod';
+import { HTTP_STATUS_CODES } from '../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import { auditLog } from '../utils/audit-log.js';
+import { redactSecrets } from '../utils/helpers.js';
+import { Logger } from '../utils/logger.js';
+import { metrics } from '../utils/metrics.js';
+import { getRequestContext, runWithContext } from '../utils/request-context.js';
+import type { DryRunPlan } from '../utils/request-context.js';
+import { responseCache, stableStringify } from '../utils/response-cache.js';
+import { tracer } from '../utils/tracing.js';
+import { zodToInputSchema } from '../utils/schema-converter.js';
+import { toDryRunResult } from './dry-run.js';
+
+/**
+ * Argument accepted by every tool to pick the Restorepoint appliance
+ */
+const TARGET_ARGUMENT = 'target';
+
+/**
+ * Add the target argument to a tool's published input schema
+ */
+const withTargetArgument = (schema: McpInputSchema): McpInputSchema => ({
+  ...schema,
+  properties: {
+    ...schema.properties,
+    [TARGET_ARGUMENT]: {
+      type: 'string',
+      description: 'Restorepoint target to run against (see list_targets); defaults to the restorepoint section',
+      minLength: 1,
+    },
+  },
+});
+
+/**
+ * Argument accepted by every mutating tool to plan the call without sending it
+ */
+const DRY_RUN_ARGUMENT = 'dryRun';
+
+/**
+ * Add the dryRun argument to a mutating tool's published input schema
+ */
+const withDryRunArgument = (schema: McpInputSchema): McpInputSchema => ({
+  ...schema,
+  properties: {
+    ...schema.properties,
+    [DRY_RUN_ARGUMENT]: {
+      type: 'boolean',
+      description: 'Resolve and validate everything, then return the upstream request that would be sent (secrets masked) without sending it',
+    },
+  },
+});
+
+/**
+ * Cache keys and groups are per target; the default target keeps the bare name
+ */
+const scopeToTarget = (value: string, target: string): string =>
+  target === DEFAULT_TARGET ? value : `${value}@${target}`;
+
+/**
+ * Concrete tool registry
+ * Tools are listed in registration order
+ */
+export class McpToolRegistry implements ToolRegistry {
+  private readonly registeredTools = new Map<string, RegisteredTool>();
+
+  public get tools(): readonly McpTool[] {
+    return this.list();
+  }
+
+  /**
+   * Register a tool; names must be unique
+   */
+  public register<TSchema extends ZodTypeAny>(registration: McpToolRegistration<TSchema>): void {
+    if (this.registeredTools.has(registration.name)) {
+      throw new RestorepointError(
+        ERROR_CODES.MCP_SERVER_ERROR,
+        `Tool already registered: ${registration.name}`
+      );
+    }
+
+    const inputSchema = withTargetArgument(zodToInputSchema(registration.inputSchema));
+    const ownsDryRun = DRY_RUN_ARGUMENT in inputSchema.properties;
+
+    this.registeredTools.set(registration.name, {
+      name: registration.name,
+      description: registration.description,
+      inputSchema: registration.mutating && !ownsDryRun ? withDryRunArgument(inputSchema) : inputSchema,
+      schema: registration.inputSchema,
+      // Safe: execute() only calls the handler with output of this schema
+      handler: registration.handler as RegisteredTool['handler'],
+      cache: registration.cache,
+      invalidates: registration.invalidates,
+      mutating: registration.mutating,
+      ownsDryRun,
+    });
+  }
+
+  public get(name: string): RegisteredTool | undefined {
+    return this.registeredTools.get(name);
+  }
+
+  public has(name: string): boolean {
+    return this.registeredTools.has(name);
+  }
+
+  /**
+   * Published MCP definitions (without implementation details)
+   */
+  public list(): readonly McpTool[] {
+    return Array.from(this.registeredTools.values(), ({ name, description, inputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+    }));
+  }
+
+  public names(): readonly string[] {
+    return Array.from(this.registeredTools.keys());
+  }
+
+  /**
+   * Execute a tool by name
+   * A target argument switches to that target's API client; otherwise the given client is used.
+   * Mutating tools are audited whatever the outcome, including denied, invalid and dry-run calls
+   */
+  public async execute(
+    name: string,
+    args: unknown,
+    apiClient: ApiClient,
+    context: Partial<McpContext> = {}
+  ): Promise<McpResult> {
+    const tool = this.registeredTools.get(name);
+    if (!tool) {
+      throw new RestorepointError(
+        ERROR_CODES.MCP_TOOL_NOT_FOUND,
+        `Tool not found: ${name}`,
+        HTTP_STATUS_CODES.NOT_FOUND
+      );
+    }
+
+    return tracer.trace(`tool ${name}`, { attributes: { 'rp.tool.name': name } }, async span => {
+      const stopTimer = metrics.toolDuration.startTimer({ tool: name });
+      const startTime = Date.now();
+      try {
+        const result = await this.run(tool, args, apiClient, context);
+        const errorCode = result.success ? undefined : result.error?.code ?? 'UNKNOWN';
+        this.recordOutcome(name, errorCode);
+        if (errorCode) {
+          span.setAttribute('rp.error.code', errorCode).setStatus('ERROR', result.error?.message);
+        }
+        if (tool.mutating) {
+          this.recordAudit(tool, args, context, startTime, result.error);
+        }
+        return result;
+      } catch (error) {
+        const errorCode = error instanceof RestorepointError ? error.code : ERROR_CODES.MCP_SERVER_ERROR;
+        this.recordOutcome(name, errorCode);
+        span.setAttribute('rp.error.code', errorCode);
+        if (tool.mutating) {
+          this.recordAudit(tool, args, context, startTime, {
+            code: errorCode,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+        throw error;
+      } finally {
+        stopTimer();
+      }
+    });
+  }
+
+  /**
+   * Append an audited call to the audit log with its caller, redacted arguments and outcome
+   */
+  private recordAudit(
+    tool: RegisteredTool,
+    args: unknown,
+    context: Partial<McpContext>,
+    startTime: number,
+    error?: { readonly code: string; readonly message: string }
+  ): void {
+    const requestContext = getRequestContext();
+    const { target, toolArgs } = this.splitTarget(this.normalizeArgs(args));
+
+    auditLog.record({
+      action: tool.name,
+      resource: typeof target === 'string' ? target : DEFAULT_TARGET,
+      userId: requestContext?.caller?.name,
+      ipAddress: requestContext?.clientAddress,
+      userAgent: requestContext?.userAgent,
+      requestId: context.requestId ?? requestContext?.requestId,
+      durationMs: Date.now() - startTime,
+      success: !error,
+      details: {
+        arguments: redactSecrets(toolArgs),
+        ...(requestContext?.caller ? { roles: requestContext.caller.roles } : {}),
+        ...(error ? { error: { code: error.code, message: error.message } } : {}),
+      },
+    });
+  }
+
+  /**
+   * Check the caller's role, resolve the target, validate arguments and call the handler
+   */
+  private async run(
+    tool: RegisteredTool,
+    args: unknown,
+    apiClient: ApiClient,
+    context: Partial<McpContext>
+  ): Promise<McpResult> {
+    const name = tool.name;
+    const caller = getRequestContext()?.caller;
+    if (!accessControl.isAllowed(caller, name)) {
+      Logger.logWithContext('warn', 'Tool call denied', 'ToolRegistry', { tool: name, caller: caller?.name, roles: caller?.roles });
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.AUTH_UNAUTHORIZED,
+          message: `Caller '${caller?.name}' is not allowed to run ${name}`,
+          details: { roles: caller?.roles },
+          timestamp: new Date().toISOString(),
+        },
+      };
+    }
+
+    const { target, toolArgs } = this.splitTarget(this.normalizeArgs(args));
+    if (target !== undefined && (typeof target !== 'string' || target.length === 0)) {
+      return this.invalidArguments(name, [{ path: TARGET_ARGUMENT, message: 'Expected a target name' }]);
+    }
+
+    const { dryRun, handlerArgs } = this.splitDryRun(tool, toolArgs);
+    if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+      return this.invalidArguments(name, [{ path: DRY_RUN_ARGUMENT, message: 'Expected a boolean' }]);
+    }
+
+    const validation = tool.schema.safeParse(handlerArgs);
+    if (!validation.success) {
+      return this.invalidArguments(name, validation.error.errors.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })));
+    }
+
+    let client = apiClient;
+    if (target !== undefined) {
+      try {
+        client = ApiClient.getInstance(target);
+      } catch (error) {
+        if (error instanceof RestorepointError) {
+          return this.invalidArguments(name, [{ path: TARGET_ARGUMENT, message: error.message }]);
+        }
+        throw error;
+      }
+    }
+
+    const targetName = target ?? DEFAULT_TARGET;
+    tracer.getActiveSpan()?.setAttribute('rp.target', targetName);
+
+    const plan: DryRunPlan | undefined = dryRun === true && tool.mutating ? {} : undefined;
+    const callHandler = (data: unknown) => runWithContext({ target: targetName, dryRun: plan }, () => tool.handler(data, client, {
+      ...context,
+      toolName: name,
+      target: targetName,
+      dryRun: plan !== undefined,
+      timestamp: context.timestamp ?? new Date().toISOString(),
+    }));
+
+    const result = tool.cache
+      ? await this.runCached(tool, tool.cache, targetName, validation.data, callHandler)
+      : await callHandler(validation.data);
+
+    if (plan) {
+      return toDryRunResult(name, targetName, plan, result, client, validation.data);
+    }
+
+    if (result.success && tool.invalidates && tool.invalidates.length > 0) {
+      responseCache.invalidate(tool.invalidates.map(group => scopeToTarget(group, targetName)));
+    }
+
+    return result;
+  }
+
+  private invalidArguments(name: string, issues: readonly { path: string; message: string }[]): McpResult {
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.VALIDATION_INVALID_INPUT,
+        message: `Invalid arguments for ${name}: ${issues
+          .map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+          .join(', ')}`,
+        details: { issues },
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Serve a read-only tool from the response cache
+   * Keys use the target and the validated arguments, so defaults and key order do not matter; cache: 'bypass' forces a refresh
+   */
+  private async runCached(
+    tool: RegisteredTool,
+    cache: ToolCacheOptions,
+    target: string,
+    data: unknown,
+    callHandler: (data: unknown) => Promise<McpResult>
+  ): Promise<McpResult> {
+    const { cache: mode, ...args } = (data ?? {}) as Record<string, unknown>;
+    const ttlMs = responseCache.getTtl(tool.name, cache.ttlMs);
+    if (ttlMs <= 0) {
+      return callHandler(args);
+    }
+
+    const key = `${scopeToTarget(tool.name, target)}:${stableStringify(args)}`;
+    const cached = mode === 'bypass' ? undefined : responseCache.get<McpResult>(key);
+    metrics.cacheRequests.inc({ tool: tool.name, result: mode === 'bypass' ? 'bypass' : cached ? 'hit' : 'miss' });
+
+    if (cached) {
+      return {
+        ...cached.value,
+        metadata: {
+          ...cached.value.metadata,
+          cache: { hit: true, ageMs: Date.now() - cached.createdAt.getTime() },
+        },
+      };
+    }
+
+    const result = await callHandler(args);
+    if (result.success) {
+      responseCache.set(key, result, ttlMs, scopeToTarget(cache.group, target));
+    }
+    return result;
+  }
+
+  /**
+   * Count the call by outcome and failed calls by error code
+   */
+  private recordOutcome(name: string, errorCode?: string): void {
+    metrics.toolCalls.inc({ tool: name, outcome: errorCode ? 'error' : 'success' });
+    if (errorCode) {
+      metrics.toolErrors.inc({ tool: name, code: errorCode });
+    }
+  }
+
+  /**
+   * Separate the target argument from the tool's own arguments
+   */
+  private splitTarget(args: unknown): { target?: unknown; toolArgs: unknown } {
+    if (!args || typeof args !== 'object' || Array.isArray(args) || !(TARGET_ARGUMENT in args)) {
+      return { toolArgs: args };
+    }
+
+    const { [TARGET_ARGUMENT]: target, ...toolArgs } = args as Record<string, unknown>;
+    return { target, toolArgs };
+  }
+
+  /**
+   * Take the dryRun argument off a mutating tool's arguments; tools with their own dryRun keep it
+   */
+  private splitDryRun(tool: RegisteredTool, args: unknown): { dryRun?: unknown; handlerArgs: unknown } {
+    if (!tool.mutating || !args || typeof args !== 'object' || Array.isArray(args) || !(DRY_RUN_ARGUMENT in args)) {
+      return { handlerArgs: args };
+    }
+
+    const { [DRY_RUN_ARGUMENT]: dryRun, ...handlerArgs } = args as Record<string, unknown>;
+    return { dryRun, handlerArgs: tool.ownsDryRun ? args : handlerArgs };
+  }
+
+  /**
+   * Missing arguments mean "no arguments"; some clients send arguments as a JSON string
+   */
+  private normalizeArgs(args: unknown): unknown {
+    if (args === undefined || args === null) {
+      return {};
+    }
+
+    if (typeof args === 'string') {
+      try {
+        return JSON.parse(args);
+      } catch {
+        return args;
+      }
+    }
+
+    return args;
+  }
+}
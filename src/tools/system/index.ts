@@ -0,0 +1,486 @@
+/**
+ * System Administration Tools Implementation
+ * Appliance health and licence usage from the Restorepoint API, and the configured targets
+ */
+
+import type { McpResult, ToolRegistry } from '../../types/mcp-tools.js';
+import type { HealthCheckResult, SystemHealth } from '../../types/common.js';
+import { Logger } from '../../utils/logger.js';
+import { ApiClient } from '../../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../../constants/error-codes.js';
+import { auditLog } from '../../utils/audit-log.js';
+import { formatBytes } from '../../utils/helpers.js';
+import { SystemSchemas } from '../../utils/validators.js';
+import type { GetSystemStatusArgs, GetLicensesArgs, ListTargetsArgs, QueryAuditLogArgs } from '../../utils/validators.js';
+
+type HealthState = SystemHealth['status'];
+
+/**
+ * Usage thresholds (percent) for degraded and unhealthy resources
+ */
+const STORAGE_THRESHOLDS = { degraded: 85, unhealthy: 95 } as const;
+const MEMORY_THRESHOLDS = { degraded: 90, unhealthy: 98 } as const;
+const LICENSE_DEVICE_THRESHOLDS = { degraded: 90, unhealthy: 100 } as const;
+
+/**
+ * Days before licence expiry at which the licence is reported as degraded
+ */
+const LICENSE_EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cluster status text indicating a broken HA pair
+ */
+const HA_PROBLEM_PATTERN = /error|fail|disconnect|down|unreachable|not /i;
+
+/**
+ * Upstream /status payload
+ */
+export interface ApplianceStatus {
+  readonly Appliance?: {
+    readonly Expiration?: string;
+    readonly Version?: string;
+    readonly Build?: string;
+    readonly Serial?: string;
+    readonly MaxDevices?: number;
+  };
+  readonly Storage?: Record<string, number | boolean | undefined> & { Total?: number; Used?: number };
+  readonly System?: {
+    readonly Release?: string;
+    readonly Uptime?: number;
+    readonly Load?: readonly number[];
+    readonly Memory?: { Total?: number; Used?: number; Available?: number; Swap?: number };
+    readonly [key: string]: unknown;
+  };
+}
+
+/**
+ * Upstream /settings/ha/status payload
+ */
+export interface HaStatus {
+  readonly Active?: boolean;
+  readonly ClusterStatus?: string;
+}
+
+const usagePercent = (used: number | undefined, total: number | undefined): number | undefined =>
+  typeof used === 'number' && typeof total === 'number' && total > 0
+    ? Math.round((used / total) * 1000) / 10
+    : undefined;
+
+const stateForUsage = (
+  percent: number | undefined,
+  thresholds: { readonly degraded: number; readonly unhealthy: number }
+): HealthState => {
+  if (percent === undefined) return 'healthy';
+  if (percent >= thresholds.unhealthy) return 'unhealthy';
+  if (percent >= thresholds.degraded) return 'degraded';
+  return 'healthy';
+};
+
+/**
+ * Days until the licence expires (negative once expired); undefined when unparseable
+ */
+export const daysUntil = (date: string | undefined, now: Date = new Date()): number | undefined => {
+  if (!date) return undefined;
+  const timestamp = Date.parse(date);
+  return Number.isNaN(timestamp) ? undefined : Math.floor((timestamp - now.getTime()) / DAY_MS);
+};
+
+const worstState = (states: readonly HealthState[]): HealthState =>
+  states.includes('unhealthy') ? 'unhealthy' : states.includes('degraded') ? 'degraded' : 'healthy';
+
+/**
+ * Map /status and /settings/ha/status onto SystemHealth
+ * haStatus is null when the appliance is not part of an HA cluster
+ */
+export const evaluateSystemHealth = (
+  status: ApplianceStatus,
+  haStatus: HaStatus | null,
+  responseTime: number,
+  now: Date = new Date()
+): SystemHealth => {
+  const timestamp = now.toISOString();
+  const checks: HealthCheckResult[] = [
+    {
+      service: 'api',
+      status: 'healthy',
+      timestamp,
+      responseTime,
+    },
+  ];
+
+  const storagePercent = usagePercent(status.Storage?.Used, status.Storage?.Total);
+  checks.push({
+    service: 'storage',
+    status: stateForUsage(storagePercent, STORAGE_THRESHOLDS),
+    timestamp,
+    details: {
+      usedPercent: storagePercent,
+      used: typeof status.Storage?.Used === 'number' ? formatBytes(status.Storage.Used) : undefined,
+      total: typeof status.Storage?.Total === 'number' ? formatBytes(status.Storage.Total) : undefined,
+    },
+  });
+
+  const memory = status.System?.Memory;
+  const memoryPercent = usagePercent(memory?.Used, memory?.Total);
+  checks.push({
+    service: 'memory',
+    status: stateForUsage(memoryPercent, MEMORY_THRESHOLDS),
+    timestamp,
+    details: { usedPercent: memoryPercent },
+  });
+
+  const expiration = status.Appliance?.Expiration;
+  const daysLeft = daysUntil(expiration, now);
+  checks.push({
+    service: 'license',
+    status: daysLeft === undefined
+      ? 'healthy'
+      : daysLeft < 0 ? 'unhealthy' : daysLeft <= LICENSE_EXPIRY_WARNING_DAYS ? 'degraded' : 'healthy',
+    timestamp,
+    details: { expiration, daysUntilExpiry: daysLeft },
+    ...(daysLeft !== undefined && daysLeft < 0 ? { error: `Licence expired on ${expiration}` } : {}),
+  });
+
+  if (haStatus) {
+    const clusterProblem = typeof haStatus.ClusterStatus === 'string' && HA_PROBLEM_PATTERN.test(haStatus.ClusterStatus);
+    checks.push({
+      service: 'high-availability',
+      status: clusterProblem ? 'degraded' : 'healthy',
+      timestamp,
+      details: { active: haStatus.Active, clusterStatus: haStatus.ClusterStatus },
+    });
+  }
+
+  const version = status.Appliance?.Version ?? 'unknown';
+  const build = status.Appliance?.Build;
+
+  return {
+    status: worstState(checks.map(check => check.status)),
+    timestamp,
+    checks,
+    uptime: status.System?.Uptime ?? 0,
+    version: build ? `${version} (build ${build})` : version,
+    environment: haStatus ? (haStatus.Active ? 'ha-active' : 'ha-standby') : 'standalone',
+  };
+};
+
+const toErrorResult = (error: unknown, fallbackMessage: string): McpResult => {
+  if (error instanceof RestorepointError) {
+    return {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        timestamp: error.timestamp.toISOString(),
+      },
+    };
+  }
+
+  return {
+    success: false,
+    error: {
+      code: ERROR_CODES.NETWORK_CONNECTION_FAILED,
+      message: `${fallbackMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      timestamp: new Date().toISOString(),
+    },
+  };
+};
+
+const fetchApplianceStatus = async (apiClient: ApiClient): Promise<ApplianceStatus> => {
+  const response = await apiClient.get<ApplianceStatus>(RESTOREPOINT_ENDPOINTS.SYSTEM_STATUS);
+  if (!response.success || !response.data) {
+    throw new RestorepointError(
+      ERROR_CODES.NETWORK_SERVER_ERROR,
+      response.message || 'Failed to retrieve system status from Restorepoint'
+    );
+  }
+  return response.data;
+};
+
+/**
+ * HA status is optional: appliances outside a cluster reject the request
+ */
+const fetchHaStatus = async (apiClient: ApiClient): Promise<HaStatus | null> => {
+  try {
+    const response = await apiClient.get<HaStatus>(RESTOREPOINT_ENDPOINTS.HA_STATUS, { maxRetries: 1 });
+    return response.success && response.data && typeof response.data === 'object' ? response.data : null;
+  } catch (error) {
+    Logger.logWithContext('debug', 'HA status unavailable, assuming standalone appliance', 'SystemTools', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+};
+
+/**
+ * Handle get_system_status tool with real API integration
+ */
+export const handleGetSystemStatus = async (args: GetSystemStatusArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('SystemTools', 'getSystemStatus');
+
+  try {
+    const { includeDetails, includeMetrics } = args;
+
+    Logger.logWithContext('info', 'Fetching system status from Restorepoint API', 'SystemTools', {
+      includeDetails, includeMetrics
+    });
+
+    const startTime = Date.now();
+    const status = await fetchApplianceStatus(apiClient);
+    const responseTime = Date.now() - startTime;
+    const haStatus = await fetchHaStatus(apiClient);
+
+    const health = evaluateSystemHealth(status, haStatus, responseTime);
+
+    timer();
+
+    Logger.logWithContext('info', 'System status retrieved successfully from API', 'SystemTools', {
+      status: health.status,
+      failingChecks: health.checks.filter(check => check.status !== 'healthy').map(check => check.service),
+    });
+
+    return {
+      success: true,
+      data: {
+        ...health,
+        ...(includeMetrics ? {
+          metrics: {
+            load: status.System?.Load,
+            memory: status.System?.Memory,
+            storage: status.Storage,
+            filesOpen: status.System?.FilesOpen,
+            processes: status.System?.Processes,
+          },
+        } : {}),
+        ...(includeDetails ? { details: { status, haStatus } } : {}),
+      },
+      message: `Restorepoint appliance is ${health.status}`,
+    };
+
+  } catch (error) {
+    timer();
+
+    Logger.logWithContext('error', 'Failed to retrieve system status from API', 'SystemTools', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    return toErrorResult(error, 'Failed to retrieve system status');
+  }
+};
+
+/**
+ * Handle get_licenses tool with real API integration
+ * Device licence usage compares the device count with the appliance MaxDevices capacity
+ */
+export const handleGetLicenses = async (args: GetLicensesArgs, apiClient: ApiClient): Promise<McpResult> => {
+  const timer = Logger.startTimer('SystemTools', 'getLicenses');
+
+  try {
+    const { includeUsage } = args;
+
+    Logger.logWithContext('info', 'Fetching licence information from Restorepoint API', 'SystemTools', {
+      includeUsage
+    });
+
+    const status = await fetchApplianceStatus(apiClient);
+
+    const devicesResponse = await apiClient.get<any>(`${RESTOREPOINT_ENDPOINTS.DEVICES}?limit=1&fields=ID`);
+    const devicesUsed: number = devicesResponse.metadata?.total
+      ?? (Array.isArray(devicesResponse.data) ? devicesResponse.data.length : 0);
+
+    const maxDevices = status.Appliance?.MaxDevices;
+    const devicePercent = usagePercent(devicesUsed, maxDevices);
+    const expiration = status.Appliance?.Expiration;
+    const daysUntilExpiry = daysUntil(expiration);
+
+    const data: Record<string, unknown> = {
+      serial: status.Appliance?.Serial,
+      version: status.Appliance?.Version,
+      expiration,
+      daysUntilExpiry,
+      expired: daysUntilExpiry !== undefined && daysUntilExpiry < 0,
+      devices: {
+        used: devicesUsed,
+        capacity: maxDevices,
+        available: typeof maxDevices === 'number' ? Math.max(0, maxDevices - devicesUsed) : undefined,
+        usedPercent: devicePercent,
+        status: stateForUsage(devicePercent, LICENSE_DEVICE_THRESHOLDS),
+      },
+    };
+
+    if (includeUsage) {
+      const domainsResponse = await apiClient.get<any>(`${RESTOREPOINT_ENDPOINTS.DOMAINS}?limit=500`);
+      const domains: any[] = Array.isArray(domainsResponse.data) ? domainsResponse.data : domainsResponse.data?.data || [];
+      data.domains = domains.map(domain => ({
+        id: domain.ID,
+        name: domain.Name,
+        deviceCount: domain.DeviceCount,
+        maxDevices: domain.MaxDevices,
+        usedPercent: usagePercent(domain.DeviceCount, domain.MaxDevices),
+        licenceExpiry: domain.LicenceExpiry,
+      }));
+    }
+
+    timer();
+
+    Logger.logWithContext('info', 'Licence information retrieved successfully from API', 'SystemTools', {
+      devicesUsed, maxDevices, daysUntilExpiry
+    });
+
+    return {
+      success: true,
+      data,
+      message: typeof maxDevices === 'number'
+        ? `Using ${devicesUsed} of ${maxDevices} device licences${expiration ? `; licence expires ${expiration}` : ''}`
+        : `Using ${devicesUsed} device licences`,
+    };
+
+  } catch (error) {
+    timer();
+
+    Logger.logWithContext('error', 'Failed to retrieve licence information from API', 'SystemTools', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorType: error instanceof RestorepointError ? 'RestorepointError' : 'Unknown',
+    });
+
+    return toErrorResult(error, 'Failed to retrieve licence information');
+  }
+};
+
+/**
+ * Reachability of one target; failures are reported rather than thrown
+ */
+const checkTarget = async (client: ApiClient): Promise<Record<string, unknown>> => {
+  const startTime = Date.now();
+  try {
+    const status = await fetchApplianceStatus(client);
+    return { reachable: true, responseTimeMs: Date.now() - startTime, version: status.Appliance?.Version };
+  } catch (error) {
+    return {
+      reachable: false,
+      responseTimeMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Handle list_targets tool
+ * Lists every configured appliance without its token; connectivity checks run in parallel
+ */
+export const handleListTargets = async (args: ListTargetsArgs): Promise<McpResult> => {
+  const timer = Logger.startTimer('SystemTools', 'listTargets');
+
+  try {
+    const { checkConnectivity } = args;
+    const clients = ApiClient.getTargets();
+
+    const targets = await Promise.all(clients.map(async client => {
+      const tokenInfo = client.getTokenInfo();
+      return {
+        ...client.getTarget(),
+        authenticated: tokenInfo.hasToken && !tokenInfo.isExpired,
+        circuitBreaker: client.getCircuitBreakerState().state,
+        ...(checkConnectivity ? { connectivity: await checkTarget(client) } : {}),
+      };
+    }));
+
+    timer();
+
+    Logger.logWithContext('info', 'Listed Restorepoint targets', 'SystemTools', {
+      count: targets.length, checkConnectivity
+    });
+
+    return {
+      success: true,
+      data: targets,
+      message: `${targets.length} Restorepoint target${targets.length === 1 ? '' : 's'} configured`,
+    };
+
+  } catch (error) {
+    timer();
+
+    Logger.logWithContext('error', 'Failed to list Restorepoint targets', 'SystemTools', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return toErrorResult(error, 'Failed to list Restorepoint targets');
+  }
+};
+
+/**
+ * Handle query_audit_log tool
+ * Reads this server's audit log, so the target argument does not apply
+ */
+export const handleQueryAuditLog = async (args: QueryAuditLogArgs): Promise<McpResult> => {
+  const timer = Logger.startTimer('SystemTools', 'queryAuditLog');
+
+  try {
+    if (!auditLog.isEnabled()) {
+      timer();
+      return {
+        success: true,
+        data: { entries: [], total: 0 },
+        message: 'Audit logging is disabled (audit.enabled is false)',
+      };
+    }
+
+    const { entries, total } = await auditLog.query(args);
+
+    timer();
+
+    Logger.logWithContext('info', 'Queried audit log', 'SystemTools', {
+      tool: args.tool, caller: args.caller, returned: entries.length, total
+    });
+
+    return {
+      success: true,
+      data: { entries, total },
+      message: `${total} audit log entr${total === 1 ? 'y' : 'ies'} matched${total > entries.length ? `, showing the newest ${entries.length}` : ''}`,
+    };
+
+  } catch (error) {
+    timer();
+
+    Logger.logWithContext('error', 'Failed to query audit log', 'SystemTools', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return toErrorResult(error, 'Failed to query audit log');
+  }
+};
+
+/**
+ * Register system tools
+ */
+export const registerSystemTools = (registry: ToolRegistry): void => {
+  registry.register({
+    name: 'get_system_status',
+    description: 'Get Restorepoint system status and health information',
+    inputSchema: SystemSchemas.getSystemStatus,
+    handler: handleGetSystemStatus,
+  });
+  registry.register({
+    name: 'get_licenses',
+    description: 'Get license information and usage',
+    inputSchema: SystemSchemas.getLicenses,
+    handler: handleGetLicenses,
+  });
+  registry.register({
+    name: 'list_targets',
+    description: 'List the configured Restorepoint appliances that tools can address with the target argument',
+    inputSchema: SystemSchemas.listTargets,
+    handler: handleListTargets,
+  });
+  registry.register({
+    name: 'query_audit_log',
+    description: 'Search the audit log of device, backup and command changes by time, tool, caller and outcome',
+    inputSchema: SystemSchemas.queryAuditLog,
+    handler: handleQueryAuditLog,
+  });
+};
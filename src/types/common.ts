@@ -292,6 +292,8 @@ export interface AuditLogEntry {
   readonly userId?: string;
   readonly ipAddress?: string;
   readonly userAgent?: string;
+  readonly requestId?: string;
+  readonly durationMs?: number;
   readonly success: boolean;
   readonly details?: Record<string, unknown>;
   readonly changes?: {
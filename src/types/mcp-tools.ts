@@ -3,6 +3,8 @@
  * Provides type-safe interfaces for tool registration and execution
  */
 
+import type { ZodTypeAny, output } from 'zod';
+import type { ApiClient } from '../auth/api-client.js';
 import type { DeviceId, BackupId, TaskId, AgentId, CommandId } from './restorepoint-api.js';
 
 /**
@@ -21,16 +23,19 @@ export interface McpInputSchema {
   readonly type: 'object';
   readonly properties: Record<string, McpProperty>;
   readonly required?: readonly string[];
+  readonly additionalProperties?: boolean;
 }
 
 /**
  * MCP property definition
  */
 export interface McpProperty {
-  readonly type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  readonly type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
   readonly description?: string;
   readonly items?: McpProperty; // For array types
   readonly properties?: Record<string, McpProperty>; // For object types
+  readonly required?: readonly string[]; // For object types
+  readonly additionalProperties?: boolean | McpProperty; // For object and record types
   readonly enum?: readonly string[];
   readonly minimum?: number;
   readonly maximum?: number;
@@ -49,6 +54,8 @@ export interface McpProperty {
 export interface McpContext {
   readonly toolName: string;
   readonly requestId?: string;
+  readonly target?: string;
+  readonly dryRun?: boolean;
   readonly timestamp: string;
   readonly metadata?: Record<string, unknown>;
 }
@@ -458,8 +465,13 @@ export interface ScheduleCommandTool extends McpTool {
   readonly name: 'schedule_command';
   readonly description: 'Schedule recurring command execution';
   readonly inputSchema: McpInputSchema & {
-    readonly required: readonly ['deviceIds', 'command', 'schedule'];
+    readonly required: readonly ['commandId', 'deviceIds'];
     readonly properties: {
+      readonly commandId: McpProperty & { 
+        type: 'string'; 
+        description: 'ID of the saved command to schedule';
+        minLength: 1;
+      };
       readonly deviceIds: McpProperty & { 
         type: 'array'; 
         description: 'List of device IDs to execute command on';
@@ -467,32 +479,25 @@ export interface ScheduleCommandTool extends McpTool {
         minItems: 1;
         maxItems: 100;
       };
-      readonly command: McpProperty & { 
-        type: 'string'; 
-        description: 'Command to execute';
-        minLength: 1;
-        maxLength: 10000;
-      };
-      readonly schedule: McpProperty & { 
+      readonly schedule?: McpProperty & { 
         type: 'string'; 
         description: 'Cron-like schedule expression';
         minLength: 1;
       };
-      readonly commandType?: McpProperty & { 
+      readonly runAt?: McpProperty & { 
         type: 'string'; 
-        enum: readonly ['show', 'configure', 'execute', 'custom'];
-        default: 'show';
-        description: 'Type of command';
+        format: 'date-time';
+        description: 'Run once at this time instead of on a schedule';
       };
-      readonly enabled?: McpProperty & { 
-        type: 'boolean'; 
-        default: true;
-        description: 'Whether the schedule is enabled';
+      readonly keepLast?: McpProperty & { 
+        type: 'integer'; 
+        default: 1;
+        description: 'Number of outputs to keep';
       };
-      readonly description?: McpProperty & { 
-        type: 'string'; 
-        description: 'Description of the scheduled command';
-        maxLength: 500;
+      readonly confirm?: McpProperty & { 
+        type: 'boolean'; 
+        default: false;
+        description: 'Create the schedule instead of returning a preview';
       };
     };
   };
@@ -610,13 +615,71 @@ export interface GetLicensesTool extends McpTool {
   };
 }
 
+/**
+ * Tool handler signature shared by every tool module
+ * Handlers receive arguments already validated against the tool's input schema
+ */
+export type McpToolHandler<TArgs = unknown> = (
+  args: TArgs,
+  apiClient: ApiClient,
+  context: McpContext
+) => Promise<McpResult>;
+
+/**
+ * Response caching for a read-only tool
+ */
+export interface ToolCacheOptions {
+  /**
+   * Group cleared by tools that change the underlying data
+   */
+  readonly group: string;
+  /**
+   * TTL used unless the cache configuration overrides it for this tool
+   */
+  readonly ttlMs: number;
+}
+
+/**
+ * Tool registration supplied by a tool module
+ */
+export interface McpToolRegistration<TSchema extends ZodTypeAny = ZodTypeAny> {
+  readonly name: string;
+  readonly description: string;
+  readonly inputSchema: TSchema;
+  readonly handler: McpToolHandler<output<TSchema>>;
+  readonly cache?: ToolCacheOptions;
+  /**
+   * Cache groups cleared when the tool succeeds
+   */
+  readonly invalidates?: readonly string[];
+  /**
+   * Changes devices or starts jobs: every call is audited and a dryRun argument plans the call without sending it
+   */
+  readonly mutating?: boolean;
+}
+
+/**
+ * Registered tool: the published MCP definition plus its implementation
+ */
+export interface RegisteredTool extends McpTool {
+  readonly schema: ZodTypeAny;
+  readonly handler: McpToolHandler;
+  readonly cache?: ToolCacheOptions;
+  readonly invalidates?: readonly string[];
+  readonly mutating?: boolean;
+  /**
+   * The tool's own schema defines dryRun, so it handles the preview itself
+   */
+  readonly ownsDryRun?: boolean;
+}
+
 /**
  * Tool registry interface
  */
 export interface ToolRegistry {
   readonly tools: readonly McpTool[];
-  register(tool: McpTool): void;
-  get(name: string): McpTool | undefined;
+  register<TSchema extends ZodTypeAny>(tool: McpToolRegistration<TSchema>): void;
+  get(name: string): RegisteredTool | undefined;
   list(): readonly McpTool[];
 }
 
@@ -1,6 +1,8 @@
 import type { TaskStatus } from '../constants/endpoints.js';
 import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
 import { Logger } from './logger.js';
+import { MemoryTaskStore, toStoredTask } from './task-store.js';
+import type { StoredTask, TaskStore } from './task-store.js';
 
 /**
  * Task information interface
@@ -32,6 +34,21 @@ export interface TaskOptions {
   readonly onError?: (error: Error) => void;
 }
 
+/**
+ * Options for attaching a task store
+ */
+export interface TaskStoreOptions {
+  /**
+   * How long finished tasks are kept (defaults to 24 hours)
+   */
+  readonly historyRetentionMs?: number;
+}
+
+/**
+ * Listener notified whenever a task is created or changes state
+ */
+export type TaskUpdateListener = (task: Readonly<TaskInfo>) => void;
+
 /**
  * Async operation result
  */
@@ -50,8 +67,11 @@ export interface AsyncOperationResult<T = unknown> {
 export class TaskManager {
   private static instance: TaskManager;
   private readonly tasks = new Map<string, TaskInfo>();
+  private readonly listeners = new Set<TaskUpdateListener>();
   private maxConcurrentTasks: number;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private store: TaskStore = new MemoryTaskStore();
+  private historyRetentionMs = 24 * 60 * 60 * 1000; // 24 hours
   private readonly DEFAULT_TIMEOUT = 3600000; // 1 hour
 
   private constructor(maxConcurrentTasks: number = 10) {
@@ -69,6 +89,41 @@ export class TaskManager {
     return TaskManager.instance;
   }
 
+  /**
+   * Persist tasks in the given store and restore the tasks it already holds
+   * Returns the restored tasks; unfinished ones still need re-attaching to their upstream jobs
+   */
+  public useStore(store: TaskStore, options: TaskStoreOptions = {}): TaskInfo[] {
+    this.store = store;
+    if (options.historyRetentionMs !== undefined) {
+      this.historyRetentionMs = options.historyRetentionMs;
+    }
+
+    const restored: TaskInfo[] = [];
+    for (const stored of store.load()) {
+      if (this.tasks.has(stored.id)) {
+        continue;
+      }
+      const task = this.fromStoredTask(stored);
+      this.tasks.set(task.id, task);
+      restored.push(task);
+
+      if (task.status === 'pending' || task.status === 'running') {
+        const remainingMs = task.createdAt.getTime() + task.timeoutMs - Date.now();
+        this.scheduleTaskTimeout(task.id, Math.max(remainingMs, 0));
+      }
+    }
+
+    this.cleanupCompletedTasks();
+
+    Logger.logWithContext('info', `Using ${store.name} task store`, 'TaskManager', {
+      restored: restored.length,
+      historyRetentionMs: this.historyRetentionMs,
+    });
+
+    return restored;
+  }
+
   /**
    * Create a new task
    */
@@ -110,6 +165,7 @@ export class TaskManager {
     };
 
     this.tasks.set(taskId, task);
+    this.persist(task);
     
     // Set timeout for the task
     this.scheduleTaskTimeout(taskId, task.timeoutMs);
@@ -120,6 +176,8 @@ export class TaskManager {
       timeout: task.timeoutMs,
     });
 
+    this.notifyListeners(task);
+
     return task;
   }
 
@@ -154,12 +212,16 @@ export class TaskManager {
       task.details = { ...task.details, ...details };
     }
 
+    this.persist(task);
+
     Logger.logWithContext('debug', `Updated task ${taskId}: ${status}`, 'TaskManager', {
       taskId,
       status,
       progress,
     });
 
+    this.notifyListeners(task);
+
     // Handle completion
     if (status === 'completed') {
       this.handleTaskCompletion(taskId);
@@ -198,10 +260,41 @@ export class TaskManager {
   }
 
   /**
-   * Get running tasks count
+   * Get running tasks count (pending or running)
    */
   public getRunningTaskCount(): number {
-    return this.tasks.size;
+    let count = 0;
+    for (const task of this.tasks.values()) {
+      if (task.status === 'pending' || task.status === 'running') {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Maximum number of pending or running tasks
+   */
+  public getMaxConcurrentTasks(): number {
+    return this.maxConcurrentTasks;
+  }
+
+  /**
+   * Whether another task can start without exceeding the concurrent task limit
+   */
+  public hasCapacity(): boolean {
+    return this.getRunningTaskCount() < this.maxConcurrentTasks;
+  }
+
+  /**
+   * Subscribe to task creation and status updates
+   * Returns an unsubscribe function
+   */
+  public subscribe(listener: TaskUpdateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
@@ -238,6 +331,7 @@ export class TaskManager {
     }
 
     this.tasks.delete(taskId);
+    this.store.delete(taskId);
     Logger.logWithContext('debug', `Deleted completed task: ${taskId}`, 'TaskManager');
     return true;
   }
@@ -279,6 +373,22 @@ export class TaskManager {
     }, timeoutMs);
   }
 
+  /**
+   * Notify subscribers of a task change
+   */
+  private notifyListeners(task: TaskInfo): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(task);
+      } catch (error) {
+        Logger.logWithContext('error', 'Error in task update listener', 'TaskManager', {
+          taskId: task.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
   /**
    * Handle task completion
    */
@@ -316,6 +426,35 @@ export class TaskManager {
     }
   }
 
+  /**
+   * Write a task to the store without letting storage failures break task handling
+   */
+  private persist(task: TaskInfo): void {
+    try {
+      this.store.save(toStoredTask(task));
+    } catch (error) {
+      Logger.logWithContext('error', 'Failed to persist task', 'TaskManager', {
+        taskId: task.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private fromStoredTask(stored: StoredTask): TaskInfo {
+    return {
+      id: stored.id,
+      type: stored.type,
+      status: stored.status,
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt),
+      progress: stored.progress,
+      message: stored.message,
+      details: stored.details,
+      error: stored.error ? new Error(stored.error) : undefined,
+      timeoutMs: stored.timeoutMs,
+    };
+  }
+
   /**
    * Start cleanup interval
    */
@@ -326,18 +465,19 @@ export class TaskManager {
   }
 
   /**
-   * Clean up completed tasks older than 24 hours
+   * Clean up completed tasks older than the history window
    */
   private cleanupCompletedTasks(): void {
     const now = new Date();
-    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const historyStart = new Date(now.getTime() - this.historyRetentionMs);
     
     for (const [taskId, task] of this.tasks.entries()) {
-      const isCompleted = task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled';
-      const isOld = task.updatedAt < twentyFourHoursAgo;
+      const isCompleted = task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled' || task.status === 'timeout';
+      const isOld = task.updatedAt < historyStart;
       
       if (isCompleted && isOld) {
         this.tasks.delete(taskId);
+        this.store.delete(taskId);
         Logger.logWithContext('debug', `Cleaned up old task: ${taskId}`, 'TaskManager');
       }
     }
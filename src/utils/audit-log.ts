@@ -0,0 +1,138 @@
+import { appendFileSync, mkdirSync, promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import type { AuditConfig } from '../config/types.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import type { AuditLogEntry } from '../types/common.js';
+import { generateId } from './helpers.js';
+import { Logger } from './logger.js';
+
+/**
+ * Filters for reading the audit log; dates are inclusive ISO timestamps
+ */
+export interface AuditLogQuery {
+  readonly dateFrom?: string;
+  readonly dateTo?: string;
+  readonly tool?: string;
+  readonly caller?: string;
+  readonly success?: boolean;
+  readonly limit: number;
+}
+
+/**
+ * Append-only JSON lines record of mutating tool calls
+ * Writes are synchronous so an entry is on disk before the tool result is returned
+ */
+export class AuditLog {
+  private static instance: AuditLog;
+  private filePath: string | undefined;
+
+  private constructor() {}
+
+  public static getInstance(): AuditLog {
+    if (!AuditLog.instance) {
+      AuditLog.instance = new AuditLog();
+    }
+    return AuditLog.instance;
+  }
+
+  public configure(config: AuditConfig): void {
+    this.filePath = config.enabled ? resolve(config.filePath) : undefined;
+  }
+
+  public isEnabled(): boolean {
+    return this.filePath !== undefined;
+  }
+
+  /**
+   * Append an entry; a write failure is logged but never fails the tool call
+   */
+  public record(entry: Omit<AuditLogEntry, 'id' | 'timestamp'>): AuditLogEntry | undefined {
+    if (!this.filePath) {
+      return undefined;
+    }
+
+    const auditEntry: AuditLogEntry = {
+      id: generateId('audit'),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, `${JSON.stringify(auditEntry)}\n`, 'utf8');
+    } catch (error) {
+      Logger.logWithContext('error', 'Failed to write audit log', 'AuditLog', {
+        filePath: this.filePath,
+        action: entry.action,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return auditEntry;
+  }
+
+  /**
+   * Matching entries, newest first, with the number that matched before the limit
+   */
+  public async query(filters: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    if (!this.filePath) {
+      return { entries: [], total: 0 };
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        return { entries: [], total: 0 };
+      }
+      throw new RestorepointError(
+        ERROR_CODES.MCP_SERVER_ERROR,
+        `Failed to read audit log: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const from = filters.dateFrom ? Date.parse(filters.dateFrom) : undefined;
+    const to = filters.dateTo ? Date.parse(filters.dateTo) : undefined;
+    const matches: AuditLogEntry[] = [];
+    let skipped = 0;
+
+    for (const line of content.split('\n')) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+
+      let entry: AuditLogEntry;
+      try {
+        entry = JSON.parse(line) as AuditLogEntry;
+      } catch {
+        skipped++;
+        continue;
+      }
+
+      const time = Date.parse(entry.timestamp);
+      if ((from !== undefined && time < from) || (to !== undefined && time > to)) {
+        continue;
+      }
+      if ((filters.tool && entry.action !== filters.tool)
+        || (filters.caller && entry.userId !== filters.caller)
+        || (filters.success !== undefined && entry.success !== filters.success)) {
+        continue;
+      }
+      matches.push(entry);
+    }
+
+    if (skipped > 0) {
+      Logger.logWithContext('warn', `Skipped ${skipped} unreadable audit log line(s)`, 'AuditLog', {
+        filePath: this.filePath,
+      });
+    }
+
+    return { entries: matches.reverse().slice(0, filters.limit), total: matches.length };
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const auditLog = AuditLog.getInstance();
@@ -0,0 +1,149 @@
+import type { CircuitBreakerState } from '../types/common.js';
+import { HTTP_STATUS_CODES } from '../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import { Logger } from './logger.js';
+
+/**
+ * Circuit breaker options
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that open the circuit
+   */
+  readonly failureThreshold: number;
+  /**
+   * How long the circuit stays open before a trial call is allowed
+   */
+  readonly resetTimeoutMs: number;
+  /**
+   * Whether an error counts as a failure; other errors show the upstream is reachable
+   */
+  readonly isFailure: (error: unknown) => boolean;
+}
+
+/**
+ * Stops calling an upstream that keeps failing
+ * CLOSED counts consecutive failures; OPEN fails fast until the reset timer moves it to HALF_OPEN,
+ * where a single trial call decides between CLOSED and OPEN
+ */
+export class CircuitBreaker {
+  private state: CircuitBreakerState['state'] = 'CLOSED';
+  private failureCount = 0;
+  private lastFailureTime = new Date(0);
+  private nextAttemptTime?: Date;
+  private trialInFlight = false;
+  private resetTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Whether an error was thrown by an open circuit rather than the upstream
+   */
+  public static isOpenCircuitError(error: unknown): boolean {
+    return error instanceof RestorepointError && error.details?.circuitBreaker === 'OPEN';
+  }
+
+  public getState(): CircuitBreakerState {
+    return {
+      state: this.state,
+      failureCount: this.failureCount,
+      lastFailureTime: this.lastFailureTime,
+      nextAttemptTime: this.nextAttemptTime,
+    };
+  }
+
+  /**
+   * Run a call through the breaker
+   */
+  public async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.state === 'OPEN' || (this.state === 'HALF_OPEN' && this.trialInFlight)) {
+      throw new RestorepointError(
+        ERROR_CODES.NETWORK_UNAVAILABLE,
+        `${this.name} is unavailable after ${this.failureCount} consecutive failures; not retrying until ${this.nextAttemptTime?.toISOString() ?? 'a trial call succeeds'}`,
+        HTTP_STATUS_CODES.SERVICE_UNAVAILABLE,
+        { circuitBreaker: 'OPEN', failureCount: this.failureCount, retryAt: this.nextAttemptTime?.toISOString() }
+      );
+    }
+
+    const isTrial = this.state === 'HALF_OPEN';
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.options.isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Close the circuit and clear the failure count
+   */
+  public reset(): void {
+    this.clearResetTimer();
+    this.state = 'CLOSED';
+    this.failureCount = 0;
+    this.nextAttemptTime = undefined;
+    this.trialInFlight = false;
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'CLOSED') {
+      Logger.logWithContext('info', `${this.name} circuit closed`, 'CircuitBreaker', {
+        previousState: this.state,
+      });
+      this.reset();
+      return;
+    }
+    this.failureCount = 0;
+  }
+
+  private onFailure(): void {
+    this.failureCount++;
+    this.lastFailureTime = new Date();
+
+    if (this.state === 'HALF_OPEN' || this.failureCount >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.clearResetTimer();
+    this.state = 'OPEN';
+    this.nextAttemptTime = new Date(Date.now() + this.options.resetTimeoutMs);
+
+    this.resetTimer = setTimeout(() => {
+      this.resetTimer = null;
+      this.state = 'HALF_OPEN';
+      Logger.logWithContext('info', `${this.name} circuit half-open; next call is a trial`, 'CircuitBreaker');
+    }, this.options.resetTimeoutMs);
+    this.resetTimer.unref();
+
+    Logger.logWithContext('warn', `${this.name} circuit opened`, 'CircuitBreaker', {
+      failureCount: this.failureCount,
+      retryAt: this.nextAttemptTime.toISOString(),
+    });
+  }
+
+  private clearResetTimer(): void {
+    if (this.resetTimer) {
+      clearTimeout(this.resetTimer);
+      this.resetTimer = null;
+    }
+  }
+}
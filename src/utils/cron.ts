@@ -0,0 +1,239 @@
+/**
+ * Schedule Expressions
+ * Validation and next-run previews for Restorepoint command and backup schedules
+ */
+
+import type { CronExpression } from '../types/restorepoint-api.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+
+export interface ParsedCronExpression {
+  readonly minutes: ReadonlySet<number>;
+  readonly hours: ReadonlySet<number>;
+  readonly daysOfMonth: ReadonlySet<number>;
+  readonly months: ReadonlySet<number>;
+  readonly daysOfWeek: ReadonlySet<number>;
+  readonly dayOfMonthRestricted: boolean;
+  readonly dayOfWeekRestricted: boolean;
+  /**
+   * Weeks between runs from a day-of-week step (1 = every week)
+   */
+  readonly weekInterval: number;
+  /**
+   * Seven-part form sent to Restorepoint
+   */
+  readonly normalized: CronExpression;
+}
+
+interface FieldSpec {
+  readonly name: string;
+  readonly min: number;
+  readonly max: number;
+  readonly names?: readonly string[];
+}
+
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: 'day of month', min: 1, max: 31 };
+const MONTH: FieldSpec = {
+  name: 'month',
+  min: 1,
+  max: 12,
+  names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+};
+const DAY_OF_WEEK: FieldSpec = {
+  name: 'day of week',
+  min: 0,
+  max: 7,
+  names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+};
+
+/**
+ * Give up searching for runs this far ahead
+ */
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+
+const invalid = (expression: string, reason: string): RestorepointError =>
+  new RestorepointError(
+    ERROR_CODES.VALIDATION_INVALID_FORMAT,
+    `Invalid schedule expression '${expression}': ${reason}`,
+    400,
+    { expression }
+  );
+
+const parseValue = (value: string, spec: FieldSpec, expression: string): number => {
+  const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = nameIndex >= 0 ? nameIndex + spec.min : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+
+  if (Number.isNaN(number) || number < spec.min || number > spec.max) {
+    throw invalid(expression, `${spec.name} value '${value}' must be between ${spec.min} and ${spec.max}`);
+  }
+  return number;
+};
+
+const parseStep = (step: string, spec: FieldSpec, expression: string): number => {
+  if (!/^\d+$/.test(step) || parseInt(step, 10) < 1) {
+    throw invalid(expression, `${spec.name} step '${step}' must be a positive number`);
+  }
+  return parseInt(step, 10);
+};
+
+/**
+ * Parse one field ("*", "5", "1-5", "*\/15", "10-50/10", "mon,wed")
+ */
+const parseField = (field: string, spec: FieldSpec, expression: string): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    if (!range || part.split('/').length > 2) {
+      throw invalid(expression, `malformed ${spec.name} '${part}'`);
+    }
+
+    const step = stepText === undefined ? 1 : parseStep(stepText, spec, expression);
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from ?? '', spec, expression);
+      end = parseValue(to ?? '', spec, expression);
+      if (start > end) {
+        throw invalid(expression, `${spec.name} range '${range}' is reversed`);
+      }
+    } else {
+      start = parseValue(range, spec, expression);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse day-of-week values, where 7 is Sunday as in crontab
+ */
+const parseWeekdays = (field: string, expression: string): Set<number> => {
+  const values = parseField(field, DAY_OF_WEEK, expression);
+  if (values.delete(7)) {
+    values.add(0);
+  }
+  return values;
+};
+
+/**
+ * Parse and validate a Restorepoint schedule expression
+ *
+ * Restorepoint uses seven parts where the first and last are ignored:
+ *   <ignored> minute hour day-of-month month day-of-week <ignored>
+ * Plain five-part crontab expressions are accepted and normalized to that form.
+ * A step after a single weekday ("4/5") means every 5 weeks on that weekday;
+ * after "*" or a range ("*\/2", "1-5/2") it picks every nth weekday as in crontab.
+ */
+export const parseCronExpression = (expression: CronExpression): ParsedCronExpression => {
+  const parts = expression.trim().split(/\s+/);
+
+  if (parts.length !== 5 && parts.length !== 7) {
+    throw invalid(expression, `expected 5 or 7 parts, got ${parts.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = (parts.length === 7 ? parts.slice(1, 6) : parts) as [
+    string, string, string, string, string,
+  ];
+
+  // A step after a single weekday counts weeks, not days
+  const [weekdays = '', weekStep] = dayOfWeek.split('/');
+  const singleWeekday = /^\w+$/.test(weekdays);
+  const weekInterval = weekStep === undefined || !singleWeekday ? 1 : parseStep(weekStep, DAY_OF_WEEK, expression);
+
+  return {
+    minutes: parseField(minute, MINUTE, expression),
+    hours: parseField(hour, HOUR, expression),
+    daysOfMonth: parseField(dayOfMonth, DAY_OF_MONTH, expression),
+    months: parseField(month, MONTH, expression),
+    daysOfWeek: parseWeekdays(singleWeekday ? weekdays : dayOfWeek, expression),
+    dayOfMonthRestricted: dayOfMonth !== '*',
+    dayOfWeekRestricted: dayOfWeek !== '*',
+    weekInterval,
+    normalized: parts.length === 7 ? parts.join(' ') : `0 ${parts.join(' ')} *`,
+  };
+};
+
+/**
+ * Check a schedule expression without throwing
+ */
+export const isValidCronExpression = (expression: string): boolean => {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const matchesDay = (cron: ParsedCronExpression, date: Date): boolean => {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  // Like crontab: when both day fields are restricted either may match
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
+
+/**
+ * Compute upcoming run times (UTC)
+ * Week intervals are counted from the first run found, as the appliance's own anchor is unknown
+ */
+export const getNextRuns = (
+  expression: CronExpression | ParsedCronExpression,
+  count = 5,
+  from: Date = new Date()
+): Date[] => {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const runs: Date[] = [];
+  const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+  const date = new Date(Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  let firstRun: number | undefined;
+
+  while (runs.length < count && date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setTime(date.getTime() + MINUTE_MS);
+      continue;
+    }
+
+    firstRun ??= date.getTime();
+    const weeksSinceFirst = Math.floor((date.getTime() - firstRun) / WEEK_MS);
+    if (weeksSinceFirst % cron.weekInterval === 0) {
+      runs.push(new Date(date));
+    }
+    date.setTime(date.getTime() + MINUTE_MS);
+  }
+
+  return runs;
+};
@@ -150,7 +150,8 @@ export class ErrorHandler {
     fn: () => Promise<T>,
     maxAttempts: number = 3,
     baseDelay: number = 1000,
-    context?: string
+    context?: string,
+    isRetryable: (error: RestorepointError) => boolean = error => this.isRetryableError(error)
   ): Promise<T> {
     let lastError: Error;
 
@@ -169,7 +170,7 @@ export class ErrorHandler {
             );
 
         // Don't retry if this is the last attempt or error is not retryable
-        if (attempt === maxAttempts - 1 || !this.isRetryableError(restorepointError)) {
+        if (attempt === maxAttempts - 1 || !isRetryable(restorepointError)) {
           throw lastError;
         }
 
@@ -10,6 +10,35 @@ export function generateId(prefix: string): string {
   return `${prefix}_${Date.now()}_${crypto.randomUUID()}`;
 }
 
+/**
+ * Names of values that are never logged, audited or shown in dry-run plans
+ */
+const SECRET_NAME_PATTERN = /password|passphrase|secret|token|community|private.?key|api.?key/i;
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Copy of a value with secrets replaced at any depth: properties named like a secret,
+ * and the Value of Restorepoint { Name, Value } fields (e.g. PluginFields) whose Name is
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const secretField = typeof record.Name === 'string' && SECRET_NAME_PATTERN.test(record.Name);
+  return Object.fromEntries(Object.entries(record).map(([key, item]) => [
+    key,
+    item !== undefined && item !== null && (SECRET_NAME_PATTERN.test(key) || (secretField && key === 'Value'))
+      ? REDACTED
+      : redactSecrets(item),
+  ]));
+}
+
 /**
  * Sanitize string for safe logging
  */
@@ -33,4 +62,34 @@ export function formatBytes(bytes: number): string {
  */
 export function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
-}
\ No newline at end of file
+}
+
+/**
+ * Decode the HTML entities used in Restorepoint configuration output
+ */
+export function decodeHtmlEntities(str: string): string {
+  return str
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Keep whole lines until the byte budget is spent
+ */
+export function limitBytes<T>(items: readonly T[], size: (item: T) => number, maxBytes: number): { kept: T[]; bytes: number } {
+  const kept: T[] = [];
+  let bytes = 0;
+  for (const item of items) {
+    const itemBytes = size(item) + 1;
+    if (bytes + itemBytes > maxBytes) {
+      break;
+    }
+    kept.push(item);
+    bytes += itemBytes;
+  }
+  return { kept, bytes };
+}
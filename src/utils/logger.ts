@@ -1,5 +1,6 @@
 import winston from 'winston';
 import type { AppConfig } from '../config/types.js';
+import { getRequestContext } from './request-context.js';
 
 /**
  * Professional logging utility using Winston
@@ -69,6 +70,16 @@ const consoleFormat = winston.format.combine(
   })
 );
 
+/**
+ * Logger initialization options
+ */
+export interface LoggerOptions {
+  /**
+   * Send console output to stderr (required when stdout carries protocol traffic)
+   */
+  readonly useStderr?: boolean;
+}
+
 /**
  * Logger class implementing singleton pattern
  */
@@ -81,7 +92,7 @@ export class Logger {
   /**
    * Initialize logger with configuration
    */
-  public static initialize(config: AppConfig): void {
+  public static initialize(config: AppConfig, options: LoggerOptions = {}): void {
     Logger.config = config;
 
     const transports: winston.transport[] = [];
@@ -92,6 +103,7 @@ export class Logger {
         new winston.transports.Console({
           level: config.mcp.logLevel,
           format: consoleFormat,
+          stderrLevels: options.useStderr ? ['error', 'warn', 'info', 'debug'] : undefined,
         })
       );
     }
@@ -161,7 +173,12 @@ export class Logger {
     metadata?: Record<string, unknown>
   ): void {
     const logger = Logger.getInstance();
-    logger.log(level, message, { context, ...metadata });
+    const request = getRequestContext();
+    // Correlate entries written while handling a request with its trace
+    const correlation = request
+      ? { requestId: request.requestId, traceId: request.span?.traceId, spanId: request.span?.spanId }
+      : {};
+    logger.log(level, message, { context, ...correlation, ...metadata });
   }
 
   /**
@@ -0,0 +1,278 @@
+/**
+ * Prometheus Metrics
+ * In-process counters, gauges and histograms rendered in the Prometheus text exposition format
+ */
+
+import { TASK_STATUS } from '../constants/endpoints.js';
+import { taskManager } from './async-handler.js';
+
+type Labels = Readonly<Record<string, string>>;
+
+/**
+ * Default latency buckets in seconds
+ */
+export const DEFAULT_BUCKETS: readonly number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  return entries.length === 0
+    ? ''
+    : `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+};
+
+const labelKey = (labels: Labels): string =>
+  JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+
+/**
+ * A metric that can render itself
+ */
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+  reset(): void;
+}
+
+/**
+ * Monotonic counter
+ */
+export class Counter implements Metric {
+  public readonly type = 'counter';
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(public readonly name: string, public readonly help: string) {}
+
+  public inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.values.set(key, { labels, value: amount });
+    }
+  }
+
+  public get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  public render(): string[] {
+    return Array.from(this.values.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Point-in-time value
+ * When a collector is given it runs before every render, so the gauge always reflects current state
+ */
+export class Gauge implements Metric {
+  public readonly type = 'gauge';
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    private readonly collector?: (gauge: Gauge) => void
+  ) {}
+
+  public set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  public get(labels: Labels = {}): number | undefined {
+    return this.values.get(labelKey(labels))?.value;
+  }
+
+  public render(): string[] {
+    if (this.collector) {
+      this.values.clear();
+      this.collector(this);
+    }
+    return Array.from(this.values.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Cumulative histogram
+ */
+export class Histogram implements Metric {
+  public readonly type = 'histogram';
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    private readonly buckets: readonly number[] = DEFAULT_BUCKETS
+  ) {}
+
+  public observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Start timing; the returned function records the elapsed seconds
+   */
+  public startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const startedAt = process.hrtime.bigint();
+    return (extraLabels: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  public getCount(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.count ?? 0;
+  }
+
+  public render(): string[] {
+    return Array.from(this.series.values()).flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map((bound, index) =>
+        `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ]);
+  }
+
+  public reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Registry of every metric exposed on /metrics
+ */
+export class MetricsRegistry {
+  private static instance: MetricsRegistry;
+  private readonly metrics = new Map<string, Metric>();
+
+  public static getInstance(): MetricsRegistry {
+    if (!MetricsRegistry.instance) {
+      MetricsRegistry.instance = new MetricsRegistry();
+    }
+    return MetricsRegistry.instance;
+  }
+
+  public counter(name: string, help: string): Counter {
+    return this.add(new Counter(name, help));
+  }
+
+  public gauge(name: string, help: string, collector?: (gauge: Gauge) => void): Gauge {
+    return this.add(new Gauge(name, help, collector));
+  }
+
+  public histogram(name: string, help: string, buckets?: readonly number[]): Histogram {
+    return this.add(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format (version 0.0.4)
+   */
+  public render(): string {
+    const lines: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render());
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Clear recorded values (metrics stay registered)
+   */
+  public reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private add<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Content type for the Prometheus text format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Export singleton instance for convenience
+ */
+export const metricsRegistry = MetricsRegistry.getInstance();
+
+/**
+ * Replace IDs in an API path so upstream latency is labelled per endpoint, not per resource
+ */
+export const normalizeEndpoint = (url: string | undefined): string => {
+  if (!url) {
+    return 'unknown';
+  }
+
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0];
+  return path
+    .split('/')
+    .map(segment => (/^(\d+|[0-9a-f]{8}-[0-9a-f-]{27,}|[0-9a-f]{24,})$/i.test(segment) ? ':id' : segment))
+    .join('/') || '/';
+};
+
+/**
+ * Metrics recorded by the server
+ */
+export const metrics = {
+  toolCalls: metricsRegistry.counter('rp_mcp_tool_calls_total', 'Tool calls by tool and outcome'),
+  toolDuration: metricsRegistry.histogram('rp_mcp_tool_duration_seconds', 'Tool call latency in seconds'),
+  toolErrors: metricsRegistry.counter('rp_mcp_tool_errors_total', 'Failed tool calls by tool and error code'),
+  upstreamDuration: metricsRegistry.histogram(
+    'rp_mcp_upstream_request_duration_seconds',
+    'Restorepoint API request latency in seconds by target, method, endpoint and status'
+  ),
+  tokenRefreshes: metricsRegistry.counter('rp_mcp_token_refreshes_total', 'Token refresh attempts by outcome'),
+  cacheRequests: metricsRegistry.counter('rp_mcp_cache_requests_total', 'Cached tool lookups by tool and result'),
+  tasks: metricsRegistry.gauge('rp_mcp_tasks', 'Tracked tasks by status', gauge => {
+    for (const status of Object.values(TASK_STATUS)) {
+      gauge.set({ status }, taskManager.getTasks({ status }).length);
+    }
+  }),
+  taskCapacity: metricsRegistry.gauge('rp_mcp_task_capacity', 'Maximum pending or running tasks', gauge => {
+    gauge.set({}, taskManager.getMaxConcurrentTasks());
+  }),
+};
@@ -0,0 +1,397 @@
+/**
+ * Webhook Notifications
+ * Signs and delivers task transition and failed backup events to the configured webhooks
+ */
+
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { DEFAULT_TARGET } from '../auth/api-client.js';
+import type { ApiClient } from '../auth/api-client.js';
+import type { WebhookConfig } from '../config/types.js';
+import { RESTOREPOINT_ENDPOINTS } from '../constants/endpoints.js';
+import type { TaskStatus } from '../constants/endpoints.js';
+import type { SystemEvent } from '../types/common.js';
+import { taskManager } from './async-handler.js';
+import type { TaskInfo } from './async-handler.js';
+import { delay, generateId } from './helpers.js';
+import { Logger } from './logger.js';
+import { mapUpstreamTaskStatus, taskTracker } from './task-tracker.js';
+
+/**
+ * Event types emitted by the notifier
+ */
+export type NotificationEventType = 'task.completed' | 'task.failed' | 'task.timeout' | 'backup.failed';
+
+/**
+ * Outcome of delivering one event to one webhook URL
+ */
+export interface WebhookDeliveryResult {
+  readonly url: string;
+  readonly delivered: boolean;
+  readonly attempts: number;
+  readonly status?: number;
+  readonly error?: string;
+}
+
+const TASK_EVENT_SEVERITY: Partial<Record<TaskStatus, SystemEvent['severity']>> = {
+  completed: 'low',
+  failed: 'high',
+  timeout: 'medium',
+};
+
+const SEVERITY_COLORS: Record<SystemEvent['severity'], string> = {
+  low: '2EB67D',
+  medium: 'ECB22E',
+  high: 'E01E5A',
+  critical: '8B0000',
+};
+
+/**
+ * Upper bound for the delay between delivery attempts
+ */
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Finished task IDs remembered so repeated updates are not reported twice
+ */
+const MAX_REMEMBERED_TASKS = 1000;
+
+/**
+ * Appliance jobs read on each backup job check
+ */
+const BACKUP_JOB_PAGE_SIZE = 100;
+
+/**
+ * HMAC-SHA256 signature sent in X-RP-Signature
+ * The timestamp is signed with the body so receivers can reject replays
+ */
+export const signPayload = (secret: string, timestamp: string, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Build the event reported for a task reaching a final state, if any
+ * Backup failures and timeouts are reported as backup.failed
+ */
+export const createTaskEvent = (task: Readonly<TaskInfo>): SystemEvent | null => {
+  const severity = TASK_EVENT_SEVERITY[task.status];
+  if (!severity) {
+    return null;
+  }
+
+  const backupFailed = task.type === 'backup' && task.status !== 'completed';
+
+  return {
+    id: generateId('event'),
+    type: backupFailed ? 'backup.failed' : `task.${task.status}`,
+    source: 'TaskManager',
+    timestamp: new Date().toISOString(),
+    severity: backupFailed ? 'high' : severity,
+    message: `${task.type} task ${task.id} ${task.status}: ${task.message}`,
+    details: {
+      taskId: task.id,
+      taskType: task.type,
+      status: task.status,
+      progress: task.progress,
+      ...(task.error ? { error: task.error.message } : {}),
+      ...(task.details?.upstreamTaskId !== undefined ? { upstreamTaskId: task.details.upstreamTaskId } : {}),
+      ...(task.details?.deviceIds !== undefined ? { deviceIds: task.details.deviceIds } : {}),
+    },
+    tags: [task.type, task.status],
+  };
+};
+
+/**
+ * Build the event reported for a failed appliance backup job
+ */
+export const createBackupJobEvent = (job: Record<string, any>, target: string = DEFAULT_TARGET): SystemEvent => {
+  const messages: unknown[] = Array.isArray(job.Messages) ? job.Messages : [];
+  const lastMessage = messages.length > 0 ? String(messages[messages.length - 1]) : undefined;
+  const device = job.DeviceName || (job.DeviceID ? `device ${job.DeviceID}` : 'unknown device');
+
+  return {
+    id: generateId('event'),
+    type: 'backup.failed',
+    source: 'BackupJobWatcher',
+    timestamp: new Date().toISOString(),
+    severity: 'high',
+    message: `Backup of ${device}${target === DEFAULT_TARGET ? '' : ` on ${target}`} failed${lastMessage ? `: ${lastMessage}` : ''}`,
+    details: {
+      target,
+      jobId: String(job.ID),
+      deviceId: job.DeviceID ? String(job.DeviceID) : undefined,
+      deviceName: job.DeviceName,
+      user: job.User,
+      upstreamStatus: job.Status,
+      created: job.Created,
+      updated: job.Updated,
+      lastMessage,
+    },
+    tags: ['backup', job.User === 'system' ? 'scheduled' : 'manual'],
+  };
+};
+
+/**
+ * Render an event with a webhook template
+ * slack and teams produce incoming-webhook payloads; json sends the event as is
+ */
+export const renderEvent = (event: SystemEvent, template: WebhookConfig['template']): Record<string, unknown> => {
+  const title = `[${event.severity.toUpperCase()}] ${event.type}`;
+  const facts = Object.entries(event.details ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ({ name, value: typeof value === 'string' ? value : JSON.stringify(value) }));
+
+  switch (template) {
+    case 'slack':
+      return {
+        text: `*${title}*\n${event.message}`,
+        attachments: [{
+          color: `#${SEVERITY_COLORS[event.severity]}`,
+          fields: facts.map(fact => ({ title: fact.name, value: fact.value, short: true })),
+          ts: Math.floor(Date.parse(event.timestamp) / 1000),
+        }],
+      };
+    case 'teams':
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: title,
+        themeColor: SEVERITY_COLORS[event.severity],
+        title,
+        text: event.message,
+        sections: [{ facts, activitySubtitle: event.timestamp }],
+      };
+    default:
+      return { ...event };
+  }
+};
+
+/**
+ * Delivers system events to configured webhooks
+ * Task transitions come from TaskManager; scheduled backup failures from polling appliance job history
+ */
+export class Notifier {
+  private static instance: Notifier;
+  private readonly http: AxiosInstance = axios.create({ validateStatus: () => true });
+  private webhooks: readonly WebhookConfig[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private readonly reportedTasks = new Set<string>();
+  private readonly reportedJobs = new Set<string>();
+  /**
+   * Job history pollers and the time each last checked, by target name
+   */
+  private readonly backupWatches = new Map<string, NodeJS.Timeout>();
+  private readonly backupWatchSince = new Map<string, number>();
+
+  private constructor() {}
+
+  public static getInstance(): Notifier {
+    if (!Notifier.instance) {
+      Notifier.instance = new Notifier();
+    }
+    return Notifier.instance;
+  }
+
+  /**
+   * Replace the webhook list and start reporting task transitions
+   * Returns the number of enabled webhooks
+   */
+  public configure(webhooks: readonly WebhookConfig[]): number {
+    this.webhooks = webhooks.filter(webhook => webhook.enabled);
+
+    if (this.webhooks.length > 0 && !this.unsubscribe) {
+      this.unsubscribe = taskManager.subscribe(task => this.handleTaskUpdate(task));
+    } else if (this.webhooks.length === 0 && this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    Logger.logWithContext('info', 'Notifications configured', 'Notifier', {
+      webhooks: this.webhooks.length,
+    });
+
+    return this.webhooks.length;
+  }
+
+  /**
+   * Deliver an event to every webhook subscribed to its type
+   * Never throws; failures are logged and returned
+   */
+  public async emit(event: SystemEvent): Promise<WebhookDeliveryResult[]> {
+    const targets = this.webhooks.filter(webhook => webhook.events.length === 0 || webhook.events.includes(event.type));
+
+    const results = await Promise.all(
+      targets.flatMap(webhook => webhook.recipients.map(url => this.deliver(webhook, url, event)))
+    );
+
+    for (const result of results.filter(result => !result.delivered)) {
+      Logger.logWithContext('warn', 'Webhook delivery failed', 'Notifier', {
+        eventId: event.id,
+        eventType: event.type,
+        url: result.url,
+        attempts: result.attempts,
+        status: result.status,
+        error: result.error,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Poll the job history of each target for failed backups
+   * Only failures recorded after the watch starts are reported
+   */
+  public watchBackupJobs(apiClients: readonly ApiClient[], intervalMs: number): void {
+    this.stopBackupWatch();
+
+    if (intervalMs <= 0 || this.webhooks.length === 0) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    for (const apiClient of apiClients) {
+      const target = apiClient.getTarget().name;
+      const watch = setInterval(() => {
+        void this.checkBackupJobs(apiClient);
+      }, intervalMs);
+      watch.unref();
+      this.backupWatches.set(target, watch);
+      this.backupWatchSince.set(target, startedAt);
+    }
+
+    Logger.logWithContext('info', 'Watching backup jobs for failures', 'Notifier', {
+      intervalMs,
+      targets: Array.from(this.backupWatches.keys()),
+    });
+  }
+
+  /**
+   * Stop polling appliance job history
+   */
+  public stopBackupWatch(): void {
+    this.backupWatches.forEach(watch => clearInterval(watch));
+    this.backupWatches.clear();
+    this.backupWatchSince.clear();
+  }
+
+  /**
+   * Report failed backup jobs the client's target finished since its previous check
+   * Jobs tracked by a local task are skipped; their task transition is reported instead
+   */
+  public async checkBackupJobs(apiClient: ApiClient): Promise<SystemEvent[]> {
+    const target = apiClient.getTarget().name;
+    const checkedAt = Date.now();
+    const since = this.backupWatchSince.get(target) ?? checkedAt;
+    const queryParams = new URLSearchParams({
+      offset: '0',
+      limit: BACKUP_JOB_PAGE_SIZE.toString(),
+      sort: '-Created',
+    });
+
+    try {
+      const response = await apiClient.get<any>(`${RESTOREPOINT_ENDPOINTS.JOBS_HISTORIC}?${queryParams.toString()}`, {
+        maxRetries: 1,
+      });
+      const jobs: Record<string, any>[] = Array.isArray(response.data) ? response.data : response.data?.data || [];
+
+      const failed = jobs.filter(job => {
+        const jobId = String(job.ID ?? job.id);
+        const finishedAt = Date.parse(job.Updated ?? job.Created ?? '');
+        return String(job.Type ?? '').toLowerCase() === 'backup'
+          && mapUpstreamTaskStatus(job.Status) === 'failed'
+          && finishedAt >= since
+          && !this.reportedJobs.has(`${target}:${jobId}`)
+          && !taskTracker.findByUpstreamId(jobId, target);
+      });
+
+      this.backupWatchSince.set(target, checkedAt);
+      const events = failed.map(job => {
+        this.remember(this.reportedJobs, `${target}:${String(job.ID ?? job.id)}`);
+        return createBackupJobEvent(job, target);
+      });
+
+      await Promise.all(events.map(event => this.emit(event)));
+      return events;
+    } catch (error) {
+      Logger.logWithContext('warn', 'Failed to check backup jobs', 'Notifier', {
+        target,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  private handleTaskUpdate(task: Readonly<TaskInfo>): void {
+    if (this.reportedTasks.has(task.id)) {
+      return;
+    }
+
+    const event = createTaskEvent(task);
+    if (!event) {
+      return;
+    }
+
+    this.remember(this.reportedTasks, task.id);
+    void this.emit(event);
+  }
+
+  /**
+   * POST one event, retrying network errors, 429 and 5xx with exponential backoff
+   */
+  private async deliver(webhook: WebhookConfig, url: string, event: SystemEvent): Promise<WebhookDeliveryResult> {
+    const body = JSON.stringify(renderEvent(event, webhook.template));
+    const maxAttempts = webhook.retryAttempts + 1;
+    let status: number | undefined;
+    let lastError: string | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-RP-Event': event.type,
+        'X-RP-Delivery': event.id,
+        'X-RP-Timestamp': timestamp,
+        ...(webhook.secret ? { 'X-RP-Signature': signPayload(webhook.secret, timestamp, body) } : {}),
+      };
+
+      try {
+        const response = await this.http.post(url, body, { headers, timeout: webhook.timeout });
+        status = response.status;
+
+        if (status >= 200 && status < 300) {
+          return { url, delivered: true, attempts: attempt, status };
+        }
+
+        lastError = `HTTP ${status}`;
+        if (status !== 429 && status < 500) {
+          return { url, delivered: false, attempts: attempt, status, error: lastError };
+        }
+      } catch (error) {
+        status = undefined;
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      if (attempt < maxAttempts) {
+        await delay(Math.min(webhook.retryDelay * Math.pow(2, attempt - 1), MAX_RETRY_DELAY_MS));
+      }
+    }
+
+    return { url, delivered: false, attempts: maxAttempts, status, error: lastError };
+  }
+
+  private remember(ids: Set<string>, id: string): void {
+    ids.add(id);
+    if (ids.size > MAX_REMEMBERED_TASKS) {
+      const oldest = ids.values().next().value;
+      if (oldest !== undefined) {
+        ids.delete(oldest);
+      }
+    }
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const notifier = Notifier.getInstance();
@@ -0,0 +1,55 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Caller } from '../auth/types.js';
+import type { Span } from './tracing.js';
+
+/**
+ * Upstream request a dry run would have sent, with secret values masked
+ */
+export interface PlannedRequest {
+  readonly method: string;
+  readonly url: string;
+  readonly params?: unknown;
+  readonly body?: unknown;
+}
+
+/**
+ * Collects the first changing request of a dry-run tool call
+ */
+export interface DryRunPlan {
+  request?: PlannedRequest;
+}
+
+/**
+ * State that follows a request through every await
+ */
+export interface RequestContext {
+  readonly requestId?: string;
+  readonly span?: Span;
+  /**
+   * Restorepoint target the current tool call runs against
+   */
+  readonly target?: string;
+  /**
+   * Authenticated HTTP caller; absent for stdio and when authentication is disabled
+   */
+  readonly caller?: Caller;
+  readonly clientAddress?: string;
+  readonly userAgent?: string;
+  /**
+   * Set for dry-run tool calls: changing upstream requests are recorded here instead of sent
+   */
+  readonly dryRun?: DryRunPlan;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with a request context; nested calls inherit the outer fields they do not override
+ */
+export const runWithContext = <T>(context: RequestContext, fn: () => T): T =>
+  storage.run({ ...storage.getStore(), ...context }, fn);
+
+/**
+ * Context of the current request, if any
+ */
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
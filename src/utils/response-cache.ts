@@ -0,0 +1,141 @@
+import type { CacheConfig } from '../config/types.js';
+import type { CacheEntry } from '../types/common.js';
+import { Logger } from './logger.js';
+
+interface GroupedCacheEntry<T> extends CacheEntry<T> {
+  readonly group: string;
+}
+
+/**
+ * Serialize a value with object keys sorted, so equivalent arguments produce the same key
+ */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * In-process TTL cache with least-recently-used eviction
+ * Entries belong to a group so writes can drop every cached read they affect
+ */
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private readonly entries = new Map<string, GroupedCacheEntry<unknown>>();
+  private enabled = true;
+  private maxEntries = 500;
+  private ttlOverrides: Readonly<Record<string, number>> = {};
+  private hits = 0;
+  private misses = 0;
+
+  private constructor() {}
+
+  public static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  public configure(config: CacheConfig): void {
+    this.enabled = config.enabled;
+    this.maxEntries = config.maxEntries;
+    this.ttlOverrides = config.ttl;
+    this.clear();
+  }
+
+  /**
+   * TTL for a tool: the configured override, else the tool's default; 0 when caching is off
+   */
+  public getTtl(toolName: string, defaultTtlMs: number): number {
+    return this.enabled ? this.ttlOverrides[toolName] ?? defaultTtlMs : 0;
+  }
+
+  public get<T>(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    const accessed: GroupedCacheEntry<unknown> = {
+      ...entry,
+      accessCount: entry.accessCount + 1,
+      lastAccessed: new Date(),
+    };
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, accessed);
+    this.hits++;
+
+    return accessed as CacheEntry<T>;
+  }
+
+  public set<T>(key: string, value: T, ttlMs: number, group: string): void {
+    if (ttlMs <= 0) {
+      return;
+    }
+
+    const now = new Date();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      key,
+      value,
+      group,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + ttlMs),
+      accessCount: 0,
+      lastAccessed: now,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop every entry in the given groups
+   */
+  public invalidate(groups: readonly string[]): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (groups.includes(entry.group)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      Logger.logWithContext('debug', `Invalidated ${removed} cached response(s)`, 'ResponseCache', { groups });
+    }
+    return removed;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  public getStats(): { size: number; maxEntries: number; hits: number; misses: number } {
+    return { size: this.entries.size, maxEntries: this.maxEntries, hits: this.hits, misses: this.misses };
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const responseCache = ResponseCache.getInstance();
@@ -0,0 +1,178 @@
+/**
+ * Zod to JSON Schema conversion
+ * Produces the MCP input schemas published by tools/list and GET /tools/:name/schema
+ */
+
+import { z } from 'zod';
+import type { McpInputSchema, McpProperty } from '../types/mcp-tools.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+/**
+ * Strip wrappers that do not change the JSON shape (preprocess, refine, transform)
+ */
+const unwrapEffects = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  let current = schema;
+  while (current instanceof z.ZodEffects) {
+    current = current.innerType();
+  }
+  return current;
+};
+
+/**
+ * Whether a property may be omitted by the caller
+ */
+const isOptional = (schema: z.ZodTypeAny): boolean => {
+  const inner = unwrapEffects(schema);
+  return inner instanceof z.ZodOptional || inner instanceof z.ZodDefault;
+};
+
+const convertString = (schema: z.ZodString, property: Mutable<McpProperty>): void => {
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        property.minLength = check.value;
+        break;
+      case 'max':
+        property.maxLength = check.value;
+        break;
+      case 'length':
+        property.minLength = check.value;
+        property.maxLength = check.value;
+        break;
+      case 'regex':
+        property.pattern = check.regex.source;
+        break;
+      case 'datetime':
+        property.format = 'date-time';
+        break;
+      case 'email':
+      case 'url':
+      case 'uuid':
+        property.format = check.kind === 'url' ? 'uri' : check.kind;
+        break;
+      default:
+        break;
+    }
+  }
+};
+
+const convertNumber = (schema: z.ZodNumber, property: Mutable<McpProperty>): void => {
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        property.type = 'integer';
+        break;
+      case 'min':
+        property.minimum = check.value;
+        break;
+      case 'max':
+        property.maximum = check.value;
+        break;
+      default:
+        break;
+    }
+  }
+};
+
+/**
+ * Convert a zod schema to an MCP property definition
+ */
+export const zodToProperty = (schema: z.ZodTypeAny): McpProperty => {
+  const description = schema.description;
+  const inner = unwrapEffects(schema);
+
+  if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+    const property = zodToProperty(inner.unwrap());
+    return description ? { ...property, description } : property;
+  }
+
+  if (inner instanceof z.ZodDefault) {
+    const property = zodToProperty(inner.removeDefault());
+    return {
+      ...property,
+      ...(description ? { description } : {}),
+      default: inner._def.defaultValue(),
+    };
+  }
+
+  let property: Mutable<McpProperty>;
+
+  if (inner instanceof z.ZodString) {
+    property = { type: 'string' };
+    convertString(inner, property);
+  } else if (inner instanceof z.ZodNumber) {
+    property = { type: 'number' };
+    convertNumber(inner, property);
+  } else if (inner instanceof z.ZodBoolean) {
+    property = { type: 'boolean' };
+  } else if (inner instanceof z.ZodEnum) {
+    property = { type: 'string', enum: inner.options as string[] };
+  } else if (inner instanceof z.ZodLiteral && typeof inner.value === 'string') {
+    property = { type: 'string', enum: [inner.value] };
+  } else if (inner instanceof z.ZodArray) {
+    property = { type: 'array', items: zodToProperty(inner.element) };
+    if (inner._def.minLength) {
+      property.minItems = inner._def.minLength.value;
+    }
+    if (inner._def.maxLength) {
+      property.maxItems = inner._def.maxLength.value;
+    }
+  } else if (inner instanceof z.ZodObject) {
+    const objectSchema = zodToInputSchema(inner);
+    property = { type: 'object', properties: objectSchema.properties };
+    if (objectSchema.required) {
+      property.required = objectSchema.required;
+    }
+  } else if (inner instanceof z.ZodRecord) {
+    const valueType = unwrapEffects(inner.valueSchema);
+    property = {
+      type: 'object',
+      additionalProperties:
+        valueType instanceof z.ZodUnknown || valueType instanceof z.ZodAny ? true : zodToProperty(valueType),
+    };
+  } else {
+    throw new RestorepointError(
+      ERROR_CODES.MCP_SERVER_ERROR,
+      `Unsupported schema type for JSON Schema conversion: ${inner._def.typeName ?? 'unknown'}`
+    );
+  }
+
+  if (description) {
+    property.description = description;
+  }
+
+  return property;
+};
+
+/**
+ * Convert a zod object schema to an MCP input schema
+ */
+export const zodToInputSchema = (schema: z.ZodTypeAny): McpInputSchema => {
+  const inner = unwrapEffects(schema);
+
+  if (!(inner instanceof z.ZodObject)) {
+    throw new RestorepointError(
+      ERROR_CODES.MCP_SERVER_ERROR,
+      'Tool input schemas must be zod objects'
+    );
+  }
+
+  const shape = inner.shape as Record<string, z.ZodTypeAny>;
+  const properties: Record<string, McpProperty> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(shape)) {
+    properties[key] = zodToProperty(value);
+    if (!isOptional(value)) {
+      required.push(key);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+};
@@ -0,0 +1,183 @@
+/**
+ * Task Stores
+ * Persistence for TaskManager tasks: in memory, or a JSON lines file that survives restarts
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { TaskStatus } from '../constants/endpoints.js';
+import type { TaskInfo } from './async-handler.js';
+import { Logger } from './logger.js';
+
+/**
+ * Serializable form of a task
+ */
+export interface StoredTask {
+  readonly id: string;
+  readonly type: TaskInfo['type'];
+  readonly status: TaskStatus;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+  readonly progress: number;
+  readonly message: string;
+  readonly details?: Record<string, unknown>;
+  readonly error?: string;
+  readonly timeoutMs: number;
+}
+
+/**
+ * Storage backend for TaskManager
+ * Calls are synchronous so task state is written before TaskManager returns
+ */
+export interface TaskStore {
+  readonly name: string;
+  load(): StoredTask[];
+  save(task: StoredTask): void;
+  delete(taskId: string): void;
+}
+
+/**
+ * Convert a live task to its stored form
+ */
+export const toStoredTask = (task: Readonly<TaskInfo>): StoredTask => ({
+  id: task.id,
+  type: task.type,
+  status: task.status,
+  createdAt: task.createdAt.toISOString(),
+  updatedAt: task.updatedAt.toISOString(),
+  progress: task.progress,
+  message: task.message,
+  details: task.details,
+  error: task.error?.message,
+  timeoutMs: task.timeoutMs,
+});
+
+/**
+ * Default store: keeps nothing, so tasks live only as long as the process
+ */
+export class MemoryTaskStore implements TaskStore {
+  public readonly name = 'memory';
+
+  public load(): StoredTask[] {
+    return [];
+  }
+
+  public save(_task: StoredTask): void {}
+
+  public delete(_taskId: string): void {}
+}
+
+type TaskStoreEntry =
+  | { readonly op: 'put'; readonly task: StoredTask }
+  | { readonly op: 'delete'; readonly id: string };
+
+/**
+ * JSON lines store
+ * Every change is appended; the file is rewritten with only the current tasks on load
+ * and whenever superseded lines outnumber live tasks
+ */
+export class FileTaskStore implements TaskStore {
+  public readonly name = 'file';
+  private readonly filePath: string;
+  private readonly tasks = new Map<string, StoredTask>();
+  private lineCount = 0;
+  private readonly MIN_COMPACT_LINES = 1000;
+
+  constructor(filePath: string) {
+    this.filePath = resolve(filePath);
+  }
+
+  public load(): StoredTask[] {
+    this.tasks.clear();
+
+    if (existsSync(this.filePath)) {
+      const lines = readFileSync(this.filePath, 'utf8').split('\n');
+      let skipped = 0;
+
+      for (const line of lines) {
+        if (line.trim().length === 0) {
+          continue;
+        }
+        try {
+          this.apply(JSON.parse(line) as TaskStoreEntry);
+        } catch {
+          skipped++;
+        }
+      }
+
+      if (skipped > 0) {
+        Logger.logWithContext('warn', `Skipped ${skipped} unreadable task store line(s)`, 'TaskStore', {
+          filePath: this.filePath,
+        });
+      }
+    }
+
+    this.compact();
+    return Array.from(this.tasks.values());
+  }
+
+  public save(task: StoredTask): void {
+    this.append({ op: 'put', task });
+  }
+
+  public delete(taskId: string): void {
+    if (this.tasks.has(taskId)) {
+      this.append({ op: 'delete', id: taskId });
+    }
+  }
+
+  private apply(entry: TaskStoreEntry): void {
+    if (entry.op === 'put' && entry.task?.id) {
+      this.tasks.set(entry.task.id, entry.task);
+    } else if (entry.op === 'delete') {
+      this.tasks.delete(entry.id);
+    }
+  }
+
+  private append(entry: TaskStoreEntry): void {
+    this.apply(entry);
+
+    try {
+      appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+      this.lineCount++;
+    } catch (error) {
+      Logger.logWithContext('error', 'Failed to write task store', 'TaskStore', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    if (this.lineCount > Math.max(this.MIN_COMPACT_LINES, this.tasks.size * 2)) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the file with one line per live task
+   */
+  private compact(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    const content = Array.from(this.tasks.values())
+      .map(task => JSON.stringify({ op: 'put', task }))
+      .join('\n');
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(tempPath, content.length > 0 ? `${content}\n` : '', 'utf8');
+      renameSync(tempPath, this.filePath);
+      this.lineCount = this.tasks.size;
+    } catch (error) {
+      Logger.logWithContext('error', 'Failed to compact task store', 'TaskStore', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+/**
+ * Create the task store selected in the async configuration
+ */
+export const createTaskStore = (options: { readonly taskStore: 'memory' | 'file'; readonly taskStorePath: string }): TaskStore =>
+  options.taskStore === 'file' ? new FileTaskStore(options.taskStorePath) : new MemoryTaskStore();
@@ -0,0 +1,453 @@
+/**
+ * Upstream Task Tracking
+ * Mirrors Restorepoint jobs into the local TaskManager by polling their status
+ */
+
+import { ApiClient, DEFAULT_TARGET } from '../auth/api-client.js';
+import { RESTOREPOINT_ENDPOINTS } from '../constants/endpoints.js';
+import type { TaskStatus } from '../constants/endpoints.js';
+import { ERROR_CODES, RestorepointError } from '../constants/error-codes.js';
+import { taskManager } from './async-handler.js';
+import type { TaskInfo } from './async-handler.js';
+import { delay, generateId } from './helpers.js';
+import { Logger } from './logger.js';
+import { getRequestContext } from './request-context.js';
+
+/**
+ * Options for tracking an upstream Restorepoint task
+ */
+export interface TrackTaskOptions {
+  readonly type: TaskInfo['type'];
+  readonly message?: string;
+  readonly pollIntervalMs?: number;
+  readonly timeoutMs?: number;
+  readonly details?: Record<string, unknown>;
+  /**
+   * Endpoint polled for upstream status (defaults to the task status endpoint)
+   */
+  readonly statusEndpoint?: (upstreamTaskId: string) => string;
+}
+
+/**
+ * Options for waiting on an upstream task
+ */
+export interface WaitForTaskOptions extends TrackTaskOptions {
+  readonly timeoutMs: number;
+  readonly pollIntervalMs: number;
+}
+
+/**
+ * Outcome of waiting on an upstream task
+ * When the wait times out the task stays tracked in the background
+ */
+export interface WaitForTaskResult {
+  readonly task: TaskInfo;
+  readonly upstreamTaskId: string;
+  readonly snapshot?: UpstreamTaskSnapshot;
+  readonly timedOut: boolean;
+}
+
+/**
+ * Normalized snapshot of an upstream task
+ */
+export interface UpstreamTaskSnapshot {
+  readonly status: TaskStatus;
+  readonly progress?: number;
+  readonly message?: string;
+  readonly raw: Record<string, unknown>;
+}
+
+const TERMINAL_STATUSES: readonly TaskStatus[] = ['completed', 'failed', 'cancelled', 'timeout'];
+
+/**
+ * Upstream job status values (both the swagger Job model and legacy lowercase values)
+ */
+const UPSTREAM_STATUS_MAP: Record<string, TaskStatus> = {
+  pending: 'pending',
+  queued: 'pending',
+  running: 'running',
+  paused: 'running',
+  in_progress: 'running',
+  done: 'completed',
+  completed: 'completed',
+  success: 'completed',
+  error: 'failed',
+  failed: 'failed',
+  stopped: 'cancelled',
+  cancelled: 'cancelled',
+  aborted: 'cancelled',
+  timeout: 'timeout',
+};
+
+/**
+ * Check whether a task status is terminal
+ */
+export const isTerminalStatus = (status: TaskStatus): boolean => TERMINAL_STATUSES.includes(status);
+
+/**
+ * Map an upstream status string onto the local TaskStatus values
+ */
+export const mapUpstreamTaskStatus = (status: unknown): TaskStatus => {
+  if (typeof status !== 'string') {
+    return 'running';
+  }
+  return UPSTREAM_STATUS_MAP[status.trim().toLowerCase()] ?? 'running';
+};
+
+/**
+ * Normalize an upstream task/job payload
+ */
+export const parseUpstreamTask = (payload: unknown): UpstreamTaskSnapshot => {
+  const envelope = (payload && typeof payload === 'object' ? payload : {}) as Record<string, unknown>;
+  const raw = (envelope.data && typeof envelope.data === 'object' ? envelope.data : envelope) as Record<string, unknown>;
+
+  const progressValue = raw.Progress ?? raw.progress;
+  const messages = raw.Messages ?? raw.messages;
+  const lastMessage = Array.isArray(messages) && messages.length > 0 ? String(messages[messages.length - 1]) : undefined;
+  const message = lastMessage ?? (typeof raw.message === 'string' ? raw.message : undefined);
+
+  return {
+    status: mapUpstreamTaskStatus(raw.Status ?? raw.status),
+    progress: typeof progressValue === 'number' ? progressValue : undefined,
+    message,
+    raw,
+  };
+};
+
+/**
+ * Summarize a finished wait for tool responses
+ */
+export const describeWaitOutcome = (result: WaitForTaskResult): Record<string, unknown> => ({
+  taskId: result.task.id,
+  upstreamTaskId: result.upstreamTaskId,
+  status: result.task.status,
+  progress: result.task.progress,
+  message: result.task.message,
+  timedOut: result.timedOut,
+  ...(result.snapshot ? { result: result.snapshot.raw } : {}),
+});
+
+/**
+ * Catch handler for waitFor once the upstream job has started
+ * Another task may take the last slot after the capacity check; the job is already running, so
+ * the caller returns without waiting instead of failing
+ */
+export const skipWaitAtTaskLimit = (error: unknown): null => {
+  if (error instanceof RestorepointError && error.code === ERROR_CODES.TASK_LIMIT_EXCEEDED) {
+    Logger.logWithContext('warn', 'Concurrent task limit reached after the upstream job started; not waiting', 'TaskTracker', {
+      error: error.message,
+    });
+    return null;
+  }
+  throw error;
+};
+
+/**
+ * Extract the upstream task/job identifier from a perform response
+ */
+export const extractUpstreamTaskId = (payload: unknown): string | null => {
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+  const data = payload as Record<string, unknown>;
+  const id = data.ID ?? data.id ?? data.taskId ?? data.TaskID ?? data.JobID;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+};
+
+/**
+ * Tracks upstream Restorepoint tasks in the local TaskManager
+ * Polls task status so progress is visible to local subscribers
+ */
+export class TaskTracker {
+  private static instance: TaskTracker;
+  private readonly pollers = new Map<string, NodeJS.Timeout>();
+  private readonly DEFAULT_POLL_INTERVAL = 5000; // 5 seconds
+  private readonly MAX_CONSECUTIVE_FAILURES = 5;
+  private readonly WAIT_BACKOFF_FACTOR = 1.5;
+  private readonly MAX_WAIT_POLL_INTERVAL = 15000; // 15 seconds
+
+  private constructor() {}
+
+  /**
+   * Singleton pattern implementation
+   */
+  public static getInstance(): TaskTracker {
+    if (!TaskTracker.instance) {
+      TaskTracker.instance = new TaskTracker();
+    }
+    return TaskTracker.instance;
+  }
+
+  /**
+   * Start tracking an upstream task
+   * Tracking is best-effort: failures are logged and null is returned
+   */
+  public track(apiClient: ApiClient, upstreamTaskId: string, options: TrackTaskOptions): TaskInfo | null {
+    const taskId = generateId(options.type);
+
+    try {
+      taskManager.createTask(taskId, options.type, options.message ?? `Tracking ${options.type} task ${upstreamTaskId}`, {
+        type: options.type,
+        timeoutMs: options.timeoutMs,
+      });
+    } catch (error) {
+      Logger.logWithContext('warn', 'Unable to track upstream task', 'TaskTracker', {
+        upstreamTaskId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+
+    const statusEndpoint = options.statusEndpoint ?? RESTOREPOINT_ENDPOINTS.TASK_STATUS;
+    const task = taskManager.updateTaskStatus(taskId, 'running', undefined, undefined, {
+      ...options.details,
+      upstreamTaskId,
+      statusEndpoint: statusEndpoint(upstreamTaskId),
+      target: getRequestContext()?.target,
+    });
+
+    this.schedulePoll(
+      apiClient,
+      taskId,
+      upstreamTaskId,
+      statusEndpoint,
+      options.pollIntervalMs ?? this.DEFAULT_POLL_INTERVAL,
+      0
+    );
+
+    return task;
+  }
+
+  /**
+   * Track an upstream task and poll it with backoff until it finishes or the wait times out
+   * Throws TASK_LIMIT_EXCEEDED when the concurrent task limit is reached
+   */
+  public async waitFor(apiClient: ApiClient, upstreamTaskId: string, options: WaitForTaskOptions): Promise<WaitForTaskResult> {
+    const taskId = generateId(options.type);
+    const statusEndpoint = options.statusEndpoint ?? RESTOREPOINT_ENDPOINTS.TASK_STATUS;
+
+    taskManager.createTask(taskId, options.type, options.message ?? `Waiting for ${options.type} task ${upstreamTaskId}`, {
+      type: options.type,
+    });
+    let task = taskManager.updateTaskStatus(taskId, 'running', undefined, undefined, {
+      ...options.details,
+      upstreamTaskId,
+      statusEndpoint: statusEndpoint(upstreamTaskId),
+      target: getRequestContext()?.target,
+    }) as TaskInfo;
+
+    const deadline = Date.now() + options.timeoutMs;
+    let intervalMs = options.pollIntervalMs;
+    let failures = 0;
+    let snapshot: UpstreamTaskSnapshot | undefined;
+
+    while (true) {
+      await delay(Math.max(0, Math.min(intervalMs, deadline - Date.now())));
+
+      // The task may have been cancelled locally while we slept
+      task = taskManager.getTask(taskId) ?? task;
+      if (isTerminalStatus(task.status)) {
+        return { task, upstreamTaskId, snapshot, timedOut: false };
+      }
+
+      try {
+        snapshot = await this.refresh(apiClient, taskId, upstreamTaskId, statusEndpoint);
+        failures = 0;
+        if (isTerminalStatus(snapshot.status)) {
+          return { task: taskManager.getTask(taskId) ?? task, upstreamTaskId, snapshot, timedOut: false };
+        }
+      } catch (error) {
+        failures++;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+        Logger.logWithContext('warn', `Failed to poll upstream task ${upstreamTaskId}`, 'TaskTracker', {
+          taskId,
+          consecutiveFailures: failures,
+          error: errorMessage,
+        });
+
+        if (failures >= this.MAX_CONSECUTIVE_FAILURES) {
+          task = taskManager.updateTaskStatus(taskId, 'failed', `Lost track of upstream task: ${errorMessage}`) ?? task;
+          return { task, upstreamTaskId, snapshot, timedOut: false };
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        // Keep tracking in the background so get_task_status and subscribers still see the outcome
+        this.schedulePoll(apiClient, taskId, upstreamTaskId, statusEndpoint, this.DEFAULT_POLL_INTERVAL, 0);
+        return { task: taskManager.getTask(taskId) ?? task, upstreamTaskId, snapshot, timedOut: true };
+      }
+
+      intervalMs = Math.min(intervalMs * this.WAIT_BACKOFF_FACTOR, this.MAX_WAIT_POLL_INTERVAL);
+    }
+  }
+
+  /**
+   * Stop polling a tracked task
+   */
+  public stop(taskId: string): void {
+    const timer = this.pollers.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.pollers.delete(taskId);
+    }
+  }
+
+  /**
+   * Resume polling unfinished tasks restored from a task store
+   * Tasks without an upstream job cannot be followed after a restart and are marked failed
+   */
+  public resume(apiClient: ApiClient): number {
+    let resumed = 0;
+
+    for (const task of taskManager.getTasks()) {
+      if (isTerminalStatus(task.status) || this.pollers.has(task.id)) {
+        continue;
+      }
+
+      const upstreamTaskId = task.details?.upstreamTaskId;
+      if (typeof upstreamTaskId !== 'string') {
+        taskManager.updateTaskStatus(task.id, 'failed', 'Interrupted by a server restart');
+        continue;
+      }
+
+      let client: ApiClient;
+      try {
+        client = this.clientFor(task, apiClient);
+      } catch {
+        taskManager.updateTaskStatus(task.id, 'failed', `Target ${String(task.details?.target)} is no longer configured`);
+        continue;
+      }
+
+      const storedEndpoint = task.details?.statusEndpoint;
+      const statusEndpoint = typeof storedEndpoint === 'string'
+        ? () => storedEndpoint
+        : RESTOREPOINT_ENDPOINTS.TASK_STATUS;
+
+      this.schedulePoll(client, task.id, upstreamTaskId, statusEndpoint, this.DEFAULT_POLL_INTERVAL, 0);
+      resumed++;
+    }
+
+    if (resumed > 0) {
+      Logger.logWithContext('info', `Re-attached to ${resumed} upstream task(s)`, 'TaskTracker');
+    }
+
+    return resumed;
+  }
+
+  /**
+   * API client for the target a task was started on; tasks without a recorded target use the given client
+   */
+  public clientFor(task: TaskInfo, apiClient: ApiClient): ApiClient {
+    const target = task.details?.target;
+    return typeof target === 'string' ? ApiClient.getInstance(target) : apiClient;
+  }
+
+  /**
+   * Find the local task tracking an upstream task, optionally only one started on the given target
+   */
+  public findByUpstreamId(upstreamTaskId: string, target?: string): TaskInfo | null {
+    return taskManager.getTasks().find(task =>
+      task.details?.upstreamTaskId === upstreamTaskId
+      && (target === undefined || (task.details?.target ?? DEFAULT_TARGET) === target)
+    ) ?? null;
+  }
+
+  /**
+   * Number of tasks currently being polled
+   */
+  public getTrackedCount(): number {
+    return this.pollers.size;
+  }
+
+  /**
+   * Stop all pollers
+   */
+  public shutdown(): void {
+    for (const taskId of this.pollers.keys()) {
+      this.stop(taskId);
+    }
+  }
+
+  /**
+   * Fetch the upstream status and mirror it onto the local task
+   */
+  private async refresh(
+    apiClient: ApiClient,
+    taskId: string,
+    upstreamTaskId: string,
+    statusEndpoint: (upstreamTaskId: string) => string
+  ): Promise<UpstreamTaskSnapshot> {
+    const response = await apiClient.get<unknown>(statusEndpoint(upstreamTaskId), {
+      maxRetries: 1,
+    });
+    const snapshot = parseUpstreamTask(response.data);
+
+    taskManager.updateTaskStatus(taskId, snapshot.status, snapshot.message, snapshot.progress, {
+      upstreamStatus: snapshot.raw.Status ?? snapshot.raw.status,
+    });
+
+    return snapshot;
+  }
+
+  private schedulePoll(
+    apiClient: ApiClient,
+    taskId: string,
+    upstreamTaskId: string,
+    statusEndpoint: (upstreamTaskId: string) => string,
+    intervalMs: number,
+    failures: number
+  ): void {
+    const timer = setTimeout(() => {
+      void this.poll(apiClient, taskId, upstreamTaskId, statusEndpoint, intervalMs, failures);
+    }, intervalMs);
+    // Polling should never keep the process alive on its own
+    timer.unref();
+    this.pollers.set(taskId, timer);
+  }
+
+  private async poll(
+    apiClient: ApiClient,
+    taskId: string,
+    upstreamTaskId: string,
+    statusEndpoint: (upstreamTaskId: string) => string,
+    intervalMs: number,
+    failures: number
+  ): Promise<void> {
+    this.pollers.delete(taskId);
+
+    const task = taskManager.getTask(taskId);
+    if (!task || isTerminalStatus(task.status)) {
+      return;
+    }
+
+    try {
+      const snapshot = await this.refresh(apiClient, taskId, upstreamTaskId, statusEndpoint);
+
+      if (!isTerminalStatus(snapshot.status)) {
+        this.schedulePoll(apiClient, taskId, upstreamTaskId, statusEndpoint, intervalMs, 0);
+      }
+    } catch (error) {
+      const consecutiveFailures = failures + 1;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      Logger.logWithContext('warn', `Failed to poll upstream task ${upstreamTaskId}`, 'TaskTracker', {
+        taskId,
+        consecutiveFailures,
+        error: errorMessage,
+      });
+
+      if (consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
+        taskManager.updateTaskStatus(taskId, 'failed', `Lost track of upstream task: ${errorMessage}`);
+        return;
+      }
+
+      this.schedulePoll(apiClient, taskId, upstreamTaskId, statusEndpoint, intervalMs, consecutiveFailures);
+    }
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const taskTracker = TaskTracker.getInstance();
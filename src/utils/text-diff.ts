@@ -0,0 +1,229 @@
+/**
+ * Line-based text diff
+ * Produces unified diffs and added/removed summaries for configuration comparison
+ */
+
+import { decodeHtmlEntities } from './helpers.js';
+
+/**
+ * A single line of a diff
+ */
+export interface DiffOp {
+  readonly type: 'equal' | 'add' | 'remove';
+  readonly line: string;
+}
+
+/**
+ * Added/removed line counts and samples
+ */
+export interface DiffSummary {
+  readonly added: number;
+  readonly removed: number;
+  readonly addedLines: readonly string[];
+  readonly removedLines: readonly string[];
+  readonly truncated: boolean;
+}
+
+export interface UnifiedDiffOptions {
+  readonly context?: number;
+  readonly oldLabel?: string;
+  readonly newLabel?: string;
+}
+
+/**
+ * Largest LCS table computed; bigger changed regions are reported as a full replacement
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Number of added/removed lines kept in a summary
+ */
+export const MAX_SUMMARY_LINES = 100;
+
+/**
+ * Diff the changed middle section with a longest-common-subsequence table
+ */
+const diffMiddle = (oldLines: readonly string[], newLines: readonly string[]): DiffOp[] => {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(line => ({ type: 'remove' as const, line })),
+      ...newLines.map(line => ({ type: 'add' as const, line })),
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: 'equal', line: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'remove', line: oldLines[i] });
+      i++;
+    } else {
+      ops.push({ type: 'add', line: newLines[j] });
+      j++;
+    }
+  }
+  while (i < n) ops.push({ type: 'remove', line: oldLines[i++] });
+  while (j < m) ops.push({ type: 'add', line: newLines[j++] });
+
+  return ops;
+};
+
+/**
+ * Compute the line operations turning oldLines into newLines
+ */
+export const diffLines = (oldLines: readonly string[], newLines: readonly string[]): DiffOp[] => {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map(line => ({ type: 'equal' as const, line })),
+    ...diffMiddle(
+      oldLines.slice(prefix, oldLines.length - suffix),
+      newLines.slice(prefix, newLines.length - suffix)
+    ),
+    ...oldLines.slice(oldLines.length - suffix).map(line => ({ type: 'equal' as const, line })),
+  ];
+};
+
+/**
+ * Render diff operations as a unified diff
+ * Returns an empty string when there are no changes
+ */
+export const formatUnifiedDiff = (ops: readonly DiffOp[], options: UnifiedDiffOptions = {}): string => {
+  const context = options.context ?? 3;
+
+  const changed = ops.map(op => op.type !== 'equal');
+  if (!changed.includes(true)) {
+    return '';
+  }
+
+  const output = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`];
+
+  // Line numbers (1-based) of every op in the old and new text
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (op.type !== 'add') oldLine++;
+    if (op.type !== 'remove') newLine++;
+  }
+
+  let index = 0;
+  while (index < ops.length) {
+    if (!changed[index]) {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk while changes are within 2 * context lines of each other
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < ops.length && end - lastChange <= context * 2) {
+      if (changed[end]) lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.type !== 'add').length;
+    const newCount = hunk.filter(op => op.type !== 'remove').length;
+    const oldStart = oldCount === 0 ? oldNumbers[start] - 1 : oldNumbers[start];
+    const newStart = newCount === 0 ? newNumbers[start] - 1 : newNumbers[start];
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      const marker = op.type === 'add' ? '+' : op.type === 'remove' ? '-' : ' ';
+      output.push(`${marker}${op.line}`);
+    }
+
+    index = end;
+  }
+
+  return output.join('\n');
+};
+
+/**
+ * Summarize diff operations
+ */
+export const summarizeDiffOps = (ops: readonly DiffOp[]): DiffSummary => {
+  const added = ops.filter(op => op.type === 'add').map(op => op.line);
+  const removed = ops.filter(op => op.type === 'remove').map(op => op.line);
+
+  return {
+    added: added.length,
+    removed: removed.length,
+    addedLines: added.slice(0, MAX_SUMMARY_LINES),
+    removedLines: removed.slice(0, MAX_SUMMARY_LINES),
+    truncated: added.length > MAX_SUMMARY_LINES || removed.length > MAX_SUMMARY_LINES,
+  };
+};
+
+/**
+ * Summarize diff text in unified ("+"/"-") or normal ("> "/"< ") format
+ */
+export const summarizeDiffText = (diff: string): DiffSummary => {
+  const ops: DiffOp[] = [];
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      continue;
+    }
+    if (line.startsWith('> ') || line.startsWith('+')) {
+      ops.push({ type: 'add', line: line.slice(line.startsWith('> ') ? 2 : 1) });
+    } else if (line.startsWith('< ') || line.startsWith('-')) {
+      ops.push({ type: 'remove', line: line.slice(line.startsWith('< ') ? 2 : 1) });
+    }
+  }
+
+  return summarizeDiffOps(ops);
+};
+
+/**
+ * Convert the appliance's side-by-side HTML diff to normal diff text
+ * The response is a count line followed by the old and new panes, one <div> per line;
+ * changed lines carry a "diff*" class
+ */
+export const parseHtmlDiff = (html: string): string => {
+  const [, oldPane = '', newPane = ''] = html.split('\n');
+
+  const changedLines = (pane: string, prefix: string): string[] =>
+    Array.from(pane.matchAll(/<div(?:\s+class="([^"]*)")?>([\s\S]*?)<\/div>/g))
+      .filter(match => (match[1] ?? '').split(/\s+/).some(name => name.startsWith('diff')))
+      .map(match => `${prefix}${decodeHtmlEntities((match[2] ?? '').replace(/&nbsp;/g, ' ').replace(/<[^>]+>/g, ''))}`);
+
+  return [...changedLines(oldPane, '< '), ...changedLines(newPane, '> ')].join('\n');
+};
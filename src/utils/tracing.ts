@@ -0,0 +1,328 @@
+/**
+ * Tracing
+ * OpenTelemetry-style spans with W3C traceparent propagation and an OTLP/JSON file exporter
+ */
+
+import { randomBytes } from 'crypto';
+import { appendFileSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { performance } from 'perf_hooks';
+import { Logger } from './logger.js';
+import { getRequestContext, runWithContext } from './request-context.js';
+
+/**
+ * OTLP span kinds
+ */
+export const SPAN_KIND = {
+  INTERNAL: 1,
+  SERVER: 2,
+  CLIENT: 3,
+} as const;
+
+export type SpanKind = typeof SPAN_KIND[keyof typeof SPAN_KIND];
+
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Identity of a span as carried in traceparent
+ */
+export interface SpanContext {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly sampled: boolean;
+}
+
+export interface StartSpanOptions {
+  readonly kind?: SpanKind;
+  readonly attributes?: Record<string, SpanAttributeValue | undefined>;
+  /**
+   * Parent span; defaults to the active span, and a new trace is started when there is none
+   */
+  readonly parent?: SpanContext | null;
+}
+
+/**
+ * Destination for finished spans
+ */
+export interface SpanExporter {
+  export(spans: readonly Span[]): void;
+  shutdown(): void;
+}
+
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+const nowUnixNano = (): bigint => BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6));
+
+const randomHex = (bytes: number): string => randomBytes(bytes).toString('hex');
+
+/**
+ * Parse a W3C traceparent header (version 00)
+ */
+export const parseTraceparent = (header: string | string[] | undefined): SpanContext | null => {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(value?.trim().toLowerCase() ?? '');
+
+  if (!match || match[1] === 'ff' || match[2] === INVALID_TRACE_ID || match[3] === INVALID_SPAN_ID) {
+    return null;
+  }
+
+  return {
+    traceId: match[2],
+    spanId: match[3],
+    sampled: (parseInt(match[4], 16) & 1) === 1,
+  };
+};
+
+/**
+ * Format a span context as a W3C traceparent header
+ */
+export const formatTraceparent = (context: SpanContext): string =>
+  `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+
+/**
+ * A timed operation within a trace
+ */
+export class Span implements SpanContext {
+  public readonly traceId: string;
+  public readonly spanId: string;
+  public readonly parentSpanId?: string;
+  public readonly sampled: boolean;
+  public readonly startTimeUnixNano = nowUnixNano();
+  public endTimeUnixNano?: bigint;
+  public readonly attributes: Record<string, SpanAttributeValue> = {};
+  public status: { code: 'UNSET' | 'OK' | 'ERROR'; message?: string } = { code: 'UNSET' };
+
+  constructor(
+    public name: string,
+    public readonly kind: SpanKind,
+    parent: SpanContext | null,
+    private readonly onEnd: (span: Span) => void
+  ) {
+    this.traceId = parent?.traceId ?? randomHex(16);
+    this.spanId = randomHex(8);
+    this.parentSpanId = parent?.spanId;
+    this.sampled = parent?.sampled ?? true;
+  }
+
+  public get ended(): boolean {
+    return this.endTimeUnixNano !== undefined;
+  }
+
+  public setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  public setAttributes(attributes: Record<string, SpanAttributeValue | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  public setStatus(code: 'OK' | 'ERROR', message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  /**
+   * End the span; later calls are ignored
+   */
+  public end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.endTimeUnixNano = nowUnixNano();
+    this.onEnd(this);
+  }
+}
+
+const toOtlpValue = (value: SpanAttributeValue): Record<string, unknown> => {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: value };
+};
+
+const OTLP_STATUS_CODES = { UNSET: 0, OK: 1, ERROR: 2 } as const;
+
+/**
+ * Convert spans to an OTLP/JSON ExportTraceServiceRequest
+ */
+export const toOtlpJson = (spans: readonly Span[], serviceName: string): Record<string, unknown> => ({
+  resourceSpans: [{
+    resource: {
+      attributes: [{ key: 'service.name', value: { stringValue: serviceName } }],
+    },
+    scopeSpans: [{
+      scope: { name: 'rp-sl1-mcp' },
+      spans: spans.map(span => ({
+        traceId: span.traceId,
+        spanId: span.spanId,
+        ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+        name: span.name,
+        kind: span.kind,
+        startTimeUnixNano: span.startTimeUnixNano.toString(),
+        endTimeUnixNano: (span.endTimeUnixNano ?? span.startTimeUnixNano).toString(),
+        attributes: Object.entries(span.attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) })),
+        status: {
+          code: OTLP_STATUS_CODES[span.status.code],
+          ...(span.status.message ? { message: span.status.message } : {}),
+        },
+      })),
+    }],
+  }],
+});
+
+/**
+ * Appends one OTLP/JSON export request per line, for offline analysis or later replay to a collector
+ * Spans are buffered and written in batches
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly filePath: string;
+  private buffer: Span[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private readonly MAX_BATCH_SIZE = 100;
+  private readonly FLUSH_INTERVAL_MS = 5000;
+
+  constructor(filePath: string, private readonly serviceName: string) {
+    this.filePath = resolve(filePath);
+  }
+
+  public export(spans: readonly Span[]): void {
+    this.buffer.push(...spans);
+
+    if (this.buffer.length >= this.MAX_BATCH_SIZE) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.FLUSH_INTERVAL_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Write buffered spans
+   */
+  public flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const spans = this.buffer;
+    this.buffer = [];
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, `${JSON.stringify(toOtlpJson(spans, this.serviceName))}\n`, 'utf8');
+    } catch (error) {
+      Logger.logWithContext('error', 'Failed to write spans', 'Tracer', {
+        filePath: this.filePath,
+        spans: spans.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  public shutdown(): void {
+    this.flush();
+  }
+}
+
+/**
+ * Creates spans and hands finished, sampled spans to the exporter
+ * Spans are always created so trace IDs reach logs and upstream requests even without an exporter
+ */
+export class Tracer {
+  private static instance: Tracer;
+  private exporter: SpanExporter | null = null;
+  private exitHookInstalled = false;
+
+  private constructor() {}
+
+  public static getInstance(): Tracer {
+    if (!Tracer.instance) {
+      Tracer.instance = new Tracer();
+    }
+    return Tracer.instance;
+  }
+
+  /**
+   * Replace the exporter (null disables export)
+   */
+  public useExporter(exporter: SpanExporter | null): void {
+    this.exporter?.shutdown();
+    this.exporter = exporter;
+
+    // Exporters write synchronously, so buffered spans can still be flushed on exit
+    if (exporter && !this.exitHookInstalled) {
+      process.once('exit', () => this.shutdown());
+      this.exitHookInstalled = true;
+    }
+  }
+
+  public getActiveSpan(): Span | undefined {
+    return getRequestContext()?.span;
+  }
+
+  public startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent === undefined ? this.getActiveSpan() ?? null : options.parent;
+    const span = new Span(name, options.kind ?? SPAN_KIND.INTERNAL, parent, finished => this.export(finished));
+    span.setAttributes(options.attributes ?? {});
+    return span;
+  }
+
+  /**
+   * Run a function with the span active
+   */
+  public withSpan<T>(span: Span, fn: () => T): T {
+    return runWithContext({ span }, fn);
+  }
+
+  /**
+   * Run an async function in a new active span, ending it when the function settles
+   * Thrown errors mark the span as failed
+   */
+  public async trace<T>(name: string, options: StartSpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+
+    try {
+      return await this.withSpan(span, () => fn(span));
+    } catch (error) {
+      span.setStatus('ERROR', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  public shutdown(): void {
+    this.exporter?.shutdown();
+  }
+
+  private export(span: Span): void {
+    if (this.exporter && span.sampled) {
+      this.exporter.export([span]);
+    }
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const tracer = Tracer.getInstance();
+
+/**
+ * Create the exporter selected in the tracing configuration
+ */
+export const createSpanExporter = (options: {
+  readonly exporter: 'none' | 'file';
+  readonly filePath: string;
+  readonly serviceName: string;
+}): SpanExporter | null =>
+  options.exporter === 'file' ? new FileSpanExporter(options.filePath, options.serviceName) : null;
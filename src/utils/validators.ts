@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import type { RestorepointError } from '../constants/error-codes.js';
 import { ERROR_CODES, RestorepointError as RestorepointErrorClass } from '../constants/error-codes.js';
+import { API_CONSTANTS } from '../constants/endpoints.js';
+import { parseCronExpression } from './cron.js';
 
 /**
  * Input validation utilities using Zod schemas
@@ -21,6 +23,19 @@ const deviceIdSchema = z.string()
   .max(100, 'Device ID must be 100 characters or less')
   .regex(/^[a-zA-Z0-9_-]+$/, 'Device ID can only contain alphanumeric characters, hyphens, and underscores');
 
+/**
+ * Restorepoint resource IDs are numeric; accept numbers and normalize them to strings
+ * IDs are interpolated into endpoint paths, so only path-safe characters are allowed
+ */
+const resourceIdSchema = (label: string) => z.preprocess(
+  (value) => (typeof value === 'number' ? String(value) : value),
+  z.string()
+    .trim()
+    .min(1, `${label} is required`)
+    .max(100, `${label} must be 100 characters or less`)
+    .regex(/^[a-zA-Z0-9_-]+$/, `${label} can only contain alphanumeric characters, hyphens, and underscores`)
+);
+
 /**
  * Common validation schemas
  */
@@ -41,6 +56,16 @@ export const CommonSchemas = {
     .min(1, 'Agent ID is required')
     .max(100, 'Agent ID must be 100 characters or less'),
 
+  // Restorepoint references (numeric IDs accepted as numbers or strings)
+  deviceRef: resourceIdSchema('Device ID'),
+  backupRef: resourceIdSchema('Backup ID'),
+  commandRef: resourceIdSchema('Command ID'),
+  taskRef: resourceIdSchema('Task ID'),
+  agentRef: resourceIdSchema('Agent ID'),
+  scheduleRef: resourceIdSchema('Schedule ID'),
+  outputRef: resourceIdSchema('Command output ID'),
+  outputGroupRef: resourceIdSchema('Command output group ID'),
+
   // Names and descriptions
   backupName: z.string()
     .min(1, 'Backup name is required')
@@ -85,6 +110,40 @@ export const CommonSchemas = {
     .min(1, 'At least one device ID is required')
     .max(100, 'Cannot process more than 100 devices at once'),
 
+  deviceRefs: z.array(resourceIdSchema('Device ID'))
+    .min(1, 'At least one device ID is required')
+    .max(100, 'Cannot process more than 100 devices at once'),
+
+  // Schedules
+  cronExpression: z.string()
+    .trim()
+    .min(1, 'Schedule expression is required')
+    .superRefine((value, ctx) => {
+      try {
+        parseCronExpression(value);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'Invalid schedule expression' });
+      }
+    }),
+
+  scheduleVariables: z.array(z.object({
+    name: z.string().min(1).describe('Variable name'),
+    value: z.string().describe('Variable value'),
+    deviceId: resourceIdSchema('Device ID').describe('Device the value applies to'),
+  })),
+
+  // Waiting for long-running tasks
+  wait: z.object({
+    timeoutMs: z.number().int().min(1000).max(900000).default(120000)
+      .describe('How long to wait before returning the task ID instead'),
+    pollIntervalMs: z.number().int().min(250).max(60000).default(2000)
+      .describe('First poll interval; later polls back off'),
+  }),
+
+  // Response cache
+  cacheMode: z.enum(['default', 'bypass']).optional()
+    .describe("Use 'bypass' to skip the cached result and fetch fresh data"),
+
   // Enums
   logLevel: z.enum(['error', 'warn', 'info', 'debug'], {
     errorMap: (issue, ctx) => ({
@@ -104,19 +163,64 @@ export const CommonSchemas = {
  */
 export const DeviceSchemas = {
   createDevice: z.object({
-    name: CommonSchemas.deviceName,
-    type: z.string().min(1, 'Device type is required'),
-    ipAddress: CommonSchemas.ipAddress.optional(),
-    hostname: CommonSchemas.hostname.optional(),
+    name: CommonSchemas.deviceName.describe('Name of the device (1-200 characters)'),
+    type: z.string().min(1, 'Device type is required')
+      .describe('Device type identifier. Use get_device_requirements to see all supported types'),
+    ipAddress: CommonSchemas.ipAddress.optional()
+      .describe('IP address of the device (use either ipAddress or hostname, not both)'),
+    hostname: CommonSchemas.hostname.optional()
+      .describe('Hostname of the device (use either hostname or ipAddress, not both)'),
     credentials: z.object({
       username: z.string().min(1, 'Username is required'),
       password: z.string().min(1, 'Password is required'),
     }),
     description: z.string().max(500, 'Description must be 500 characters or less').optional(),
     enabled: z.boolean().default(true),
+    testFirst: z.boolean().default(false)
+      .describe('Run test_device_connection first and only create the device if the appliance can log in'),
+  }),
+
+  testDeviceConnection: z.object({
+    deviceId: CommonSchemas.deviceRef.optional().describe('Existing device to test with its stored settings'),
+    type: z.string().min(1).optional()
+      .describe('Device type of a proposed device. Use get_device_requirements to see all supported types'),
+    ipAddress: CommonSchemas.ipAddress.optional().describe('IP address of a proposed device'),
+    hostname: CommonSchemas.hostname.optional().describe('Hostname of a proposed device'),
+    credentials: z.object({
+      username: z.string().min(1, 'Username is required'),
+      password: z.string().min(1, 'Password is required'),
+    }).optional().describe('Login credentials; for an existing device these replace the stored ones'),
+    protocol: z.string().min(1).optional()
+      .describe("Connection protocol, e.g. SSH or HTTPS (defaults to the device's protocol)"),
+    agentId: z.number().int().min(0).optional().describe('Agent to test through; 0 tests directly from the appliance'),
+  }).refine((data) =>
+    data.deviceId !== undefined ||
+    (data.type !== undefined && (data.ipAddress !== undefined || data.hostname !== undefined) && data.credentials !== undefined), {
+    message: 'Provide deviceId, or type, ipAddress or hostname, and credentials for a proposed device',
+  }),
+
+  getDevice: z.object({
+    deviceId: CommonSchemas.deviceRef.describe('Unique identifier of the device'),
+    includeConnections: z.boolean().default(false).describe('Include device connection information'),
+    cache: CommonSchemas.cacheMode,
   }),
 
+  getStatus: z.preprocess(
+    // Older clients send device_id
+    (value) => {
+      if (value && typeof value === 'object' && !('deviceId' in value) && 'device_id' in value) {
+        const { device_id: deviceId, ...rest } = value as Record<string, unknown>;
+        return { ...rest, deviceId };
+      }
+      return value;
+    },
+    z.object({
+      deviceId: CommonSchemas.deviceRef.describe('Unique identifier of the device'),
+    })
+  ),
+
   updateDevice: z.object({
+    deviceId: CommonSchemas.deviceRef.describe('Unique identifier of the device to update'),
     name: CommonSchemas.deviceName.optional(),
     type: z.string().min(1, 'Device type is required').optional(),
     ipAddress: CommonSchemas.ipAddress.optional(),
@@ -127,10 +231,29 @@ export const DeviceSchemas = {
     }).optional(),
     description: z.string().max(500, 'Description must be 500 characters or less').optional(),
     enabled: z.boolean().optional(),
-  }).refine((data) => Object.keys(data).length > 0, {
+  }).refine(({ deviceId, ...changes }) => Object.values(changes).some(value => value !== undefined), {
     message: 'At least one field must be provided for update',
   }),
 
+  deleteDevice: z.object({
+    deviceId: CommonSchemas.deviceRef.describe('Unique identifier of the device to delete'),
+    force: z.boolean().default(false).describe('Force deletion even if device has backups'),
+  }),
+
+  deviceRequirements: z.object({
+    deviceType: z.string().optional()
+      .describe('Get detailed requirements for a specific device type. Leave empty to see all supported types.'),
+    includeExamples: z.boolean().default(true).describe('Include example device configurations'),
+    includeValidation: z.boolean().default(false)
+      .describe('Include validation of a sample request (requires request parameter)'),
+    request: z.record(z.unknown()).optional().describe('Device creation request to validate when includeValidation=true'),
+    cache: CommonSchemas.cacheMode,
+  }),
+
+  validateDeviceRequest: z.object({
+    request: z.record(z.unknown()).describe('Device creation request to validate'),
+  }),
+
   listDevices: z.object({
     limit: CommonSchemas.limit.default(50),
     offset: CommonSchemas.offset.default(0),
@@ -141,6 +264,7 @@ export const DeviceSchemas = {
       enabled: z.boolean().optional(),
       searchTerm: z.string().max(100, 'Search term must be 100 characters or less').optional(),
     }).optional(),
+    cache: CommonSchemas.cacheMode,
   }),
 } as const;
 
@@ -149,31 +273,71 @@ export const DeviceSchemas = {
  */
 export const BackupSchemas = {
   createBackup: z.object({
-    deviceIds: CommonSchemas.deviceIds,
-    backupName: CommonSchemas.backupName,
-    backupType: z.enum(['full', 'incremental', 'config-only']).default('full'),
-    description: z.string().max(1000, 'Description must be 1000 characters or less').optional(),
-    priority: z.enum(['low', 'normal', 'high']).default('normal'),
+    deviceId: CommonSchemas.deviceRef.optional().describe('Device to back up'),
+    deviceIds: CommonSchemas.deviceRefs.optional().describe('Devices to back up (alternative to deviceId)'),
+    backupType: z.string().default('automatic').describe('Type of backup to perform'),
+    wait: CommonSchemas.wait.optional().describe('Wait for the backup to finish and return its result'),
+  }).refine((data) => data.deviceId !== undefined || data.deviceIds !== undefined, {
+    message: 'Device ID or Device IDs are required to create backup',
+  }),
+
+  getBackup: z.object({
+    backupId: CommonSchemas.backupRef.describe('Unique identifier of the backup'),
   }),
 
   restoreBackup: z.object({
-    backupId: CommonSchemas.backupId,
-    deviceIds: CommonSchemas.deviceIds.optional(),
-    restoreType: z.enum(['full', 'config-only']).default('full'),
-    confirmRestore: z.boolean().default(false),
+    deviceId: CommonSchemas.deviceRef.describe('Device the backup belongs to'),
+    backupId: CommonSchemas.backupRef.describe('Backup to restore'),
+    targetDeviceId: CommonSchemas.deviceRef.optional().describe('Device to restore onto (defaults to deviceId)'),
+    sourceConfigType: z.string().min(1).optional().describe('Configuration type to restore from the backup'),
+    targetConfigType: z.string().min(1).optional().describe('Configuration type to overwrite on the target device'),
+    resetAfter: z.boolean().default(false).describe('Reboot the target device after the restore'),
+    confirm: z.boolean().default(false).describe('Must be true to perform the restore; it overwrites the device configuration'),
+    dryRun: z.boolean().default(false).describe('Only preview the target device and backup without restoring'),
+  }),
+
+  getBackupConfig: z.object({
+    deviceId: CommonSchemas.deviceRef.describe('Device the backup belongs to'),
+    backupId: CommonSchemas.backupRef.describe('Backup to read'),
+    configType: z.string().min(1).optional().describe('Configuration type to read, e.g. running or startup'),
+    location: z.string().min(1).optional().describe('File to read from a multi-file backup'),
+    startLine: z.number().int().min(1).optional().describe('First line to return (1-based)'),
+    endLine: z.number().int().min(1).optional().describe('Last line to return (inclusive)'),
+    grep: z.string().min(1).max(200).optional().describe('Only return lines containing this text (case-insensitive)'),
+    maxLines: z.number().int().min(1).max(5000).default(500).describe('Maximum number of lines to return'),
+    maxBytes: z.number().int().min(1).max(API_CONSTANTS.MAX_RESPONSE_SIZE).default(100000)
+      .describe('Maximum size of the returned content in bytes'),
+  }).refine((data) => data.endLine === undefined || data.endLine >= (data.startLine ?? 1), {
+    message: 'endLine must not be before startLine',
+  }),
+
+  diffBackups: z.object({
+    deviceId: CommonSchemas.deviceRef.describe('Device whose backups are compared'),
+    backupId: CommonSchemas.backupRef.optional().describe('Newer backup (defaults to the latest backup of the device)'),
+    compareBackupId: CommonSchemas.backupRef.optional().describe('Older backup to compare against (defaults to the backup taken before backupId)'),
+    compareDeviceId: CommonSchemas.deviceRef.optional().describe('Device owning compareBackupId (defaults to deviceId)'),
+    configType: z.string().min(1).optional().describe('Configuration type to compare, e.g. running or startup'),
+    context: z.number().int().min(0).max(50).default(3).describe('Unchanged lines shown around each change'),
+    mode: z.enum(['auto', 'appliance', 'local']).default('auto')
+      .describe('Where to compute the diff; auto falls back to a local diff when the appliance diff fails'),
+  }).refine((data) => data.compareDeviceId === undefined || data.compareBackupId !== undefined, {
+    message: 'compareDeviceId requires compareBackupId',
+  }),
+
+  listRestores: z.object({
+    deviceId: CommonSchemas.deviceRef.optional().describe('Only list restores onto this device'),
+    includeHistoric: z.boolean().default(true).describe('Include finished restore jobs'),
+    limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of finished restore jobs to return'),
   }),
 
   listBackups: z.object({
     limit: CommonSchemas.limit.default(50),
     offset: CommonSchemas.offset.default(0),
-    sortBy: z.enum(['backupName', 'createdAt', 'deviceCount', 'status']).optional(),
+    sortBy: z.string().default('Created').describe('Field to sort by'),
     sortOrder: CommonSchemas.sortOrder.default('desc'),
-    filter: z.object({
-      deviceId: CommonSchemas.deviceId.optional(),
-      status: z.enum(['completed', 'failed', 'in_progress']).optional(),
-      dateFrom: z.string().datetime().optional(),
-      dateTo: z.string().datetime().optional(),
-    }).optional(),
+    deviceId: CommonSchemas.deviceRef.optional().describe('Only list backups of this device'),
+    dateFrom: z.string().datetime().optional().describe('Only list backups taken at or after this time'),
+    dateTo: z.string().datetime().optional().describe('Only list backups taken at or before this time'),
   }),
 
   backupStatus: z.object({
@@ -186,21 +350,109 @@ export const BackupSchemas = {
  */
 export const CommandSchemas = {
   executeCommand: z.object({
-    deviceIds: CommonSchemas.deviceIds,
-    command: CommonSchemas.commandText,
-    commandType: z.enum(['show', 'configure', 'execute', 'custom']).default('show'),
-    timeout: CommonSchemas.timeoutMs.default(30000),
-    saveOutput: z.boolean().default(true),
-    description: z.string().max(500, 'Description must be 500 characters or less').optional(),
+    deviceId: CommonSchemas.deviceRef.optional().describe('Device to run the command on'),
+    deviceIds: CommonSchemas.deviceRefs.optional().describe('Devices to run the command on (alternative to deviceId)'),
+    command: CommonSchemas.commandText.describe('Command to execute'),
+    variables: z.record(z.string()).optional().describe('Values substituted into the command template'),
+    commandType: z.string().default('ad-hoc').describe('Type of command'),
+    wait: CommonSchemas.wait.optional().describe('Wait for the command to finish and return its output'),
+  }).refine((data) => data.deviceId !== undefined || data.deviceIds !== undefined, {
+    message: 'Device ID or Device IDs are required to execute command',
+  }),
+
+  getCommand: z.object({
+    commandId: CommonSchemas.commandRef.describe('Unique identifier of the command execution'),
+  }),
+
+  taskStatus: z.object({
+    taskId: CommonSchemas.taskRef.describe('Task ID returned from create_backup or execute_command'),
+    taskType: z.enum(['command', 'backup']).default('command').describe('Kind of task to look up'),
+  }),
+
+  cancelTask: z.object({
+    taskId: CommonSchemas.taskRef.describe('Local task ID from execute_command, create_backup or restore_backup, or an upstream job ID'),
   }),
 
   scheduleCommand: z.object({
-    deviceIds: CommonSchemas.deviceIds,
-    command: CommonSchemas.commandText,
-    schedule: z.string().min(1, 'Schedule expression is required'),
-    commandType: z.enum(['show', 'configure', 'execute', 'custom']).default('show'),
-    enabled: z.boolean().default(true),
-    description: z.string().max(500, 'Description must be 500 characters or less').optional(),
+    commandId: CommonSchemas.commandRef.describe('Saved Restorepoint command to schedule'),
+    deviceIds: CommonSchemas.deviceRefs.describe('Devices to run the command on'),
+    schedule: CommonSchemas.cronExpression.optional()
+      .describe('Cron-like schedule expression (5-part crontab or 7-part Restorepoint form)'),
+    runAt: z.string().datetime().optional().describe('Run once at this time instead of on a schedule'),
+    keepLast: z.number().int().min(1).max(100).default(1).describe('Number of command outputs to keep'),
+    emailAddress: z.string().email().optional().describe('Email the command output to this address'),
+    variables: CommonSchemas.scheduleVariables.optional().describe('Values for command variables per device'),
+    confirm: z.boolean().default(false).describe('Create the schedule; otherwise only preview the next run times'),
+  }).refine((data) => (data.schedule === undefined) !== (data.runAt === undefined), {
+    message: 'Exactly one of schedule or runAt is required',
+  }),
+
+  listCommandSchedules: z.object({
+    commandId: CommonSchemas.commandRef.optional().describe('Only list schedules of this command'),
+    limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of schedules to return'),
+    offset: CommonSchemas.offset.default(0),
+    nextRuns: z.number().int().min(0).max(10).default(1).describe('Upcoming run times to compute per schedule'),
+  }),
+
+  updateCommandSchedule: z.object({
+    commandId: CommonSchemas.commandRef.describe('Command the schedule belongs to'),
+    scheduleId: CommonSchemas.scheduleRef.describe('Schedule to update'),
+    deviceIds: CommonSchemas.deviceRefs.optional().describe('Replace the devices the command runs on'),
+    schedule: CommonSchemas.cronExpression.optional().describe('New cron-like schedule expression'),
+    runAt: z.string().datetime().optional().describe('Run once at this time instead of on a schedule'),
+    keepLast: z.number().int().min(1).max(100).optional().describe('Number of command outputs to keep'),
+    emailAddress: z.string().email().optional().describe('Email the command output to this address'),
+    variables: CommonSchemas.scheduleVariables.optional().describe('Values for command variables per device'),
+    confirm: z.boolean().default(false).describe('Save the changes; otherwise only preview the next run times'),
+  }).refine((data) => data.schedule === undefined || data.runAt === undefined, {
+    message: 'Provide either schedule or runAt, not both',
+  }),
+
+  deleteCommandSchedule: z.object({
+    commandId: CommonSchemas.commandRef.describe('Command the schedule belongs to'),
+    scheduleId: CommonSchemas.scheduleRef.describe('Schedule to delete'),
+    confirm: z.boolean().default(false).describe('Must be true to delete the schedule'),
+  }),
+
+  getCommandOutput: z.object({
+    outputId: CommonSchemas.outputRef.optional().describe('Command output to read'),
+    groupId: CommonSchemas.outputGroupRef.optional().describe('Run (grouped output) to read the device output from'),
+    commandId: CommonSchemas.commandRef.optional().describe('Read the latest output of this command on deviceId'),
+    deviceId: CommonSchemas.deviceRef.optional().describe('Device whose output is read from groupId or commandId'),
+    startLine: z.number().int().min(1).default(1).describe('First line to return (1-based)'),
+    grep: z.string().min(1).max(200).optional().describe('Only return lines containing this text (case-insensitive)'),
+    maxLines: z.number().int().min(1).max(5000).default(500).describe('Maximum number of lines to return'),
+    maxBytes: z.number().int().min(1).max(API_CONSTANTS.MAX_RESPONSE_SIZE).default(100000)
+      .describe('Maximum size of the returned content in bytes'),
+  }).refine((data) => data.outputId !== undefined || (data.deviceId !== undefined && (data.groupId !== undefined || data.commandId !== undefined)), {
+    message: 'Provide outputId, or deviceId with groupId or commandId',
+  }),
+
+  listCommandOutputs: z.object({
+    commandId: CommonSchemas.commandRef.optional().describe('Only list runs of this command'),
+    deviceId: CommonSchemas.deviceRef.optional().describe('Only list runs that include this device'),
+    search: z.string().min(3).optional().describe('Only list runs whose output contains this text'),
+    dateFrom: z.string().datetime().optional().describe('Only list runs at or after this time'),
+    dateTo: z.string().datetime().optional().describe('Only list runs at or before this time'),
+    limit: z.number().int().min(1).max(500).default(20).describe('Maximum number of runs to return'),
+    offset: CommonSchemas.offset.default(0),
+  }),
+
+  diffCommandOutputs: z.object({
+    outputId: CommonSchemas.outputRef.optional().describe('Newer command output'),
+    compareOutputId: CommonSchemas.outputRef.optional().describe('Older command output to compare against'),
+    groupId: CommonSchemas.outputGroupRef.optional().describe('Newer run (grouped output)'),
+    compareGroupId: CommonSchemas.outputGroupRef.optional().describe('Older run (grouped output) to compare against'),
+    commandId: CommonSchemas.commandRef.optional().describe('Compare the two latest outputs of this command on deviceId'),
+    deviceId: CommonSchemas.deviceRef.optional().describe('Device whose two latest outputs of commandId are compared'),
+    context: z.number().int().min(0).max(50).default(3).describe('Unchanged lines shown around each change'),
+    mode: z.enum(['auto', 'appliance', 'local']).default('auto')
+      .describe('Where to compute the diff; auto falls back to a local diff when the appliance diff fails'),
+  }).refine((data) =>
+    (data.outputId !== undefined && data.compareOutputId !== undefined) ||
+    (data.groupId !== undefined && data.compareGroupId !== undefined) ||
+    (data.commandId !== undefined && data.deviceId !== undefined), {
+    message: 'Provide outputId and compareOutputId, groupId and compareGroupId, or commandId and deviceId',
   }),
 
   commandStatus: z.object({
@@ -210,16 +462,133 @@ export const CommandSchemas = {
   listCommands: z.object({
     limit: CommonSchemas.limit.default(50),
     offset: CommonSchemas.offset.default(0),
-    sortBy: z.enum(['createdAt', 'command', 'status', 'deviceCount']).optional(),
+    sortBy: z.string().default('Created').describe('Field to sort by'),
     sortOrder: CommonSchemas.sortOrder.default('desc'),
-    filter: z.object({
-      deviceId: CommonSchemas.deviceId.optional(),
-      status: z.enum(['completed', 'failed', 'in_progress', 'cancelled']).optional(),
-      commandType: z.enum(['show', 'configure', 'execute', 'custom']).optional(),
-    }).optional(),
+    deviceId: CommonSchemas.deviceRef.optional().describe('Only list commands run on this device'),
+    status: z.string().optional().describe('Only list commands with this status'),
   }),
 } as const;
 
+/**
+ * Agent-specific schemas
+ */
+export const AgentSchemas = {
+  listAgents: z.object({
+    limit: CommonSchemas.limit.default(50),
+    offset: CommonSchemas.offset.default(0),
+    sortBy: z.enum(['name', 'status', 'lastSeen', 'version']).default('name').describe('Field to sort by'),
+    sortOrder: CommonSchemas.sortOrder.default('asc'),
+    status: z.enum(['online', 'offline']).optional().describe('Filter by agent connection status'),
+  }),
+
+  getAgent: z.object({
+    agentId: CommonSchemas.agentRef.describe('Unique identifier of the agent'),
+    includeDevices: z.boolean().default(false).describe('Include devices managed by this agent'),
+    includeStatus: z.boolean().default(false).describe('Include agent system information and debug state'),
+  }),
+
+  getAgentInfo: z.object({
+    agentId: CommonSchemas.agentRef.describe('Unique identifier of the agent'),
+  }),
+
+  getAgentDebugLog: z.object({
+    agentId: CommonSchemas.agentRef.describe('Unique identifier of the agent'),
+    tailLines: z.number().int().min(1).max(5000).default(200).describe('Number of most recent log lines to return'),
+    grep: z.string().min(1).max(200).optional().describe('Only return lines containing this text (case-insensitive)'),
+  }),
+} as const;
+
+/**
+ * System administration schemas
+ */
+export const SystemSchemas = {
+  getSystemStatus: z.object({
+    includeDetails: z.boolean().default(false).describe('Include detailed system information'),
+    includeMetrics: z.boolean().default(false).describe('Include system performance metrics'),
+  }),
+
+  getLicenses: z.object({
+    includeUsage: z.boolean().default(false).describe('Include license usage per domain'),
+  }),
+
+  listTargets: z.object({
+    checkConnectivity: z.boolean().default(false).describe('Call each target and report whether it is reachable'),
+  }),
+
+  queryAuditLog: z.object({
+    dateFrom: z.string().datetime().optional().describe('Only return calls at or after this time'),
+    dateTo: z.string().datetime().optional().describe('Only return calls at or before this time'),
+    tool: z.string().min(1).optional().describe('Only return calls to this tool, e.g. delete_device'),
+    caller: z.string().min(1).optional().describe('Only return calls by this API key name or JWT subject'),
+    success: z.boolean().optional().describe('Only return successful (true) or failed (false) calls'),
+    limit: z.number().int().min(1).max(1000).default(50).describe('Maximum number of entries to return, newest first'),
+  }),
+} as const;
+
+/**
+ * Job dashboard schemas
+ */
+const jobFilters = z.object({
+  type: z.string().min(1).optional().describe('Only list jobs of this type, e.g. Backup or Restore (case-insensitive)'),
+  deviceId: CommonSchemas.deviceRef.optional().describe('Only list jobs for this device'),
+  user: z.string().min(1).optional().describe('Only list jobs started by this user (case-insensitive)'),
+  dateFrom: z.string().datetime().optional().describe('Only list jobs created at or after this time'),
+  dateTo: z.string().datetime().optional().describe('Only list jobs created at or before this time'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of jobs to return'),
+});
+
+export const JobSchemas = {
+  listJobs: jobFilters.extend({
+    status: z.enum(['pending', 'running']).optional().describe('Only list queued or running jobs'),
+  }),
+
+  listJobHistory: jobFilters.extend({
+    status: z.enum(['completed', 'failed', 'cancelled', 'timeout']).optional().describe('Only list jobs that finished this way'),
+  }),
+} as const;
+
+/**
+ * Validated tool argument types
+ */
+export type ListDevicesArgs = z.infer<typeof DeviceSchemas.listDevices>;
+export type GetDeviceArgs = z.infer<typeof DeviceSchemas.getDevice>;
+export type GetStatusArgs = z.infer<typeof DeviceSchemas.getStatus>;
+export type CreateDeviceArgs = z.infer<typeof DeviceSchemas.createDevice>;
+export type UpdateDeviceArgs = z.infer<typeof DeviceSchemas.updateDevice>;
+export type DeleteDeviceArgs = z.infer<typeof DeviceSchemas.deleteDevice>;
+export type TestDeviceConnectionArgs = z.infer<typeof DeviceSchemas.testDeviceConnection>;
+export type DeviceRequirementsArgs = z.infer<typeof DeviceSchemas.deviceRequirements>;
+export type ValidateDeviceRequestArgs = z.infer<typeof DeviceSchemas.validateDeviceRequest>;
+export type ListBackupsArgs = z.infer<typeof BackupSchemas.listBackups>;
+export type GetBackupArgs = z.infer<typeof BackupSchemas.getBackup>;
+export type CreateBackupArgs = z.infer<typeof BackupSchemas.createBackup>;
+export type RestoreBackupArgs = z.infer<typeof BackupSchemas.restoreBackup>;
+export type ListRestoresArgs = z.infer<typeof BackupSchemas.listRestores>;
+export type DiffBackupsArgs = z.infer<typeof BackupSchemas.diffBackups>;
+export type GetBackupConfigArgs = z.infer<typeof BackupSchemas.getBackupConfig>;
+export type ListCommandsArgs = z.infer<typeof CommandSchemas.listCommands>;
+export type GetCommandArgs = z.infer<typeof CommandSchemas.getCommand>;
+export type ExecuteCommandArgs = z.infer<typeof CommandSchemas.executeCommand>;
+export type TaskStatusArgs = z.infer<typeof CommandSchemas.taskStatus>;
+export type CancelTaskArgs = z.infer<typeof CommandSchemas.cancelTask>;
+export type ScheduleCommandArgs = z.infer<typeof CommandSchemas.scheduleCommand>;
+export type ListCommandSchedulesArgs = z.infer<typeof CommandSchemas.listCommandSchedules>;
+export type UpdateCommandScheduleArgs = z.infer<typeof CommandSchemas.updateCommandSchedule>;
+export type DeleteCommandScheduleArgs = z.infer<typeof CommandSchemas.deleteCommandSchedule>;
+export type GetCommandOutputArgs = z.infer<typeof CommandSchemas.getCommandOutput>;
+export type ListCommandOutputsArgs = z.infer<typeof CommandSchemas.listCommandOutputs>;
+export type DiffCommandOutputsArgs = z.infer<typeof CommandSchemas.diffCommandOutputs>;
+export type ListAgentsArgs = z.infer<typeof AgentSchemas.listAgents>;
+export type GetAgentArgs = z.infer<typeof AgentSchemas.getAgent>;
+export type GetAgentInfoArgs = z.infer<typeof AgentSchemas.getAgentInfo>;
+export type GetAgentDebugLogArgs = z.infer<typeof AgentSchemas.getAgentDebugLog>;
+export type GetSystemStatusArgs = z.infer<typeof SystemSchemas.getSystemStatus>;
+export type GetLicensesArgs = z.infer<typeof SystemSchemas.getLicenses>;
+export type ListTargetsArgs = z.infer<typeof SystemSchemas.listTargets>;
+export type QueryAuditLogArgs = z.infer<typeof SystemSchemas.queryAuditLog>;
+export type ListJobsArgs = z.infer<typeof JobSchemas.listJobs>;
+export type ListJobHistoryArgs = z.infer<typeof JobSchemas.listJobHistory>;
+
 /**
  * Validation utility class
  */
@@ -0,0 +1,68 @@
+/**
+ * ApiClient Test Stubs
+ * Jest mocks for the request methods tool handlers call, typed against ApiClient,
+ * and real ApiClients whose HTTP requests go to a mock
+ */
+
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { ApiClient, DEFAULT_TARGET } from '../../src/auth/api-client';
+import type { AppConfig } from '../../src/config/types';
+
+type StubbedMethods = 'get' | 'post' | 'put' | 'delete' | 'planRequest' | 'getTarget';
+
+export type ApiClientStub = jest.Mocked<Pick<ApiClient, StubbedMethods>> & {
+  /**
+   * The same stub typed as the ApiClient handlers expect; only the stubbed methods may be called
+   */
+  readonly client: ApiClient;
+};
+
+/**
+ * Create a stub whose request methods are unconfigured mocks; planRequest reports a request to rp.example.com
+ * and getTarget the given target there
+ */
+export const createApiClientStub = (target: string = DEFAULT_TARGET): ApiClientStub => {
+  const methods: jest.Mocked<Pick<ApiClient, StubbedMethods>> = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    planRequest: jest.fn((method: string, endpoint: string, body?: unknown) => ({
+      method,
+      url: `https://rp.example.com/api/v2${endpoint}`,
+      ...(body === undefined ? {} : { body }),
+    })),
+    getTarget: jest.fn(() => ({
+      name: target,
+      serverUrl: 'https://rp.example.com',
+      apiVersion: 'v2' as const,
+      isDefault: target === DEFAULT_TARGET,
+    })),
+  };
+
+  return { ...methods, client: methods as Pick<ApiClient, StubbedMethods> as ApiClient };
+};
+
+/**
+ * Create the configured ApiClients with every HTTP request sent to the given mock (axios is mocked in jest.setup)
+ * Returns the client for the default target
+ */
+export const createApiClients = (
+  request: jest.Mock,
+  config: Pick<AppConfig, 'restorepoint' | 'targets'>
+): Promise<ApiClient> => {
+  const interceptors = { use: jest.fn(), eject: jest.fn(), clear: jest.fn() };
+  const instance: Pick<AxiosInstance, 'defaults' | 'request' | 'interceptors'> = {
+    defaults: {} as AxiosInstance['defaults'],
+    request,
+    interceptors: { request: interceptors, response: interceptors },
+  };
+  jest.mocked(axios.create).mockImplementation(() => instance as AxiosInstance);
+
+  const appConfig: Pick<AppConfig, 'restorepoint' | 'targets' | 'mcp'> = {
+    ...config,
+    mcp: { serverName: 'Test-Server', version: '1.0.0', logLevel: 'info', maxConcurrentTasks: 10 },
+  };
+  return ApiClient.create(appConfig as AppConfig);
+};
@@ -0,0 +1,138 @@
+/**
+ * Integration Tests for the MCP Streamable HTTP Transport
+ */
+
+import express from 'express';
+import { get as httpGet } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import { McpHttpTransport, MCP_SESSION_HEADER } from '../../src/mcp/http-transport';
+import { MCP_PROTOCOL_VERSION } from '../../src/mcp/json-rpc';
+import { taskManager } from '../../src/utils/async-handler';
+import { taskTracker } from '../../src/utils/task-tracker';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('MCP HTTP transport', () => {
+  const { get, post, client: apiClient } = createApiClientStub();
+
+  let transport: McpHttpTransport;
+  let server: Server;
+
+  beforeEach(done => {
+    post.mockReset();
+    get.mockReset();
+
+    transport = new McpHttpTransport({ getApiClient: () => apiClient });
+    const app = express();
+    app.use(express.json());
+    app.use('/mcp', transport.createRouter());
+    server = app.listen(0, done);
+  });
+
+  afterEach(done => {
+    taskTracker.shutdown();
+    transport.close();
+    server.close(done);
+  });
+
+  const initialize = async (): Promise<string> => {
+    const response = await request(server)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: MCP_PROTOCOL_VERSION, clientInfo: { name: 'test' } } })
+      .expect(200);
+
+    const sessionId = response.headers[MCP_SESSION_HEADER.toLowerCase()];
+    await request(server)
+      .post('/mcp')
+      .set(MCP_SESSION_HEADER, sessionId)
+      .send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      .expect(202);
+
+    return sessionId;
+  };
+
+  /**
+   * Open the SSE stream and collect everything written to it until the server ends it
+   */
+  const openStream = (sessionId: string): Promise<{ response: IncomingMessage; body: Promise<string> }> =>
+    new Promise((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      httpGet({ port, path: '/mcp', headers: { Accept: 'text/event-stream', [MCP_SESSION_HEADER]: sessionId } }, response => {
+        let body = '';
+        response.setEncoding('utf8').on('data', (chunk: string) => {
+          body += chunk;
+        });
+        resolve({ response, body: new Promise(end => response.on('end', () => end(body))) });
+      }).on('error', reject);
+    });
+
+  it('should open a session on initialize', async () => {
+    const response = await request(server)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: MCP_PROTOCOL_VERSION } })
+      .expect(200);
+
+    expect(response.headers[MCP_SESSION_HEADER.toLowerCase()]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.body.result.protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+    expect(transport.getSessionCount()).toBe(1);
+  });
+
+  it('should stream progress for a task started by tools/call', async () => {
+    const sessionId = await initialize();
+    post.mockResolvedValue({ success: true, data: { ID: 5 } });
+
+    const stream = await openStream(sessionId);
+    expect(stream.response.statusCode).toBe(200);
+    expect(stream.response.headers['content-type']).toBe('text/event-stream');
+
+    const call = await request(server)
+      .post('/mcp')
+      .set(MCP_SESSION_HEADER, sessionId)
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'create_backup', arguments: { deviceId: '7' }, _meta: { progressToken: 'backup-7' } } })
+      .expect(200);
+
+    const result = JSON.parse(call.body.result.content[0].text);
+    expect(result.metadata).toMatchObject({ upstreamTaskId: '5' });
+
+    taskManager.updateTaskStatus(result.metadata.taskId, 'running', 'Downloading configuration', 40);
+    taskManager.updateTaskStatus(result.metadata.taskId, 'completed', 'Backup finished', 100);
+
+    await request(server).delete('/mcp').set(MCP_SESSION_HEADER, sessionId).expect(204);
+
+    const events = (await stream.body)
+      .split('\n')
+      .filter(line => line.startsWith('data: '))
+      .map(line => JSON.parse(line.slice('data: '.length)));
+
+    expect(events).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'backup-7', progress: 40, total: 100, message: 'Downloading configuration' } },
+      { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'backup-7', progress: 100, total: 100, message: 'Backup finished' } },
+    ]);
+  });
+
+  it('should end the session on DELETE', async () => {
+    const sessionId = await initialize();
+
+    await request(server).delete('/mcp').set(MCP_SESSION_HEADER, sessionId).expect(204);
+
+    expect(transport.getSessionCount()).toBe(0);
+    await request(server)
+      .post('/mcp')
+      .set(MCP_SESSION_HEADER, sessionId)
+      .send({ jsonrpc: '2.0', id: 3, method: 'tools/list' })
+      .expect(404);
+  });
+
+  it('should reject an unknown or missing session', async () => {
+    const unknown = await request(server)
+      .get('/mcp')
+      .set('Accept', 'text/event-stream')
+      .set(MCP_SESSION_HEADER, 'no-such-session')
+      .expect(404);
+
+    expect(unknown.body.error.data.code).toBe('MCP_INVALID_REQUEST');
+    await request(server).post('/mcp').send({ jsonrpc: '2.0', id: 4, method: 'tools/list' }).expect(400);
+    await request(server).delete('/mcp').set(MCP_SESSION_HEADER, 'no-such-session').expect(404);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for HTTP Access Control
+ */
+
+import type { IncomingHttpHeaders } from 'http';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import { AccessControl } from '../../src/auth/access-control';
+import { DEFAULT_CONFIG } from '../../src/config/types';
+import { RestorepointError } from '../../src/constants/error-codes';
+import { McpToolRegistry } from '../../src/tools/registry';
+import { toolRegistry } from '../../src/tools/index';
+import { runWithContext } from '../../src/utils/request-context';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('AccessControl', () => {
+  const viewerKey = 'viewer-key-0123456789abcdefghijklmnop';
+  const secret = 'jwt-secret-0123456789abcdefghijklmnop';
+  const accessControl = AccessControl.getInstance();
+
+  const headers = (values: Record<string, string>): IncomingHttpHeaders => values;
+  const authError = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return error instanceof RestorepointError ? error.code : undefined;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    accessControl.configure({
+      enabled: true,
+      apiKeys: [{ name: 'noc-dashboard', key: viewerKey, role: 'viewer' }],
+      jwt: { secret, issuer: 'sso', roleClaim: 'roles' },
+      roles: DEFAULT_CONFIG.auth.roles,
+    });
+  });
+
+  it('should authenticate API keys and JWTs and reject bad credentials', () => {
+    const token = jwt.sign({ roles: ['operator'] }, secret, { subject: 'alice', issuer: 'sso', expiresIn: 60 });
+    const expired = jwt.sign({ roles: 'admin', exp: Math.floor(Date.now() / 1000) - 60 }, secret, { subject: 'bob', issuer: 'sso' });
+
+    expect(accessControl.authenticate(headers({ 'x-api-key': viewerKey })))
+      .toEqual({ name: 'noc-dashboard', roles: ['viewer'], method: 'api-key' });
+    expect(accessControl.authenticate(headers({ authorization: `Bearer ${viewerKey}` })).name).toBe('noc-dashboard');
+    expect(accessControl.authenticate(headers({ authorization: `Bearer ${token}` })))
+      .toEqual({ name: 'alice', roles: ['operator'], method: 'jwt' });
+
+    expect(authError(() => accessControl.authenticate(headers({})))).toBe('AUTH_MISSING_TOKEN');
+    expect(authError(() => accessControl.authenticate(headers({ 'x-api-key': 'wrong' })))).toBe('AUTH_INVALID_TOKEN');
+    expect(authError(() => accessControl.authenticate(headers({ authorization: `Bearer ${expired}` })))).toBe('AUTH_TOKEN_EXPIRED');
+    expect(authError(() => accessControl.authenticate(headers({
+      authorization: `Bearer ${jwt.sign({ roles: 'admin' }, secret, { issuer: 'other' })}`,
+    })))).toBe('AUTH_INVALID_TOKEN');
+  });
+
+  it('should match tools by role, pattern and wildcard', () => {
+    const caller = (...roles: string[]) => ({ name: 'caller', roles, method: 'api-key' as const });
+
+    expect(accessControl.isAllowed(undefined, 'delete_device')).toBe(true);
+    expect(accessControl.isAllowed(caller('viewer'), 'list_devices')).toBe(true);
+    expect(accessControl.isAllowed(caller('viewer'), 'execute_command')).toBe(false);
+    expect(accessControl.isAllowed(caller('operator'), 'execute_command')).toBe(true);
+    expect(accessControl.isAllowed(caller('operator'), 'delete_device')).toBe(false);
+    expect(accessControl.isAllowed(caller('admin'), 'restore_backup')).toBe(true);
+    expect(accessControl.isAllowed(caller('unknown'), 'list_devices')).toBe(false);
+  });
+
+  it('should keep unredacted configuration, output and debug log tools from viewers', () => {
+    const caller = (...roles: string[]) => ({ name: 'caller', roles, method: 'api-key' as const });
+
+    for (const tool of ['get_backup_config', 'diff_backups', 'get_agent_debug_log', 'get_command_output', 'diff_command_outputs']) {
+      expect(accessControl.isAllowed(caller('viewer'), tool)).toBe(false);
+    }
+    expect(accessControl.isAllowed(caller('operator'), 'get_command_output')).toBe(true);
+    expect(accessControl.isAllowed(caller('operator'), 'get_backup_config')).toBe(false);
+    expect(accessControl.isAllowed(caller('admin'), 'get_backup_config')).toBe(true);
+  });
+
+  it('should only name registered tools in the built-in roles', () => {
+    const { viewer, operator } = DEFAULT_CONFIG.auth.roles;
+
+    for (const tool of [...viewer, ...operator]) {
+      expect(toolRegistry.has(tool)).toBe(true);
+    }
+  });
+
+  it('should refuse tool calls the caller\'s role does not allow', async () => {
+    const handler = jest.fn(async () => ({ success: true }));
+    const registry = new McpToolRegistry();
+    registry.register({ name: 'delete_device', description: 'Delete a device', inputSchema: z.object({}), handler });
+
+    const viewer = { name: 'noc-dashboard', roles: ['viewer'], method: 'api-key' as const };
+    const apiClient = createApiClientStub().client;
+    const denied = await runWithContext({ caller: viewer }, () => registry.execute('delete_device', {}, apiClient));
+    const local = await registry.execute('delete_device', {}, apiClient);
+
+    expect(denied).toMatchObject({ success: false, error: { code: 'AUTH_UNAUTHORIZED' } });
+    expect(local.success).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for Agent Tools
+ */
+
+import { handleListAgents, handleGetAgent, handleGetAgentDebugLog } from '../../src/tools/agents/index';
+import { AgentSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Agent tools', () => {
+  const { get, client: apiClient } = createApiClientStub();
+
+  beforeEach(() => {
+    get.mockReset();
+  });
+
+  it('should list agents with their connection status', async () => {
+    get.mockResolvedValue({
+      success: true,
+      data: [{ ID: 1, Name: 'dc1', Connected: true }, { ID: 2, Name: 'branch', Connected: false }],
+      metadata: { total: 2 },
+    });
+
+    const result = await handleListAgents(AgentSchemas.listAgents.parse({ status: 'offline', sortBy: 'lastSeen', sortOrder: 'desc' }), apiClient);
+
+    expect(get).toHaveBeenCalledWith('/agents?limit=50&offset=0&sort=-LastSeen&connected=false');
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject([{ status: 'online' }, { status: 'offline' }]);
+    expect(result.metadata).toMatchObject({ total: 2, offline: 1 });
+  });
+
+  it('should include agent info even when debug state is unavailable', async () => {
+    get.mockImplementation(async (endpoint: string) => {
+      if (endpoint === '/agents/2') return { success: true, data: { ID: 2, Connected: true, DeviceIDs: [5, 6] } };
+      if (endpoint === '/agents/2/info') return { success: true, data: { Memory: { Total: 200, Used: 50 } } };
+      throw new Error('Agent did not respond');
+    });
+
+    const result = await handleGetAgent(AgentSchemas.getAgent.parse({ agentId: 2, includeStatus: true }), apiClient);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ deviceCount: 2, info: { memoryUsedPercent: 25 }, debugEnabled: undefined });
+    expect(result.data).not.toHaveProperty('deviceIds');
+  });
+
+  it('should return the filtered tail of the debug log', async () => {
+    get.mockResolvedValue({ success: true, data: 'start\nbackup sw1 failed\nbackup sw2 ok\nbackup sw3 failed\n' });
+
+    const result = await handleGetAgentDebugLog(
+      AgentSchemas.getAgentDebugLog.parse({ agentId: '2', grep: 'FAILED', tailLines: 1 }),
+      apiClient
+    );
+
+    expect(result.data).toMatchObject({ totalLines: 4, matchingLines: 2, lines: ['backup sw3 failed'], truncated: true });
+  });
+});
@@ -146,5 +146,41 @@ describe('TaskManager', () => {
       const count = taskManager.getRunningTaskCount();
       expect(count).toBeGreaterThanOrEqual(2); // Should have at least 2 running tasks
     });
+
+    it('should not count finished tasks against the limit', () => {
+      taskManager.createTask('task-1', 'backup');
+      taskManager.createTask('task-2', 'backup');
+      taskManager.updateTaskStatus('task-2', 'completed');
+
+      expect(taskManager.getRunningTaskCount()).toBe(1);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should notify listeners of creation and status updates', () => {
+      const updates: string[] = [];
+      const unsubscribe = taskManager.subscribe(task => updates.push(`${task.id}:${task.status}`));
+
+      taskManager.createTask('watched-task', 'command');
+      taskManager.updateTaskStatus('watched-task', 'running', 'Working', 40);
+      unsubscribe();
+      taskManager.updateTaskStatus('watched-task', 'completed');
+
+      expect(updates).toEqual(['watched-task:pending', 'watched-task:running']);
+    });
+
+    it('should keep notifying when a listener throws', () => {
+      const received: string[] = [];
+      const unsubscribeFaulty = taskManager.subscribe(() => {
+        throw new Error('listener failure');
+      });
+      const unsubscribe = taskManager.subscribe(task => received.push(task.id));
+
+      taskManager.createTask('resilient-task', 'backup');
+
+      unsubscribeFaulty();
+      unsubscribe();
+      expect(received).toEqual(['resilient-task']);
+    });
   });
-});
\ No newline at end of file
+});
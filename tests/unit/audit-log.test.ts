@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for the Audit Log
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { accessControl } from '../../src/auth/access-control';
+import { DEFAULT_CONFIG } from '../../src/config/types';
+import { auditLog } from '../../src/utils/audit-log';
+import { redactSecrets } from '../../src/utils/helpers';
+import { McpToolRegistry } from '../../src/tools/registry';
+import { handleQueryAuditLog } from '../../src/tools/system/index';
+import { runWithContext } from '../../src/utils/request-context';
+import { SystemSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Audit log', () => {
+  let directory: string;
+  let filePath: string;
+  let registry: McpToolRegistry;
+
+  const readEntries = () => readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'rp-audit-'));
+    filePath = join(directory, 'audit.jsonl');
+    auditLog.configure({ enabled: true, filePath });
+    accessControl.configure({ enabled: true, apiKeys: [], roles: DEFAULT_CONFIG.auth.roles });
+
+    registry = new McpToolRegistry();
+    registry.register({
+      name: 'create_device',
+      description: 'Create a device',
+      inputSchema: z.object({ name: z.string(), credentials: z.object({ username: z.string(), password: z.string() }) }),
+      handler: async () => ({ success: true, data: { id: '42' } }),
+      mutating: true,
+    });
+    registry.register({
+      name: 'list_devices',
+      description: 'List devices',
+      inputSchema: z.object({}),
+      handler: async () => ({ success: true, data: [] }),
+    });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should record audited calls with caller, redacted arguments and outcome', async () => {
+    const caller = { name: 'change-bot', roles: ['admin'], method: 'api-key' as const };
+    const args = { name: 'core-sw1', credentials: { username: 'admin', password: 'hunter2' } };
+
+    const apiClient = createApiClientStub().client;
+
+    await runWithContext({ requestId: 'req-1', caller, clientAddress: '10.1.2.3' }, () => registry.execute('create_device', args, apiClient));
+    await registry.execute('create_device', { ...args, name: undefined, target: 'dr' }, apiClient);
+    await registry.execute('list_devices', {}, apiClient);
+
+    const [created, invalid, ...rest] = readEntries();
+    expect(rest).toHaveLength(0);
+    expect(created).toMatchObject({
+      action: 'create_device', resource: 'default', userId: 'change-bot', ipAddress: '10.1.2.3', requestId: 'req-1', success: true,
+      details: { arguments: { name: 'core-sw1', credentials: { username: 'admin', password: '[REDACTED]' } }, roles: ['admin'] },
+    });
+    expect(created.durationMs).toEqual(expect.any(Number));
+    expect(invalid).toMatchObject({ resource: 'dr', success: false, details: { error: { code: 'VALIDATION_INVALID_INPUT' } } });
+    expect(invalid.userId).toBeUndefined();
+    expect(readFileSync(filePath, 'utf8')).not.toContain('hunter2');
+  });
+
+  it('should filter entries by tool, caller, outcome and time, newest first', async () => {
+    auditLog.record({ action: 'delete_device', resource: 'default', userId: 'alice', success: true });
+    auditLog.record({ action: 'delete_device', resource: 'default', userId: 'bob', success: false });
+    auditLog.record({ action: 'create_backup', resource: 'default', userId: 'alice', success: true });
+
+    const deletes = await handleQueryAuditLog(SystemSchemas.queryAuditLog.parse({ tool: 'delete_device' }));
+    const alice = await handleQueryAuditLog(SystemSchemas.queryAuditLog.parse({ caller: 'alice', success: true, limit: 1 }));
+    const future = await handleQueryAuditLog(SystemSchemas.queryAuditLog.parse({ dateFrom: new Date(Date.now() + 60000).toISOString() }));
+
+    expect(deletes.data).toMatchObject({ total: 2, entries: [{ userId: 'bob' }, { userId: 'alice' }] });
+    expect(alice.data).toMatchObject({ total: 2, entries: [{ action: 'create_backup' }] });
+    expect(alice.message).toBe('2 audit log entries matched, showing the newest 1');
+    expect(future.data).toEqual({ entries: [], total: 0 });
+  });
+
+  it('should redact secrets at any depth', () => {
+    expect(redactSecrets({ snmp: { community: 'public' }, devices: [{ apiKey: 'k', id: 1 }], token: undefined }))
+      .toEqual({ snmp: { community: '[REDACTED]' }, devices: [{ apiKey: '[REDACTED]', id: 1 }], token: undefined });
+    expect(redactSecrets({ PluginFields: [{ Name: 'username', Value: 'admin' }, { Name: 'enablePassword', Value: 'en' }] }))
+      .toEqual({ PluginFields: [{ Name: 'username', Value: 'admin' }, { Name: 'enablePassword', Value: '[REDACTED]' }] });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for Backup Configuration Tool
+ */
+
+import { handleGetBackupConfig, looksBinary } from '../../src/tools/backups/config';
+import { BackupSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('handleGetBackupConfig', () => {
+  const { get, post, client: apiClient } = createApiClientStub();
+
+  const lines = ['hostname sw1', 'interface Gi0/1', ' description uplink &amp; core', 'interface Gi0/2', 'end'];
+  const args = (overrides: Record<string, unknown> = {}) =>
+    BackupSchemas.getBackupConfig.parse({ deviceId: 12, backupId: 7, ...overrides });
+
+  beforeEach(() => {
+    get.mockReset();
+    post.mockReset();
+    get.mockResolvedValue({ success: true, data: { ID: 7, Size: 2048, FileTypes: [{ ConfigType: 'running', FileType: 'txt' }] } });
+    post.mockImplementation(async (endpoint: string) => {
+      const params = new URLSearchParams(endpoint.split('?')[1]);
+      const offset = Number(params.get('offset'));
+      const limit = Number(params.get('limit'));
+      return { success: true, data: { IsList: false, Lines: lines.slice(offset, offset + limit), TotalLines: lines.length } };
+    });
+  });
+
+  it('should return the requested line range decoded', async () => {
+    const result = await handleGetBackupConfig(args({ startLine: 2, endLine: 3 }), apiClient);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      startLine: 2,
+      endLine: 3,
+      totalLines: 5,
+      content: 'interface Gi0/1\n description uplink & core',
+      truncated: true,
+    });
+  });
+
+  it('should return numbered grep matches', async () => {
+    const result = await handleGetBackupConfig(args({ grep: 'INTERFACE' }), apiClient);
+
+    expect(result.data).toMatchObject({
+      totalMatches: 2,
+      matches: [{ line: 2, text: 'interface Gi0/1' }, { line: 4, text: 'interface Gi0/2' }],
+    });
+  });
+
+  it('should stop at the byte limit', async () => {
+    const result = await handleGetBackupConfig(args({ maxBytes: 30 }), apiClient);
+
+    expect(result.data).toMatchObject({ content: 'hostname sw1\ninterface Gi0/1', truncated: true });
+  });
+
+  it('should describe binary archives without returning content', async () => {
+    get.mockResolvedValue({
+      success: true,
+      data: {
+        ID: 7,
+        Size: 4096,
+        FileTypes: [{ ConfigType: 'archive', FileType: 'tgz' }],
+        SHA256Sums: [{ ConfigType: 'archive', SHA256Sum: 'abc123' }],
+      },
+    });
+
+    const result = await handleGetBackupConfig(args({ configType: 'archive' }), apiClient);
+
+    expect(post).not.toHaveBeenCalled();
+    expect(result.data).toEqual(expect.objectContaining({ binary: true, fileType: 'tgz', size: 4096, sha256: 'abc123' }));
+  });
+
+  it('should detect binary content', () => {
+    expect(looksBinary(['abc\u0000def'])).toBe(true);
+    expect(looksBinary(['plain text\tconfig'])).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for Backup Diff Tool
+ */
+
+import { handleDiffBackups } from '../../src/tools/backups/diff';
+import { BackupSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('handleDiffBackups', () => {
+  const { get, post, client: apiClient } = createApiClientStub();
+
+  const configs: Record<string, string[]> = {
+    '/devices/12/backups/30/config': ['hostname sw1', 'ntp server 10.0.0.1'],
+    '/devices/12/backups/31/config': ['hostname sw1', 'ntp server 10.0.0.2'],
+  };
+
+  beforeEach(() => {
+    get.mockReset();
+    post.mockReset();
+    get.mockResolvedValue({ success: true, data: [{ ID: 31 }, { ID: 30 }, { ID: 29 }] });
+  });
+
+  it('should compare the latest backup with the previous one on the appliance', async () => {
+    post.mockResolvedValue({ success: true, data: { Diff: '2c2\n< ntp server 10.0.0.1\n---\n> ntp server 10.0.0.2\n', Total: 2 } });
+
+    const result = await handleDiffBackups(BackupSchemas.diffBackups.parse({ deviceId: 12 }), apiClient);
+
+    expect(post).toHaveBeenCalledWith('/devices/backups/diff', expect.objectContaining({
+      Backups: [{ DeviceID: 12, BackupID: 30 }, { DeviceID: 12, BackupID: 31 }],
+    }));
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      base: { deviceId: '12', backupId: '30' },
+      target: { deviceId: '12', backupId: '31' },
+      format: 'appliance',
+      summary: { added: 1, removed: 1 },
+    });
+  });
+
+  it('should fall back to a local diff when the appliance diff fails', async () => {
+    post.mockImplementation(async (endpoint: string) => {
+      if (endpoint === '/devices/backups/diff') throw new Error('Service unavailable');
+      const lines = configs[endpoint.split('?')[0]!]!;
+      return { success: true, data: { IsList: false, Lines: lines, TotalLines: lines.length } };
+    });
+
+    const result = await handleDiffBackups(
+      BackupSchemas.diffBackups.parse({ deviceId: 12, backupId: 31, compareBackupId: 30 }),
+      apiClient
+    );
+
+    expect(get).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      format: 'unified',
+      fallbackReason: 'Service unavailable',
+      summary: { addedLines: ['ntp server 10.0.0.2'], removedLines: ['ntp server 10.0.0.1'] },
+    });
+  });
+
+  it('should fail when there is no earlier backup', async () => {
+    get.mockResolvedValue({ success: true, data: [{ ID: 31 }] });
+
+    const result = await handleDiffBackups(BackupSchemas.diffBackups.parse({ deviceId: 12 }), apiClient);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('BACKUP_NOT_FOUND');
+  });
+});
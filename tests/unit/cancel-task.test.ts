@@ -0,0 +1,56 @@
+/**
+ * Unit Tests for Task Cancellation
+ */
+
+import { handleCancelTask } from '../../src/tools/commands/tasks';
+import { taskManager } from '../../src/utils/async-handler';
+import { taskTracker } from '../../src/utils/task-tracker';
+import { RestorepointError } from '../../src/constants/error-codes';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('cancel_task', () => {
+  const { get, delete: del, client: apiClient } = createApiClientStub();
+
+  beforeEach(() => {
+    get.mockReset();
+    del.mockReset();
+  });
+
+  afterEach(() => {
+    taskTracker.shutdown();
+  });
+
+  it('should cancel the upstream job of a local task and mark it cancelled', async () => {
+    const task = taskTracker.track(apiClient, '91', { type: 'command', pollIntervalMs: 60000 });
+    del.mockResolvedValue({ success: true });
+    get.mockResolvedValue({ success: true, data: { ID: 91, Status: 'Stopped' } });
+
+    const result = await handleCancelTask({ taskId: task!.id }, apiClient);
+
+    expect(del).toHaveBeenCalledWith('/jobs/91');
+    expect(result.data).toMatchObject({ localTaskId: task!.id, jobId: '91', confirmed: true, status: 'cancelled' });
+    expect(taskManager.getTask(task!.id)?.status).toBe('cancelled');
+    expect(taskTracker.getTrackedCount()).toBe(0);
+  });
+
+  it('should accept an upstream job ID and report unknown jobs', async () => {
+    del.mockRejectedValue(new RestorepointError('DEVICE_NOT_FOUND', 'Resource not found', 404));
+
+    const result = await handleCancelTask({ taskId: '404' }, apiClient);
+
+    expect(del).toHaveBeenCalledWith('/jobs/404');
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('TASK_NOT_FOUND');
+  });
+
+  it('should refuse to cancel a task that already finished', async () => {
+    const task = taskTracker.track(apiClient, '92', { type: 'backup', pollIntervalMs: 60000 });
+    taskManager.updateTaskStatus(task!.id, 'completed');
+
+    const result = await handleCancelTask({ taskId: '92' }, apiClient);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('already finished');
+    expect(del).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for Circuit Breaker
+ */
+
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { ERROR_CODES, RestorepointError } from '../../src/constants/error-codes';
+
+describe('CircuitBreaker', () => {
+  const networkError = () => new RestorepointError(ERROR_CODES.NETWORK_CONNECTION_FAILED, 'connect ECONNREFUSED');
+  const notFound = () => new RestorepointError(ERROR_CODES.DEVICE_NOT_FOUND, 'Resource not found', 404);
+
+  const createBreaker = () => new CircuitBreaker('Restorepoint API', {
+    failureThreshold: 2,
+    resetTimeoutMs: 1000,
+    isFailure: error => error instanceof RestorepointError && error.code.startsWith('NETWORK_'),
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after consecutive network failures and fail fast while open', async () => {
+    const breaker = createBreaker();
+    const upstream = jest.fn().mockRejectedValue(networkError());
+
+    await expect(breaker.execute(upstream)).rejects.toThrow('ECONNREFUSED');
+    await expect(breaker.execute(jest.fn().mockRejectedValue(notFound()))).rejects.toThrow('Resource not found');
+    expect(breaker.getState()).toMatchObject({ state: 'CLOSED', failureCount: 0 });
+
+    await expect(breaker.execute(upstream)).rejects.toThrow('ECONNREFUSED');
+    await expect(breaker.execute(upstream)).rejects.toThrow('ECONNREFUSED');
+    expect(breaker.getState()).toMatchObject({ state: 'OPEN', failureCount: 2 });
+
+    const rejected = await breaker.execute(upstream).catch(error => error);
+    expect(rejected).toBeInstanceOf(RestorepointError);
+    expect(rejected).toMatchObject({ code: ERROR_CODES.NETWORK_UNAVAILABLE });
+    expect(CircuitBreaker.isOpenCircuitError(rejected)).toBe(true);
+    expect(upstream).toHaveBeenCalledTimes(3);
+  });
+
+  it('should half-open on a timer and close or re-open on the trial call', async () => {
+    const breaker = createBreaker();
+    const failing = jest.fn().mockRejectedValue(networkError());
+    await breaker.execute(failing).catch(() => undefined);
+    await breaker.execute(failing).catch(() => undefined);
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.getState().state).toBe('HALF_OPEN');
+
+    await expect(breaker.execute(failing)).rejects.toThrow('ECONNREFUSED');
+    expect(breaker.getState().state).toBe('OPEN');
+
+    jest.advanceTimersByTime(1000);
+    await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+    expect(breaker.getState()).toMatchObject({ state: 'CLOSED', failureCount: 0, nextAttemptTime: undefined });
+  });
+});
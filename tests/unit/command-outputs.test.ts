@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for Command Output Tools
+ */
+
+import { handleGetCommandOutput, handleListCommandOutputs, handleDiffCommandOutputs } from '../../src/tools/commands/outputs';
+import { handleExecuteCommand } from '../../src/tools/commands/index';
+import { taskManager } from '../../src/utils/async-handler';
+import { CommandSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Command output tools', () => {
+  const { get, post, client: apiClient } = createApiClientStub();
+
+  beforeEach(() => {
+    get.mockReset();
+    post.mockReset();
+  });
+
+  it('should page through a device output from a run', async () => {
+    get.mockImplementation(async (endpoint: string) => {
+      if (endpoint === '/commands/outputs/grouped/9') {
+        return { success: true, data: { CommandOutputGroupID: 9, DeviceIDs: [3, 4], CommandOutputIDs: [30, 40] } };
+      }
+      return { success: true, data: { ID: 40, DeviceID: 4, DeviceName: 'sw2', Output: 'line 1\nline 2\nline 3\n' } };
+    });
+
+    const result = await handleGetCommandOutput(
+      CommandSchemas.getCommandOutput.parse({ groupId: 9, deviceId: 4, maxLines: 2 }),
+      apiClient
+    );
+
+    expect(get).toHaveBeenCalledWith('/commands/outputs/40');
+    expect(result.data).toMatchObject({
+      outputId: '40', deviceName: 'sw2', totalLines: 3, startLine: 1, endLine: 2,
+      content: 'line 1\nline 2', truncated: true, nextStartLine: 3,
+    });
+  });
+
+  it('should list runs with the output of each device', async () => {
+    get.mockResolvedValue({
+      success: true,
+      data: [
+        { CommandOutputGroupID: 9, CommandID: 1, DeviceIDs: [3, 4], DeviceNames: ['sw1', 'sw2'], CommandOutputIDs: [30, 40], Output: 'x' },
+        { CommandOutputGroupID: 8, CommandID: 2, DeviceIDs: [5], DeviceNames: ['fw1'], CommandOutputIDs: [20], Output: 'y' },
+      ],
+      metadata: { total: 2 },
+    });
+
+    const result = await handleListCommandOutputs(CommandSchemas.listCommandOutputs.parse({ commandId: 1 }), apiClient);
+
+    expect(get).toHaveBeenCalledWith('/commands/outputs/grouped?offset=0&limit=20&sort=-Created');
+    expect(result.data).toEqual([expect.objectContaining({
+      groupId: 9,
+      devices: [{ deviceId: 3, deviceName: 'sw1', outputId: 30 }, { deviceId: 4, deviceName: 'sw2', outputId: 40 }],
+    })]);
+  });
+
+  it('should compare the two latest outputs locally when the appliance diff fails', async () => {
+    get.mockImplementation(async (endpoint: string) => {
+      if (endpoint.startsWith('/commands/outputs?')) return { success: true, data: [{ ID: 41 }, { ID: 31 }] };
+      if (endpoint === '/commands/outputs/31') return { success: true, data: { ID: 31, Output: 'S 10.0.0.0/8\nC 192.168.1.0/24' } };
+      return { success: true, data: { ID: 41, Output: 'S 10.0.0.0/8\nC 192.168.2.0/24' } };
+    });
+    post.mockRejectedValue(new Error('diff unavailable'));
+
+    const result = await handleDiffCommandOutputs(
+      CommandSchemas.diffCommandOutputs.parse({ commandId: 1, deviceId: 3 }),
+      apiClient
+    );
+
+    expect(post).toHaveBeenCalledWith('/commands/outputs/diff', { CommandOutputID1: 31, CommandOutputID2: 41 });
+    expect(result.data).toMatchObject({
+      base: { kind: 'output', id: '31' },
+      target: { kind: 'output', id: '41' },
+      format: 'unified',
+      summary: { added: 1, removed: 1, addedLines: ['C 192.168.2.0/24'] },
+      fallbackReason: 'diff unavailable',
+    });
+  });
+
+  it('should compare two runs locally device by device', async () => {
+    const runs: Record<string, object> = {
+      '/commands/outputs/grouped/8': { CommandOutputGroupID: 8, DeviceIDs: [3, 4], DeviceNames: ['sw1', 'sw2'], CommandOutputIDs: [31, 41] },
+      '/commands/outputs/grouped/9': { CommandOutputGroupID: 9, DeviceIDs: [3, 5], DeviceNames: ['sw1', 'fw1'], CommandOutputIDs: [32, 52] },
+    };
+    const outputs: Record<string, string> = {
+      '31': 'S 10.0.0.0/8\nC 192.168.1.0/24',
+      '32': 'S 10.0.0.0/8\nC 192.168.2.0/24',
+      '41': 'S 10.0.0.0/8',
+      '52': 'S 172.16.0.0/12',
+    };
+    get.mockImplementation(async (endpoint: string) => {
+      const run = runs[endpoint];
+      if (run) return { success: true, data: run };
+      const id = endpoint.replace('/commands/outputs/', '');
+      return { success: true, data: { ID: Number(id), Output: outputs[id] } };
+    });
+
+    const result = await handleDiffCommandOutputs(
+      CommandSchemas.diffCommandOutputs.parse({ groupId: 9, compareGroupId: 8, mode: 'local' }),
+      apiClient
+    );
+
+    expect(post).not.toHaveBeenCalled();
+    expect(result.data).toMatchObject({
+      base: { kind: 'group', id: '8' },
+      target: { kind: 'group', id: '9' },
+      identical: false,
+      format: 'unified',
+      summary: { added: 2, removed: 2 },
+      devices: [
+        { deviceId: '3', deviceName: 'sw1', baseOutputId: '31', targetOutputId: '32', added: 1, removed: 1 },
+        { deviceId: '5', deviceName: 'fw1', targetOutputId: '52', added: 1, removed: 0 },
+        { deviceId: '4', deviceName: 'sw2', baseOutputId: '41', added: 0, removed: 1 },
+      ],
+    });
+    expect((result.data as { diff: string }).diff).toContain('+++ run 9 sw1 (3)');
+  });
+
+  it('should wait for an executed command and return what it printed', async () => {
+    post.mockResolvedValue({ success: true, data: { ID: 77 } });
+    get.mockImplementation(async (endpoint: string) => {
+      if (endpoint === '/tasks/77') return { success: true, data: { Status: 'Done', Progress: 100 } };
+      return { success: true, data: [{ ID: 50, DeviceID: 3, DeviceName: 'sw1', Output: 'Version 15.2\n' }] };
+    });
+
+    const result = await handleExecuteCommand(
+      CommandSchemas.executeCommand.parse({ deviceId: 3, command: 'show version', wait: { pollIntervalMs: 250 } }),
+      apiClient
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      task: { status: 'completed', upstreamTaskId: '77', timedOut: false },
+      outputs: [{ outputId: 50, deviceName: 'sw1', output: 'Version 15.2', truncated: false }],
+    });
+    expect(get).toHaveBeenCalledWith(expect.stringMatching(/^\/commands\/outputs\?created_after=.*&deviceid%5B%5D=3$/));
+  });
+
+  it('should return the started job without waiting when the task limit fills during the request', async () => {
+    const fillers: string[] = [];
+    post.mockImplementation(async () => {
+      while (taskManager.hasCapacity()) {
+        fillers.push(taskManager.createTask(`filler_${fillers.length}`, 'command').id);
+      }
+      return { success: true, data: { ID: 78 } };
+    });
+
+    try {
+      const result = await handleExecuteCommand(
+        CommandSchemas.executeCommand.parse({ deviceId: 3, command: 'show version', wait: { pollIntervalMs: 250 } }),
+        apiClient
+      );
+
+      expect(result).toMatchObject({ success: true, data: { ID: 78 }, message: expect.stringContaining('upstream job 78; not waiting') });
+      expect(get).not.toHaveBeenCalled();
+    } finally {
+      fillers.forEach(id => taskManager.cancelTask(id) && taskManager.deleteTask(id));
+    }
+  });
+});
+
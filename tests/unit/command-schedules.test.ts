@@ -0,0 +1,66 @@
+/**
+ * Unit Tests for Command Schedule Tools
+ */
+
+import { handleScheduleCommand, handleDeleteCommandSchedule } from '../../src/tools/commands/schedules';
+import { CommandSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Command schedule tools', () => {
+  const { get, post, delete: del, client: apiClient } = createApiClientStub();
+
+  beforeEach(() => {
+    get.mockReset();
+    post.mockReset();
+    del.mockReset();
+  });
+
+  it('should reject invalid schedule expressions during validation', () => {
+    const result = CommandSchemas.scheduleCommand.safeParse({ commandId: '1', deviceIds: ['2'], schedule: '0 25 * * *' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should preview the next five runs without creating the schedule', async () => {
+    const result = await handleScheduleCommand(
+      CommandSchemas.scheduleCommand.parse({ commandId: '7', deviceIds: ['3'], schedule: '0 2 * * *' }),
+      apiClient
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      committed: false,
+      preview: { type: 'Scheduled', schedule: '0 0 2 * * * *', nextRuns: Array(5).fill(expect.any(String)) },
+    });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('should create the schedule once confirmed', async () => {
+    post.mockResolvedValue({ success: true, data: { ID: 11 } });
+
+    const result = await handleScheduleCommand(
+      CommandSchemas.scheduleCommand.parse({
+        commandId: '7', deviceIds: ['3', '4'], schedule: '30 1 * * sat', keepLast: 3, confirm: true,
+      }),
+      apiClient
+    );
+
+    expect(post).toHaveBeenCalledWith('/commands/7/schedules', {
+      CommandID: 7, DeviceIDs: [3, 4], Type: 'Scheduled', Schedule: '0 30 1 * * sat *', KeepLast: 3,
+    });
+    expect(result.data).toMatchObject({ committed: true, schedule: { ID: 11 } });
+  });
+
+  it('should require confirmation before deleting a schedule', async () => {
+    get.mockResolvedValue({ success: true, data: { ID: 11, CommandName: 'show version' } });
+
+    const result = await handleDeleteCommandSchedule(
+      CommandSchemas.deleteCommandSchedule.parse({ commandId: '7', scheduleId: '11' }),
+      apiClient
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('show version');
+    expect(del).not.toHaveBeenCalled();
+  });
+});
@@ -63,6 +63,40 @@ describe('ConfigManager', () => {
       expect(result.errors).toHaveLength(0);
     });
 
+    it('should reject duplicate and reserved target names', () => {
+      const target = { serverUrl: 'https://rp-lab.example.com', token: 'lab-token' };
+      const config = (targets: unknown[]) => ({
+        restorepoint: { serverUrl: 'https://restorepoint.example.com', token: 'test-token' },
+        mcp: { serverName: 'Test-Server', version: '1.0.0' },
+        targets,
+      });
+
+      expect(configManager.validateConfig(config([{ ...target, name: 'lab' }])).isValid).toBe(true);
+      expect(configManager.validateConfig(config([{ ...target, name: 'lab' }, { ...target, name: 'lab' }])).errors)
+        .toEqual(['targets: Target names must be unique']);
+      expect(configManager.validateConfig(config([{ ...target, name: 'default' }])).errors)
+        .toEqual(['targets.0.name: Target name "default" is reserved for the restorepoint section']);
+    });
+
+    it('should require credentials and known roles when authentication is enabled', () => {
+      const key = 'k'.repeat(32);
+      const config = (auth: unknown) => ({
+        restorepoint: { serverUrl: 'https://restorepoint.example.com', token: 'test-token' },
+        mcp: { serverName: 'Test-Server', version: '1.0.0' },
+        auth,
+      });
+
+      expect(configManager.validateConfig(config({ enabled: true, apiKeys: [{ name: 'ci', key, role: 'operator' }] })).isValid).toBe(true);
+      expect(configManager.validateConfig(config({ enabled: true })).errors)
+        .toEqual(['auth: Authentication needs at least one API key or a jwt section']);
+      expect(configManager.validateConfig(config({ apiKeys: [{ name: 'ci', key, role: 'auditor' }] })).errors)
+        .toEqual(['auth.apiKeys.0.role: Unknown role: auditor']);
+      expect(configManager.validateConfig(config({
+        apiKeys: [{ name: 'ci', key, role: 'auditor' }],
+        roles: { auditor: ['list_jobs'] },
+      })).isValid).toBe(true);
+    });
+
     it('should reject missing required sections', () => {
       const invalidConfig = {
         restorepoint: {
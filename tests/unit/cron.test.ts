@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for Schedule Expressions
+ */
+
+import { parseCronExpression, isValidCronExpression, getNextRuns } from '../../src/utils/cron';
+
+describe('Schedule expressions', () => {
+  const from = new Date('2024-06-01T10:30:00Z'); // Saturday
+
+  it('should normalize five-part expressions to the Restorepoint form', () => {
+    expect(parseCronExpression('30 2 * * mon-fri').normalized).toBe('0 30 2 * * mon-fri *');
+    expect(parseCronExpression('0 0 4 * * 1 *').normalized).toBe('0 0 4 * * 1 *');
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(isValidCronExpression('60 * * * *')).toBe(false);
+    expect(isValidCronExpression('* * *')).toBe(false);
+    expect(isValidCronExpression('0 5-1 * * *')).toBe(false);
+    expect(() => parseCronExpression('0 0 * foo *')).toThrow("month value 'foo'");
+  });
+
+  it('should compute upcoming runs in UTC', () => {
+    expect(getNextRuns('*/15 10 * * *', 3, from).map(run => run.toISOString())).toEqual([
+      '2024-06-01T10:45:00.000Z',
+      '2024-06-02T10:00:00.000Z',
+      '2024-06-02T10:15:00.000Z',
+    ]);
+    expect(getNextRuns('0 3 * * mon', 2, from).map(run => run.toISOString())).toEqual([
+      '2024-06-03T03:00:00.000Z',
+      '2024-06-10T03:00:00.000Z',
+    ]);
+  });
+
+  it('should match either day field when both are restricted and honour week steps', () => {
+    expect(getNextRuns('0 0 15 * sun', 2, from).map(run => run.toISOString())).toEqual([
+      '2024-06-02T00:00:00.000Z',
+      '2024-06-09T00:00:00.000Z',
+    ]);
+    expect(getNextRuns('0 0 4 * * 1/2 *', 2, from).map(run => run.toISOString())).toEqual([
+      '2024-06-03T04:00:00.000Z',
+      '2024-06-17T04:00:00.000Z',
+    ]);
+  });
+
+  it('should accept 7 as Sunday', () => {
+    expect(parseCronExpression('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+    expect(parseCronExpression('0 0 * * fri-7').daysOfWeek).toEqual(new Set([5, 6, 0]));
+    expect(getNextRuns('0 0 * * 7/2', 2, from).map(run => run.toISOString())).toEqual([
+      '2024-06-02T00:00:00.000Z',
+      '2024-06-16T00:00:00.000Z',
+    ]);
+  });
+
+  it('should step through weekdays when the day-of-week step follows a wildcard or range', () => {
+    const everyOtherDay = parseCronExpression('0 0 * * */2');
+    expect(everyOtherDay.weekInterval).toBe(1);
+    expect(everyOtherDay.daysOfWeek).toEqual(new Set([0, 2, 4, 6]));
+    expect(parseCronExpression('0 0 * * 1-5/2').daysOfWeek).toEqual(new Set([1, 3, 5]));
+    expect(getNextRuns('0 0 * * */2', 3, from).map(run => run.toISOString())).toEqual([
+      '2024-06-02T00:00:00.000Z',
+      '2024-06-04T00:00:00.000Z',
+      '2024-06-06T00:00:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for the Device Connection Test
+ */
+
+import { handleTestDeviceConnection } from '../../src/tools/devices/connection-test';
+import { handleCreateDevice } from '../../src/tools/devices/crud';
+import { DeviceSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Device connection test', () => {
+  const credentials = { username: 'admin', password: 'secret' };
+  const fingerprint = { data: [{ Test: 'sshbanner', Title: 'SSH banner', Result: 'SSH-2.0-Cisco-1.25' }] };
+
+  const createApiClient = (responses: Record<string, unknown>) => {
+    const stub = createApiClientStub();
+    stub.get.mockImplementation(async () => ({ success: true, data: responses['/devices/7'] }));
+    stub.post.mockImplementation(async (endpoint: string) => {
+      const data = responses[endpoint];
+      if (data instanceof Error) {
+        throw data;
+      }
+      return { success: true, data };
+    });
+    return stub;
+  };
+
+  it('should resolve, ping, fingerprint and log in to a proposed device', async () => {
+    const { post, client } = createApiClient({
+      '/network/resolve': { Result: 'Success', Message: '10.0.0.1' },
+      '/network/ping': { Result: 'Error', Message: '100% packet loss' },
+      '/network/fingerprint': fingerprint,
+      '/devices/test': { Result: 'Login successful', IsError: false, Log: 'connected\n' },
+    });
+
+    const result = await handleTestDeviceConnection(
+      DeviceSchemas.testDeviceConnection.parse({ type: 'cisco-ios', hostname: 'core-sw1.example.com', credentials }),
+      client
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ passed: true, address: 'core-sw1.example.com', resolvedAddress: '10.0.0.1', protocol: 'SSH' });
+    expect(result.data).toMatchObject({
+      steps: [
+        { step: 'dns', status: 'passed' },
+        { step: 'reachability', status: 'warning' },
+        { step: 'port', status: 'passed' },
+        { step: 'login', status: 'passed' },
+      ],
+    });
+    expect(post).toHaveBeenLastCalledWith('/devices/test', expect.objectContaining({
+      Address: 'core-sw1.example.com',
+      PluginFields: expect.arrayContaining([{ Name: 'username', Value: 'admin' }]),
+    }), expect.anything());
+  });
+
+  it('should report a failed login for an existing device with replacement credentials', async () => {
+    const { post, client } = createApiClient({
+      '/devices/7': { PluginKey: 'ciscoios', Address: '10.0.0.7', Protocol: 'ssh', PluginFields: [{ Name: 'username', Value: 'old' }] },
+      '/network/ping': { Result: 'Success', Message: '0% packet loss' },
+      '/network/fingerprint': fingerprint,
+      '/devices/test': { Result: 'Authentication failed', IsError: true, Log: 'login as admin\naccess denied\n' },
+    });
+
+    const result = await handleTestDeviceConnection(
+      DeviceSchemas.testDeviceConnection.parse({ deviceId: '7', credentials }),
+      client
+    );
+
+    expect(result.data).toMatchObject({
+      deviceId: '7',
+      passed: false,
+      steps: [
+        { step: 'dns', status: 'skipped' },
+        {},
+        {},
+        { step: 'login', status: 'failed', details: { logTail: 'login as admin\naccess denied' } },
+      ],
+    });
+    expect(result.message).toBe('Connection test failed at the login step: Login failed: Authentication failed');
+  });
+
+  it('should not create a device whose connection test fails when testFirst is set', async () => {
+    const { post, client } = createApiClient({
+      '/network/ping': { Result: 'Success', Message: '0% packet loss' },
+      '/network/fingerprint': { data: [{ Test: 'sshbanner', Error: 'Connection refused' }] },
+    });
+
+    const result = await handleCreateDevice(
+      DeviceSchemas.createDevice.parse({ name: 'core-sw1', type: 'cisco-ios', ipAddress: '10.0.0.1', credentials, testFirst: true }),
+      client
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'DEVICE_CONNECTION_FAILED', message: expect.stringContaining('port step') });
+    expect(result.error?.details).toMatchObject({
+      connectionTest: { steps: [{ status: 'skipped' }, { status: 'passed' }, { status: 'failed' }, { status: 'skipped' }] },
+    });
+    expect(post).not.toHaveBeenCalledWith('/devices', expect.anything(), expect.anything());
+    expect(post).not.toHaveBeenCalledWith('/devices/test', expect.anything(), expect.anything());
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for Dry-Run Tool Calls
+ */
+
+import { ApiClient } from '../../src/auth/api-client';
+import { toolRegistry } from '../../src/tools/index';
+import { createApiClients } from '../helpers/api-client-stub';
+
+describe('Dry run', () => {
+  const request = jest.fn();
+  const credentials = { username: 'admin', password: 'hunter2' };
+
+  beforeAll(async () => {
+    await createApiClients(request, {
+      restorepoint: {
+        serverUrl: 'https://rp.example.com',
+        apiVersion: 'v2',
+        token: 'test-token',
+        timeout: 30000,
+        retryAttempts: 0,
+        retryDelay: 1000,
+        circuitBreaker: { failureThreshold: 5, resetTimeout: 30000 },
+      },
+      targets: [],
+    });
+  });
+
+  beforeEach(() => {
+    ApiClient.getInstance().initializeToken();
+    request.mockReset().mockImplementation(async ({ method, url }: { method: string; url: string }) => {
+      if (method === 'GET' && url === '/devices/42') {
+        return { status: 200, data: { ID: 42, Name: 'core-sw1', Address: '10.0.0.1' } };
+      }
+      if (method === 'GET') {
+        return { status: 404, data: { message: 'Device not found' } };
+      }
+      throw new Error(`Unexpected ${method} ${url}`);
+    });
+  });
+
+  it('should return the masked upstream request instead of creating a device', async () => {
+    const result = await toolRegistry.execute('create_device', {
+      name: 'core-sw1', type: 'cisco-ios', ipAddress: '10.0.0.1', credentials, dryRun: true,
+    }, ApiClient.getInstance());
+
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        dryRun: true,
+        tool: 'create_device',
+        target: 'default',
+        request: {
+          method: 'POST',
+          url: 'https://rp.example.com/api/v2/devices',
+          body: { Address: '10.0.0.1', PluginFields: expect.arrayContaining([{ Name: 'password', Value: '[REDACTED]' }]) },
+        },
+      },
+    });
+    expect(JSON.stringify(result)).not.toContain('hunter2');
+    expect(request).not.toHaveBeenCalled();
+    expect(toolRegistry.get('create_device')?.inputSchema.properties).toHaveProperty('dryRun.type', 'boolean');
+    expect(toolRegistry.get('list_devices')?.inputSchema.properties).not.toHaveProperty('dryRun');
+  });
+
+  it('should resolve the affected devices and fail the plan for unknown ones', async () => {
+    const planned = await toolRegistry.execute('delete_device', { deviceId: '42', dryRun: true }, ApiClient.getInstance());
+    const unknown = await toolRegistry.execute('delete_device', { deviceId: '99', dryRun: true }, ApiClient.getInstance());
+
+    expect(planned.data).toMatchObject({
+      request: { method: 'DELETE', url: 'https://rp.example.com/api/v2/devices/42?force=false' },
+      devices: [{ id: '42', found: true, name: 'core-sw1', address: '10.0.0.1' }],
+    });
+    expect(unknown).toMatchObject({ success: false, error: { code: 'DEVICE_NOT_FOUND', details: { dryRun: true } } });
+    expect(request.mock.calls.map(([config]) => config.method)).toEqual(['GET', 'GET']);
+  });
+
+  it('should report validation failures without planning a request', async () => {
+    const invalidType = await toolRegistry.execute('create_device', {
+      name: 'core-sw1', type: 'toaster', ipAddress: '10.0.0.1', credentials, dryRun: true,
+    }, ApiClient.getInstance());
+    const invalidFlag = await toolRegistry.execute('create_backup', { deviceId: '42', dryRun: 'yes' }, ApiClient.getInstance());
+
+    expect(invalidType.success).toBe(false);
+    expect(invalidType.data).toBeUndefined();
+    expect(invalidFlag.error).toMatchObject({ code: 'VALIDATION_INVALID_INPUT', message: expect.stringContaining('dryRun') });
+    expect(request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for Job Dashboard Tools
+ */
+
+import { handleListJobs, handleListJobHistory, summarizeJobQueue, toJobSummary } from '../../src/tools/jobs/index';
+import { JobSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Job tools', () => {
+  const { get, client: apiClient } = createApiClientStub();
+
+  beforeEach(() => {
+    get.mockReset();
+  });
+
+  it('should summarize jobs as a task queue', () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+    const jobs = [
+      { ID: 1, Status: 'Pending', Created: '2024-06-01T11:59:00Z' },
+      { ID: 2, Status: 'Running', Created: '2024-06-01T11:00:00Z', Duration: 4e9 },
+      { ID: 3, Status: 'Error', Duration: 2e9, Messages: ['connect', 'timeout'] },
+    ].map(toJobSummary);
+
+    expect(jobs[2]).toMatchObject({ status: 'failed', durationMs: 2000, lastMessage: 'timeout' });
+    expect(summarizeJobQueue('active', jobs, now)).toEqual({
+      name: 'active', size: 3, processing: 1, completed: 0, failed: 1,
+      averageWaitTime: 60000, averageProcessTime: 3000, timestamp: now.toISOString(),
+    });
+  });
+
+  it('should filter running jobs by type, device and user', async () => {
+    get.mockResolvedValue({
+      success: true,
+      data: [
+        { ID: 1, Type: 'Backup', DeviceID: 3, User: 'admin', Status: 'Running' },
+        { ID: 2, Type: 'Backup', DeviceID: 4, User: 'admin', Status: 'Running' },
+        { ID: 3, Type: 'Restore', DeviceID: 3, User: 'ops', Status: 'Pending' },
+      ],
+    });
+
+    const result = await handleListJobs(JobSchemas.listJobs.parse({ type: 'backup', deviceId: 3, user: 'ADMIN' }), apiClient);
+
+    expect(get).toHaveBeenCalledWith('/jobs?offset=0&limit=500&sort=-Created');
+    expect(result.data).toMatchObject({
+      jobs: [{ id: '1' }],
+      queue: { name: 'active', size: 1, processing: 1 },
+    });
+  });
+
+  it('should stop paging history once jobs are older than the time range', async () => {
+    const page = Array.from({ length: 500 }, (_, index) => ({
+      ID: index, Status: 'Done', Created: new Date(Date.UTC(2024, 5, 1) - index * 60000).toISOString(),
+    }));
+    get.mockResolvedValue({ success: true, data: page, metadata: { total: 5000 } });
+
+    const result = await handleListJobHistory(
+      JobSchemas.listJobHistory.parse({ dateFrom: '2024-05-31T23:00:00Z', limit: 100 }),
+      apiClient
+    );
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(result.metadata).toMatchObject({ matched: 61, returned: 61, hasMore: false });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for MCP Protocol Handler
+ */
+
+import { McpProtocolHandler } from '../../src/mcp/protocol-handler';
+import { JSON_RPC_ERROR_CODES, MCP_PROTOCOL_VERSION, toJsonRpcError } from '../../src/mcp/json-rpc';
+import { RestorepointError } from '../../src/constants/error-codes';
+
+describe('McpProtocolHandler', () => {
+  let handler: McpProtocolHandler;
+
+  beforeEach(() => {
+    handler = new McpProtocolHandler({ getApiClient: () => null });
+  });
+
+  describe('initialize', () => {
+    it('should return protocol version and tool capabilities', async () => {
+      const response: any = await handler.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: MCP_PROTOCOL_VERSION, clientInfo: { name: 'test' } },
+      });
+
+      expect(response.id).toBe(1);
+      expect(response.result.protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+      expect(response.result.capabilities.tools).toBeDefined();
+    });
+  });
+
+  describe('tools/list', () => {
+    it('should list the registered tools', async () => {
+      const response: any = await handler.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+      const names = response.result.tools.map((tool: any) => tool.name);
+      expect(names).toContain('list_devices');
+      expect(names).toContain('execute_command');
+    });
+  });
+
+  describe('tools/call', () => {
+    it('should report unknown tools as invalid params', async () => {
+      const response: any = await handler.handleMessage({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'no_such_tool', arguments: {} },
+      });
+
+      expect(response.error.code).toBe(JSON_RPC_ERROR_CODES.INVALID_PARAMS);
+      expect(response.error.data.code).toBe('MCP_TOOL_NOT_FOUND');
+    });
+  });
+
+  describe('error handling', () => {
+    it('should return a parse error for invalid JSON', async () => {
+      const response: any = await handler.handleRawMessage('{not json');
+
+      expect(response.id).toBeNull();
+      expect(response.error.code).toBe(JSON_RPC_ERROR_CODES.PARSE_ERROR);
+    });
+
+    it('should return method not found for unknown methods', async () => {
+      const response: any = await handler.handleMessage({ jsonrpc: '2.0', id: 4, method: 'resources/list' });
+
+      expect(response.error.code).toBe(JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND);
+    });
+
+    it('should not respond to notifications', async () => {
+      const response = await handler.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+      expect(response).toBeNull();
+      expect(handler.isInitialized()).toBe(true);
+    });
+  });
+
+  describe('toJsonRpcError', () => {
+    it('should map MCP error codes to JSON-RPC codes', () => {
+      const error = toJsonRpcError(new RestorepointError('MCP_INVALID_REQUEST', 'Bad request'));
+
+      expect(error.code).toBe(JSON_RPC_ERROR_CODES.INVALID_REQUEST);
+      expect(error.data?.code).toBe('MCP_INVALID_REQUEST');
+    });
+
+    it('should fall back to internal error for generic errors', () => {
+      const error = toJsonRpcError(new Error('boom'));
+
+      expect(error.code).toBe(JSON_RPC_ERROR_CODES.INTERNAL_ERROR);
+      expect(error.message).toBe('boom');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Prometheus Metrics
+ */
+
+import { z } from 'zod';
+import { McpToolRegistry } from '../../src/tools/registry';
+import { MetricsRegistry, metrics, metricsRegistry, normalizeEndpoint } from '../../src/utils/metrics';
+import { taskManager } from '../../src/utils/async-handler';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Metrics', () => {
+  beforeEach(() => {
+    metricsRegistry.reset();
+  });
+
+  it('should render counters and histograms in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const calls = registry.counter('test_calls_total', 'Calls');
+    const latency = registry.histogram('test_latency_seconds', 'Latency', [0.1, 1]);
+
+    calls.inc({ tool: 'list_devices' });
+    calls.inc({ tool: 'list_devices' });
+    calls.inc({ tool: 'say "hi"' });
+    latency.observe({ tool: 'list_devices' }, 0.5);
+    latency.observe({ tool: 'list_devices' }, 2);
+
+    expect(registry.render().split('\n')).toEqual([
+      '# HELP test_calls_total Calls',
+      '# TYPE test_calls_total counter',
+      'test_calls_total{tool="list_devices"} 2',
+      'test_calls_total{tool="say \\"hi\\""} 1',
+      '# HELP test_latency_seconds Latency',
+      '# TYPE test_latency_seconds histogram',
+      'test_latency_seconds_bucket{tool="list_devices",le="0.1"} 0',
+      'test_latency_seconds_bucket{tool="list_devices",le="1"} 1',
+      'test_latency_seconds_bucket{tool="list_devices",le="+Inf"} 2',
+      'test_latency_seconds_sum{tool="list_devices"} 2.5',
+      'test_latency_seconds_count{tool="list_devices"} 2',
+      '',
+    ]);
+  });
+
+  it('should count tool calls, latency and errors by code', async () => {
+    const registry = new McpToolRegistry();
+    registry.register({
+      name: 'echo',
+      description: 'Echo the input',
+      inputSchema: z.object({ value: z.string() }),
+      handler: async () => ({ success: true }),
+    });
+
+    const apiClient = createApiClientStub().client;
+    await registry.execute('echo', { value: 'a' }, apiClient);
+    await registry.execute('echo', { value: 1 }, apiClient);
+
+    expect(metrics.toolCalls.get({ tool: 'echo', outcome: 'success' })).toBe(1);
+    expect(metrics.toolCalls.get({ tool: 'echo', outcome: 'error' })).toBe(1);
+    expect(metrics.toolErrors.get({ tool: 'echo', code: 'VALIDATION_INVALID_INPUT' })).toBe(1);
+    expect(metrics.toolDuration.getCount({ tool: 'echo' })).toBe(2);
+  });
+
+  it('should report task queue depth and label upstream endpoints without IDs', () => {
+    const taskId = `metrics_${Date.now()}`;
+    taskManager.createTask(taskId, 'command', 'Running', { type: 'command' });
+
+    const output = metricsRegistry.render();
+    expect(output).toMatch(/^rp_mcp_tasks\{status="pending"\} [1-9]\d*$/m);
+    expect(output).toMatch(/^rp_mcp_task_capacity \d+$/m);
+
+    expect(normalizeEndpoint('/devices/123/backups/2f1c3a7e-9b1d-4c5e-8f00-1a2b3c4d5e6f?limit=5')).toBe('/devices/:id/backups/:id');
+    expect(normalizeEndpoint('https://rp.example.com/api/v2/jobs/historic')).toBe('/api/v2/jobs/historic');
+
+    taskManager.cancelTask(taskId);
+    taskManager.deleteTask(taskId);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for Webhook Notifications
+ */
+
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { notifier, signPayload } from '../../src/utils/notifier';
+import type { WebhookConfig } from '../../src/config/types';
+import { taskManager } from '../../src/utils/async-handler';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Notifier', () => {
+  // The notifier's own axios instance, created when its module loaded
+  const createHttp = jest.mocked(axios.create);
+  const http = createHttp.mock.results[createHttp.mock.calls.findIndex(([config]) => config?.validateStatus)]
+    .value as jest.Mocked<AxiosInstance>;
+
+  const webhook = (overrides: Partial<WebhookConfig> = {}): WebhookConfig => ({
+    type: 'webhook',
+    enabled: true,
+    recipients: ['https://hooks.example.com/rp'],
+    template: 'json',
+    events: [],
+    retryAttempts: 2,
+    retryDelay: 1,
+    timeout: 1000,
+    ...overrides,
+  });
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    http.post.mockReset();
+  });
+
+  afterEach(() => {
+    notifier.configure([]);
+  });
+
+  it('should send one signed event when a task reaches a final state', async () => {
+    http.post.mockResolvedValue({ status: 200 });
+    notifier.configure([webhook({ template: 'slack', secret: 'a-long-shared-secret' })]);
+
+    const taskId = `notify_${Date.now()}`;
+    taskManager.createTask(taskId, 'command', 'Running show version', { type: 'command' });
+    taskManager.updateTaskStatus(taskId, 'running', 'Running', 50);
+    taskManager.updateTaskStatus(taskId, 'failed', 'Device unreachable');
+    taskManager.updateTaskStatus(taskId, 'failed', 'Device unreachable');
+    await flush();
+
+    expect(http.post).toHaveBeenCalledTimes(1);
+    const [url, body, options] = http.post.mock.calls[0];
+    const headers = options?.headers ?? {};
+    expect(url).toBe('https://hooks.example.com/rp');
+    expect(JSON.parse(String(body)).text).toContain('task.failed');
+    expect(headers['X-RP-Event']).toBe('task.failed');
+    expect(headers['X-RP-Signature']).toBe(
+      signPayload('a-long-shared-secret', String(headers['X-RP-Timestamp']), String(body))
+    );
+
+    taskManager.deleteTask(taskId);
+  });
+
+  it('should retry server errors and give up on client errors', async () => {
+    notifier.configure([webhook({ events: ['backup.failed'] })]);
+    const event = {
+      id: 'event_1',
+      type: 'backup.failed',
+      source: 'test',
+      timestamp: new Date().toISOString(),
+      severity: 'high' as const,
+      message: 'Backup failed',
+    };
+
+    http.post.mockResolvedValueOnce({ status: 503 }).mockResolvedValueOnce({ status: 204 });
+    const [retried] = await notifier.emit(event);
+    expect(retried).toMatchObject({ delivered: true, attempts: 2, status: 204 });
+
+    http.post.mockResolvedValueOnce({ status: 400 });
+    const [rejected] = await notifier.emit(event);
+    expect(rejected).toMatchObject({ delivered: false, attempts: 1, status: 400 });
+
+    expect(await notifier.emit({ ...event, type: 'task.completed' })).toEqual([]);
+  });
+
+  it('should report each new failed backup job from job history once', async () => {
+    http.post.mockResolvedValue({ status: 200 });
+    notifier.configure([webhook({ template: 'teams' })]);
+
+    // Dated ahead of both checks so only the reported-job set keeps the second check quiet
+    const recent = new Date(Date.now() + 60000).toISOString();
+    const { get, client: apiClient } = createApiClientStub();
+    get.mockResolvedValue({
+      success: true,
+      data: [
+        { ID: 11, Type: 'Backup', Status: 'Error', DeviceName: 'CiscoFW1', User: 'system', Updated: recent, Messages: ['Login failed'] },
+        { ID: 12, Type: 'Backup', Status: 'Done', DeviceName: 'CiscoFW2', Updated: recent },
+        { ID: 13, Type: 'Command', Status: 'Error', Updated: recent },
+        { ID: 14, Type: 'Backup', Status: 'Error', Updated: '2020-01-01T00:00:00Z' },
+      ],
+    });
+
+    const events = await notifier.checkBackupJobs(apiClient);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'backup.failed', message: 'Backup of CiscoFW1 failed: Login failed' });
+    expect(events[0].tags).toContain('scheduled');
+    expect(JSON.parse(String(http.post.mock.calls[0][1]))['@type']).toBe('MessageCard');
+
+    expect(await notifier.checkBackupJobs(apiClient)).toHaveLength(0);
+  });
+
+  it('should watch the job history of every target and name the target in its events', async () => {
+    http.post.mockResolvedValue({ status: 200 });
+    notifier.configure([webhook()]);
+
+    const recent = new Date(Date.now() + 60000).toISOString();
+    const history = { success: true, data: [{ ID: 21, Type: 'Backup', Status: 'Error', DeviceName: 'CiscoFW1', Updated: recent }] };
+    const primary = createApiClientStub();
+    const dr = createApiClientStub('dr');
+    primary.get.mockResolvedValue(history);
+    dr.get.mockResolvedValue(history);
+
+    jest.useFakeTimers();
+    try {
+      notifier.watchBackupJobs([primary.client, dr.client], 1000);
+      jest.advanceTimersByTime(1000);
+    } finally {
+      notifier.stopBackupWatch();
+      jest.useRealTimers();
+    }
+    await flush();
+    await flush();
+
+    expect(primary.get).toHaveBeenCalledTimes(1);
+    expect(dr.get).toHaveBeenCalledTimes(1);
+    const sent = http.post.mock.calls.map(([, body]) => JSON.parse(String(body)));
+    expect(sent).toHaveLength(2);
+    expect(sent).toEqual(expect.arrayContaining([
+      expect.objectContaining({ message: 'Backup of CiscoFW1 failed', details: expect.objectContaining({ target: 'default', jobId: '21' }) }),
+      expect.objectContaining({ message: 'Backup of CiscoFW1 on dr failed', details: expect.objectContaining({ target: 'dr', jobId: '21' }) }),
+    ]));
+  });
+});
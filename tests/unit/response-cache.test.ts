@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for Response Caching
+ */
+
+import { z } from 'zod';
+import { McpToolRegistry } from '../../src/tools/registry';
+import { responseCache, stableStringify } from '../../src/utils/response-cache';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Response cache', () => {
+  let registry: McpToolRegistry;
+  const listHandler = jest.fn();
+  const updateHandler = jest.fn();
+  const apiClient = createApiClientStub().client;
+
+  beforeEach(() => {
+    responseCache.configure({ enabled: true, maxEntries: 2, ttl: {} });
+    listHandler.mockReset().mockImplementation(async (args: unknown) => ({ success: true, data: args }));
+    updateHandler.mockReset().mockResolvedValue({ success: true });
+
+    registry = new McpToolRegistry();
+    registry.register({
+      name: 'list_devices',
+      description: 'List devices',
+      inputSchema: z.object({
+        limit: z.number().default(50),
+        filter: z.object({ type: z.string().optional(), enabled: z.boolean().optional() }).optional(),
+        cache: z.enum(['default', 'bypass']).optional(),
+      }),
+      handler: listHandler,
+      cache: { group: 'devices', ttlMs: 60000 },
+    });
+    registry.register({
+      name: 'update_device',
+      description: 'Update a device',
+      inputSchema: z.object({ deviceId: z.string() }),
+      handler: updateHandler,
+      invalidates: ['devices'],
+    });
+  });
+
+  it('should serve repeated calls with equivalent arguments from the cache', async () => {
+    const first = await registry.execute('list_devices', { filter: { type: 'cisco', enabled: true } }, apiClient);
+    const second = await registry.execute('list_devices', { limit: 50, filter: { enabled: true, type: 'cisco' } }, apiClient);
+
+    expect(listHandler).toHaveBeenCalledTimes(1);
+    expect(listHandler.mock.calls[0][0]).not.toHaveProperty('cache');
+    expect(first.metadata).toBeUndefined();
+    expect(second).toMatchObject({ success: true, data: first.data, metadata: { cache: { hit: true } } });
+
+    await registry.execute('list_devices', { limit: 50, filter: { enabled: true, type: 'cisco' }, cache: 'bypass' }, apiClient);
+    expect(listHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate cached reads when a write succeeds', async () => {
+    await registry.execute('list_devices', {}, apiClient);
+    updateHandler.mockResolvedValueOnce({ success: false, error: { code: 'DEVICE_NOT_FOUND', message: 'Not found' } });
+    await registry.execute('update_device', { deviceId: '7' }, apiClient);
+    await registry.execute('list_devices', {}, apiClient);
+    expect(listHandler).toHaveBeenCalledTimes(1);
+
+    await registry.execute('update_device', { deviceId: '7' }, apiClient);
+    await registry.execute('list_devices', {}, apiClient);
+    expect(listHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should honour per-tool TTL overrides, skip failures and evict the least recently used entry', async () => {
+    responseCache.configure({ enabled: true, maxEntries: 2, ttl: { list_devices: 0 } });
+    await registry.execute('list_devices', {}, apiClient);
+    await registry.execute('list_devices', {}, apiClient);
+    expect(listHandler).toHaveBeenCalledTimes(2);
+
+    responseCache.configure({ enabled: true, maxEntries: 2, ttl: {} });
+    listHandler.mockResolvedValueOnce({ success: false, error: { code: 'NETWORK_TIMEOUT', message: 'Timed out' } });
+    await registry.execute('list_devices', { limit: 1 }, apiClient);
+    await registry.execute('list_devices', { limit: 1 }, apiClient);
+    expect(listHandler).toHaveBeenCalledTimes(4);
+
+    await registry.execute('list_devices', { limit: 2 }, apiClient);
+    await registry.execute('list_devices', { limit: 1 }, apiClient);
+    await registry.execute('list_devices', { limit: 3 }, apiClient);
+    expect(responseCache.getStats().size).toBe(2);
+    expect(responseCache.get(`list_devices:${stableStringify({ limit: 2 })}`)).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Restore Tools
+ */
+
+import { handleRestoreBackup, handleListRestores, isRestoreJob } from '../../src/tools/backups/restore';
+import { BackupSchemas } from '../../src/utils/validators';
+import { taskTracker } from '../../src/utils/task-tracker';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Restore tools', () => {
+  const { get, post, client: apiClient } = createApiClientStub();
+
+  const backup = { ID: 7, Name: 'core-sw1 nightly', Created: '2024-05-01T02:00:00Z', ConfigurationTypes: ['running'] };
+  const device = { ID: 12, Name: 'core-sw1' };
+
+  const restoreArgs = (overrides: Record<string, unknown> = {}) =>
+    BackupSchemas.restoreBackup.parse({ deviceId: 12, backupId: 7, ...overrides });
+
+  beforeEach(() => {
+    get.mockReset();
+    post.mockReset();
+    get.mockImplementation(async (endpoint: string) => {
+      if (endpoint === '/devices/12/backups/7') return { success: true, data: backup };
+      if (endpoint === '/devices/12') return { success: true, data: device };
+      if (endpoint.startsWith('/jobs')) return { success: true, data: [] };
+      throw new Error(`Unexpected endpoint ${endpoint}`);
+    });
+  });
+
+  afterAll(() => {
+    taskTracker.shutdown();
+  });
+
+  describe('handleRestoreBackup', () => {
+    it('should preview the target device and backup timestamp on dry run', async () => {
+      const result = await handleRestoreBackup(restoreArgs({ dryRun: true }), apiClient);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        dryRun: true,
+        preview: {
+          backup: { id: '7', created: '2024-05-01T02:00:00Z' },
+          targetDevice: { id: '12', name: 'core-sw1' },
+        },
+        request: { method: 'POST', url: 'https://rp.example.com/api/v2/devices/12/backups/7/restore', body: { TargetDeviceID: 12 } },
+      });
+      expect(result.message).toContain('2024-05-01T02:00:00Z');
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to restore without confirmation', async () => {
+      const result = await handleRestoreBackup(restoreArgs(), apiClient);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('BACKUP_RESTORE_NOT_CONFIRMED');
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should restore and track the matching restore job when confirmed', async () => {
+      post.mockResolvedValue({ success: true, data: '' });
+      get.mockImplementation(async (endpoint: string) => {
+        if (endpoint === '/devices/12/backups/7') return { success: true, data: backup };
+        if (endpoint === '/devices/12') return { success: true, data: device };
+        return { success: true, data: [{ ID: 99, Type: 'Restore', DeviceID: 12, Status: 'Running', Created: new Date().toISOString() }] };
+      });
+
+      const result = await handleRestoreBackup(restoreArgs({ confirm: true, resetAfter: true }), apiClient);
+
+      expect(post).toHaveBeenCalledWith('/devices/12/backups/7/restore', { TargetDeviceID: 12, ResetAfter: true });
+      expect(result.success).toBe(true);
+      expect(result.metadata).toMatchObject({ upstreamTaskId: '99', taskId: expect.any(String) });
+    });
+
+    it('should not track an earlier restore job as the one just started', async () => {
+      post.mockResolvedValue({ success: true, data: '' });
+      get.mockImplementation(async (endpoint: string) => {
+        if (endpoint === '/devices/12/backups/7') return { success: true, data: backup };
+        if (endpoint === '/devices/12') return { success: true, data: device };
+        return {
+          success: true,
+          data: [
+            { ID: 98, Type: 'Restore', DeviceID: 12, Status: 'Done', Created: '2024-05-01T03:00:00Z' },
+            { ID: 97, Type: 'Restore', DeviceID: 12, Status: 'Done' },
+          ],
+        };
+      });
+
+      const result = await handleRestoreBackup(restoreArgs({ confirm: true }), apiClient);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ upstreamTaskId: null });
+      expect(result.metadata).toBeUndefined();
+    });
+  });
+
+  describe('handleListRestores', () => {
+    it('should only return restore jobs for the requested device', async () => {
+      get.mockImplementation(async (endpoint: string) => ({
+        success: true,
+        data: endpoint.startsWith('/jobs/historic')
+          ? [{ ID: 1, Type: 'Restore', DeviceID: 12 }, { ID: 2, Type: 'Restore', DeviceID: 13 }]
+          : [{ ID: 3, Type: 'Backup', DeviceID: 12 }],
+      }));
+
+      const result = await handleListRestores(BackupSchemas.listRestores.parse({ deviceId: '12' }), apiClient);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ active: [], historic: [{ ID: 1, Type: 'Restore', DeviceID: 12 }] });
+    });
+  });
+
+  describe('isRestoreJob', () => {
+    it('should match restore job types case-insensitively', () => {
+      expect(isRestoreJob({ Type: 'Restore' })).toBe(true);
+      expect(isRestoreJob({ type: 'config restore' })).toBe(true);
+      expect(isRestoreJob({ Type: 'Backup' })).toBe(false);
+      expect(isRestoreJob(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for Zod to JSON Schema conversion
+ */
+
+import { z } from 'zod';
+import { zodToInputSchema, zodToProperty } from '../../src/utils/schema-converter';
+import { CommonSchemas, BackupSchemas } from '../../src/utils/validators';
+
+describe('zodToInputSchema', () => {
+  it('should convert object properties and required fields', () => {
+    const schema = zodToInputSchema(z.object({
+      name: z.string().min(1).max(10).describe('Name'),
+      count: z.number().int().min(0).default(5),
+      enabled: z.boolean().optional(),
+    }));
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 10, description: 'Name' },
+        count: { type: 'integer', minimum: 0, default: 5 },
+        enabled: { type: 'boolean' },
+      },
+      required: ['name'],
+    });
+  });
+
+  it('should see through refinements and preprocessing', () => {
+    const schema = zodToInputSchema(BackupSchemas.createBackup);
+
+    expect(schema.required).toBeUndefined();
+    expect(schema.properties.deviceIds).toMatchObject({
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+      maxItems: 100,
+    });
+    expect(schema.properties.backupType.default).toBe('automatic');
+  });
+
+  it('should reject non-object schemas', () => {
+    expect(() => zodToInputSchema(z.string())).toThrow('Tool input schemas must be zod objects');
+  });
+});
+
+describe('zodToProperty', () => {
+  it('should convert enums, datetimes and records', () => {
+    expect(zodToProperty(CommonSchemas.sortOrder)).toEqual({ type: 'string', enum: ['asc', 'desc'] });
+    expect(zodToProperty(z.string().datetime())).toEqual({ type: 'string', format: 'date-time' });
+    expect(zodToProperty(z.record(z.string()))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'string' },
+    });
+  });
+});
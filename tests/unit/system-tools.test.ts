@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for System Tools
+ */
+
+import { evaluateSystemHealth, handleGetLicenses, daysUntil } from '../../src/tools/system/index';
+import { SystemSchemas } from '../../src/utils/validators';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('System tools', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+  const status = {
+    Appliance: { Version: '5.4', Build: '20240101', Expiration: 'Dec 31 2024', MaxDevices: 100 },
+    Storage: { Total: 1000, Used: 500 },
+    System: { Uptime: 3600, Memory: { Total: 100, Used: 40 } },
+  };
+
+  describe('evaluateSystemHealth', () => {
+    it('should report a healthy standalone appliance', () => {
+      const health = evaluateSystemHealth(status, null, 12, now);
+
+      expect(health).toMatchObject({ status: 'healthy', uptime: 3600, version: '5.4 (build 20240101)', environment: 'standalone' });
+      expect(health.checks.map(check => check.service)).toEqual(['api', 'storage', 'memory', 'license']);
+    });
+
+    it('should degrade on nearly full storage and a failing HA cluster', () => {
+      const health = evaluateSystemHealth(
+        { ...status, Storage: { Total: 1000, Used: 900 } },
+        { Active: true, ClusterStatus: 'Peer unreachable' },
+        12,
+        now
+      );
+
+      expect(health.status).toBe('degraded');
+      expect(health.environment).toBe('ha-active');
+      expect(health.checks.filter(check => check.status === 'degraded').map(check => check.service))
+        .toEqual(['storage', 'high-availability']);
+    });
+
+    it('should be unhealthy once the licence has expired', () => {
+      const health = evaluateSystemHealth({ ...status, Appliance: { Expiration: 'Jan 1 2024' } }, null, 12, now);
+
+      expect(health.status).toBe('unhealthy');
+      expect(daysUntil('not a date', now)).toBeUndefined();
+    });
+  });
+
+  describe('handleGetLicenses', () => {
+    it('should report device licence usage against capacity', async () => {
+      const { get, client } = createApiClientStub();
+      get.mockImplementation(async (endpoint: string) =>
+        endpoint === '/status'
+          ? { success: true, data: status }
+          : { success: true, data: [{ ID: 1 }], metadata: { total: 95 } }
+      );
+
+      const result = await handleGetLicenses(SystemSchemas.getLicenses.parse({}), client);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        devices: { used: 95, capacity: 100, available: 5, usedPercent: 95, status: 'degraded' },
+      });
+    });
+  });
+});
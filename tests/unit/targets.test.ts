@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Restorepoint Targets
+ */
+
+import { z } from 'zod';
+import { ApiClient } from '../../src/auth/api-client';
+import { McpToolRegistry } from '../../src/tools/registry';
+import { handleListTargets } from '../../src/tools/system/index';
+import type { McpContext } from '../../src/types/mcp-tools';
+import { responseCache } from '../../src/utils/response-cache';
+import { SystemSchemas } from '../../src/utils/validators';
+import { createApiClients } from '../helpers/api-client-stub';
+
+describe('Restorepoint targets', () => {
+  const appliance = (serverUrl: string, token: string) => ({
+    serverUrl,
+    apiVersion: 'v2' as const,
+    token,
+    timeout: 30000,
+    retryAttempts: 3,
+    retryDelay: 1000,
+    circuitBreaker: { failureThreshold: 5, resetTimeout: 30000 },
+  });
+
+  let registry: McpToolRegistry;
+  const listHandler = jest.fn(async (_args: unknown, apiClient: ApiClient, context: McpContext) => ({
+    success: true,
+    data: { client: apiClient.getTarget().name, context: context.target },
+  }));
+  const updateHandler = jest.fn(async () => ({ success: true }));
+
+  beforeAll(async () => {
+    await createApiClients(jest.fn(), {
+      restorepoint: appliance('https://rp-prod.example.com', 'prod-token'),
+      targets: [{ ...appliance('https://rp-lab.example.com', 'lab-token'), name: 'lab', description: 'Lab appliance' }],
+    });
+  });
+
+  beforeEach(() => {
+    ApiClient.getTargets().forEach(client => client.initializeToken());
+    responseCache.configure({ enabled: true, maxEntries: 100, ttl: {} });
+    listHandler.mockClear();
+
+    registry = new McpToolRegistry();
+    registry.register({
+      name: 'list_devices',
+      description: 'List devices',
+      inputSchema: z.object({ limit: z.number().default(50) }),
+      handler: listHandler,
+      cache: { group: 'devices', ttlMs: 60000 },
+    });
+    registry.register({
+      name: 'update_device',
+      description: 'Update a device',
+      inputSchema: z.object({}),
+      handler: updateHandler,
+      invalidates: ['devices'],
+    });
+  });
+
+  it('should route the target argument to that target\'s client', async () => {
+    const defaultClient = ApiClient.getInstance();
+
+    const local = await registry.execute('list_devices', {}, defaultClient);
+    const lab = await registry.execute('list_devices', { target: 'lab' }, defaultClient);
+    const unknown = await registry.execute('list_devices', { target: 'dr' }, defaultClient);
+
+    expect(local.data).toEqual({ client: 'default', context: 'default' });
+    expect(lab.data).toEqual({ client: 'lab', context: 'lab' });
+    expect(listHandler.mock.calls[1][0]).toEqual({ limit: 50 });
+    expect(unknown.error).toMatchObject({ code: 'VALIDATION_INVALID_INPUT', message: expect.stringContaining('Unknown target: dr') });
+    expect(registry.get('list_devices')?.inputSchema.properties).toHaveProperty('target.type', 'string');
+  });
+
+  it('should cache and invalidate responses per target', async () => {
+    const defaultClient = ApiClient.getInstance();
+
+    await registry.execute('list_devices', {}, defaultClient);
+    await registry.execute('list_devices', { target: 'lab' }, defaultClient);
+    await registry.execute('update_device', { target: 'lab' }, defaultClient);
+    const local = await registry.execute('list_devices', {}, defaultClient);
+    await registry.execute('list_devices', { target: 'lab' }, defaultClient);
+
+    expect(local.metadata).toMatchObject({ cache: { hit: true } });
+    expect(listHandler).toHaveBeenCalledTimes(3);
+    expect(listHandler.mock.calls.map(call => call[1].getTarget().name)).toEqual(['default', 'lab', 'lab']);
+  });
+
+  it('should list targets with their state but without tokens', async () => {
+    jest.spyOn(ApiClient.getInstance(), 'get').mockResolvedValue({ success: true, data: { Appliance: { Version: '5.4' } } });
+    jest.spyOn(ApiClient.getInstance('lab'), 'get').mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const result = await handleListTargets(SystemSchemas.listTargets.parse({ checkConnectivity: true }));
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([
+      expect.objectContaining({
+        name: 'default', serverUrl: 'https://rp-prod.example.com', isDefault: true, authenticated: true,
+        circuitBreaker: 'CLOSED', connectivity: expect.objectContaining({ reachable: true, version: '5.4' }),
+      }),
+      expect.objectContaining({
+        name: 'lab', description: 'Lab appliance', isDefault: false, authenticated: true,
+        connectivity: expect.objectContaining({ reachable: false, error: 'connect ECONNREFUSED' }),
+      }),
+    ]);
+    expect(JSON.stringify(result.data)).not.toContain('token');
+  });
+});
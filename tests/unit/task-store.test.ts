@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Task Stores
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTaskStore, MemoryTaskStore } from '../../src/utils/task-store';
+import type { StoredTask } from '../../src/utils/task-store';
+import { taskManager } from '../../src/utils/async-handler';
+import { taskTracker } from '../../src/utils/task-tracker';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Task stores', () => {
+  let dir: string;
+  let filePath: string;
+
+  const storedTask = (id: string, overrides: Partial<StoredTask> = {}): StoredTask => ({
+    id,
+    type: 'backup',
+    status: 'running',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    progress: 10,
+    message: 'Backup of 1 device(s)',
+    timeoutMs: 3600000,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'task-store-'));
+    filePath = join(dir, 'tasks.jsonl');
+  });
+
+  afterEach(() => {
+    taskTracker.shutdown();
+    taskManager.useStore(new MemoryTaskStore());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should replay JSON lines and compact them on load', () => {
+    const store = new FileTaskStore(filePath);
+    store.load();
+    store.save(storedTask('a'));
+    store.save(storedTask('a', { status: 'completed', progress: 100 }));
+    store.save(storedTask('b'));
+    store.delete('b');
+    writeFileSync(filePath, `${readFileSync(filePath, 'utf8')}not json\n`);
+
+    const tasks = new FileTaskStore(filePath).load();
+
+    expect(tasks).toEqual([expect.objectContaining({ id: 'a', status: 'completed', progress: 100 })]);
+    expect(readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should restore tasks and re-attach to their upstream jobs', () => {
+    const store = new FileTaskStore(filePath);
+    store.load();
+    store.save(storedTask('backup_1', { details: { upstreamTaskId: '55', statusEndpoint: '/jobs/55' } }));
+    store.save(storedTask('command_2', { type: 'command' }));
+    store.save(storedTask('backup_old', {
+      status: 'completed',
+      updatedAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+    }));
+
+    const restored = taskManager.useStore(new FileTaskStore(filePath), { historyRetentionMs: 60 * 60 * 1000 });
+    const resumed = taskTracker.resume(createApiClientStub().client);
+
+    expect(restored.map(task => task.id)).toEqual(['backup_1', 'command_2', 'backup_old']);
+    expect(taskManager.getTask('backup_old')).toBeNull();
+    expect(resumed).toBe(1);
+    expect(taskTracker.getTrackedCount()).toBe(1);
+    expect(taskManager.getTask('command_2')?.status).toBe('failed');
+    expect(readFileSync(filePath, 'utf8')).toContain('Interrupted by a server restart');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Task Tracker
+ */
+
+import {
+  extractUpstreamTaskId,
+  isTerminalStatus,
+  mapUpstreamTaskStatus,
+  parseUpstreamTask,
+  taskTracker,
+} from '../../src/utils/task-tracker';
+import { taskManager } from '../../src/utils/async-handler';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('TaskTracker helpers', () => {
+  describe('mapUpstreamTaskStatus', () => {
+    it('should map Restorepoint job statuses', () => {
+      expect(mapUpstreamTaskStatus('Pending')).toBe('pending');
+      expect(mapUpstreamTaskStatus('Running')).toBe('running');
+      expect(mapUpstreamTaskStatus('Paused')).toBe('running');
+      expect(mapUpstreamTaskStatus('Done')).toBe('completed');
+      expect(mapUpstreamTaskStatus('Error')).toBe('failed');
+      expect(mapUpstreamTaskStatus('Stopped')).toBe('cancelled');
+    });
+
+    it('should treat unknown statuses as running', () => {
+      expect(mapUpstreamTaskStatus('Mystery')).toBe('running');
+      expect(mapUpstreamTaskStatus(undefined)).toBe('running');
+    });
+  });
+
+  describe('parseUpstreamTask', () => {
+    it('should read status, progress and the latest message', () => {
+      const snapshot = parseUpstreamTask({
+        Status: 'Running',
+        Progress: 60,
+        Messages: ['Connecting', 'Downloading configuration'],
+      });
+
+      expect(snapshot.status).toBe('running');
+      expect(snapshot.progress).toBe(60);
+      expect(snapshot.message).toBe('Downloading configuration');
+    });
+
+    it('should unwrap a data envelope', () => {
+      const snapshot = parseUpstreamTask({ data: { status: 'completed', progress: 100 } });
+
+      expect(snapshot.status).toBe('completed');
+      expect(snapshot.progress).toBe(100);
+    });
+  });
+
+  describe('extractUpstreamTaskId', () => {
+    it('should accept the common id fields', () => {
+      expect(extractUpstreamTaskId({ ID: 42 })).toBe('42');
+      expect(extractUpstreamTaskId({ taskId: 'abc' })).toBe('abc');
+      expect(extractUpstreamTaskId({})).toBeNull();
+      expect(extractUpstreamTaskId(null)).toBeNull();
+    });
+  });
+
+  describe('isTerminalStatus', () => {
+    it('should identify finished tasks', () => {
+      expect(isTerminalStatus('completed')).toBe(true);
+      expect(isTerminalStatus('timeout')).toBe(true);
+      expect(isTerminalStatus('running')).toBe(false);
+    });
+  });
+});
+
+describe('TaskTracker.waitFor', () => {
+  afterEach(() => {
+    taskTracker.shutdown();
+  });
+
+  it('should poll until the upstream task finishes', async () => {
+    const { get, client } = createApiClientStub();
+    get
+      .mockResolvedValueOnce({ success: true, data: { Status: 'Running', Progress: 40 } })
+      .mockResolvedValueOnce({ success: true, data: { Status: 'Done', Progress: 100 } });
+
+    const result = await taskTracker.waitFor(client, '7', { type: 'backup', timeoutMs: 1000, pollIntervalMs: 1 });
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(get).toHaveBeenCalledWith('/tasks/7', { maxRetries: 1 });
+    expect(result).toMatchObject({ upstreamTaskId: '7', timedOut: false, snapshot: { status: 'completed' } });
+    expect(taskManager.getTask(result.task.id)?.status).toBe('completed');
+  });
+
+  it('should hand the task over to background tracking when the wait times out', async () => {
+    const { get, client } = createApiClientStub();
+    get.mockResolvedValue({ success: true, data: { Status: 'Running' } });
+
+    const result = await taskTracker.waitFor(client, '8', { type: 'command', timeoutMs: 20, pollIntervalMs: 5 });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.task.status).toBe('running');
+    expect(taskTracker.getTrackedCount()).toBe(1);
+  });
+});
+
@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for Text Diff
+ */
+
+import { diffLines, formatUnifiedDiff, parseHtmlDiff, summarizeDiffOps, summarizeDiffText } from '../../src/utils/text-diff';
+
+describe('Text diff', () => {
+  const before = ['hostname core-sw1', 'interface Gi0/1', ' shutdown', 'ntp server 10.0.0.1', 'end'];
+  const after = ['hostname core-sw1', 'interface Gi0/1', ' no shutdown', 'ntp server 10.0.0.1', 'logging host 10.0.0.5', 'end'];
+
+  it('should detect added and removed lines', () => {
+    const summary = summarizeDiffOps(diffLines(before, after));
+
+    expect(summary.added).toBe(2);
+    expect(summary.removed).toBe(1);
+    expect(summary.addedLines).toEqual([' no shutdown', 'logging host 10.0.0.5']);
+    expect(summary.removedLines).toEqual([' shutdown']);
+    expect(summary.truncated).toBe(false);
+  });
+
+  it('should render a unified diff with hunk headers', () => {
+    const diff = formatUnifiedDiff(diffLines(before, after), { context: 1, oldLabel: 'old', newLabel: 'new' });
+
+    expect(diff.split('\n')).toEqual([
+      '--- old',
+      '+++ new',
+      '@@ -2,4 +2,5 @@',
+      ' interface Gi0/1',
+      '- shutdown',
+      '+ no shutdown',
+      ' ntp server 10.0.0.1',
+      '+logging host 10.0.0.5',
+      ' end',
+    ]);
+  });
+
+  it('should return an empty diff for identical input', () => {
+    expect(formatUnifiedDiff(diffLines(before, before))).toBe('');
+  });
+
+  it('should summarize appliance (normal) and unified diff text', () => {
+    const normal = summarizeDiffText('138c138\n< banner login old\n---\n> banner login new\n');
+    const unified = summarizeDiffText('--- a\n+++ b\n@@ -1,1 +1,1 @@\n-old\n+new');
+
+    expect(normal).toMatchObject({ added: 1, removed: 1, addedLines: ['banner login new'] });
+    expect(unified).toMatchObject({ added: 1, removed: 1, removedLines: ['old'] });
+  });
+
+  it('should convert the appliance HTML diff to normal diff text', () => {
+    const html = '1\n<div>uptime</div><div class="diffr">up 3 days &amp; 2 hours</div><div>&nbsp;</div>\n'
+      + '<div>uptime</div><div class="diffr">up 4 days</div><div>&nbsp;</div>';
+
+    expect(parseHtmlDiff(html)).toBe('< up 3 days & 2 hours\n> up 4 days');
+  });
+});
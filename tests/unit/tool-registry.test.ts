@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Tool Registry
+ */
+
+import { z } from 'zod';
+import { McpToolRegistry } from '../../src/tools/registry';
+import { toolRegistry } from '../../src/tools/index';
+import { RestorepointError } from '../../src/constants/error-codes';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('McpToolRegistry', () => {
+  let registry: McpToolRegistry;
+  const handler = jest.fn(async () => ({ success: true, data: 'ok' }));
+  const apiClient = createApiClientStub().client;
+
+  beforeEach(() => {
+    registry = new McpToolRegistry();
+    handler.mockClear();
+    registry.register({
+      name: 'echo',
+      description: 'Echo the input',
+      inputSchema: z.object({ value: z.string() }),
+      handler,
+    });
+  });
+
+  it('should list registered tools without implementation details', () => {
+    const tools = registry.list();
+
+    expect(tools).toHaveLength(1);
+    expect(tools[0]).toEqual({ name: 'echo', description: 'Echo the input', inputSchema: expect.any(Object) });
+    expect(registry.names()).toEqual(['echo']);
+  });
+
+  it('should reject duplicate tool names', () => {
+    expect(() => registry.register({
+      name: 'echo',
+      description: 'Duplicate',
+      inputSchema: z.object({}),
+      handler,
+    })).toThrow(RestorepointError);
+  });
+
+  it('should execute a tool with its context', async () => {
+    const result = await registry.execute('echo', { value: 'hi' }, apiClient, { requestId: 'req-1' });
+
+    expect(result.success).toBe(true);
+    expect(handler).toHaveBeenCalledWith(
+      { value: 'hi' },
+      apiClient,
+      expect.objectContaining({ toolName: 'echo', requestId: 'req-1' })
+    );
+  });
+
+  it('should publish the JSON Schema derived from the zod schema', () => {
+    expect(registry.get('echo')?.inputSchema).toEqual({
+      type: 'object',
+      properties: { value: { type: 'string' }, target: expect.objectContaining({ type: 'string' }) },
+      required: ['value'],
+    });
+  });
+
+  it('should reject invalid arguments without calling the handler', async () => {
+    const result = await registry.execute('echo', { value: 42 }, apiClient);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('VALIDATION_INVALID_INPUT');
+    expect(result.error?.details).toEqual({ issues: [expect.objectContaining({ path: 'value' })] });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should throw for unknown tools', async () => {
+    await expect(registry.execute('missing', {}, apiClient)).rejects.toThrow('Tool not found: missing');
+  });
+
+  it('should register every built-in tool in the shared registry', () => {
+    expect(toolRegistry.names()).toEqual(expect.arrayContaining([
+      'list_devices', 'test_device_connection', 'get_status', 'create_backup', 'restore_backup', 'list_restores', 'diff_backups', 'get_backup_config',
+      'execute_command', 'get_task_status', 'cancel_task', 'schedule_command', 'delete_command_schedule', 'get_command_output', 'diff_command_outputs', 'list_agents', 'get_agent_debug_log',
+      'get_system_status', 'get_licenses', 'list_targets', 'query_audit_log', 'list_jobs', 'list_job_history',
+    ]));
+    expect(toolRegistry.names()).toHaveLength(38);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for Tracing
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { McpToolRegistry } from '../../src/tools/registry';
+import { FileSpanExporter, formatTraceparent, parseTraceparent, SPAN_KIND, tracer } from '../../src/utils/tracing';
+import { getRequestContext, runWithContext } from '../../src/utils/request-context';
+import { createApiClientStub } from '../helpers/api-client-stub';
+
+describe('Tracing', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tracing-'));
+  });
+
+  afterEach(() => {
+    tracer.useExporter(null);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should parse and format W3C traceparent headers', () => {
+    const header = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    expect(parseTraceparent(header)).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      sampled: true,
+    });
+    expect(formatTraceparent(parseTraceparent(header)!)).toBe(header);
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+    expect(parseTraceparent('not a header')).toBeNull();
+    expect(parseTraceparent(undefined)).toBeNull();
+  });
+
+  it('should nest tool and client spans under the incoming trace and export OTLP/JSON', async () => {
+    const filePath = join(dir, 'traces.jsonl');
+    const exporter = new FileSpanExporter(filePath, 'test-service');
+    tracer.useExporter(exporter);
+
+    const registry = new McpToolRegistry();
+    registry.register({
+      name: 'list_devices',
+      description: 'List devices',
+      inputSchema: z.object({}),
+      handler: async () => {
+        const request = tracer.startSpan('GET /devices', { kind: SPAN_KIND.CLIENT });
+        request.setAttribute('http.response.status_code', 200).end();
+        return { success: true, data: getRequestContext()?.requestId };
+      },
+    });
+
+    const server = tracer.startSpan('POST /tools/execute', {
+      kind: SPAN_KIND.SERVER,
+      parent: parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'),
+    });
+    const result = await runWithContext({ requestId: 'req-1', span: server }, () =>
+      registry.execute('list_devices', {}, createApiClientStub().client)
+    );
+    server.end();
+    exporter.flush();
+
+    expect(result.data).toBe('req-1');
+
+    const [line] = readFileSync(filePath, 'utf8').trim().split('\n');
+    const payload = JSON.parse(line);
+    const spans: any[] = payload.resourceSpans[0].scopeSpans[0].spans;
+    const byName = Object.fromEntries(spans.map(span => [span.name, span]));
+
+    expect(payload.resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'test-service' } },
+    ]);
+    expect(spans.map(span => span.traceId)).toEqual(Array(3).fill('4bf92f3577b34da6a3ce929d0e0e4736'));
+    expect(byName['POST /tools/execute'].parentSpanId).toBe('00f067aa0ba902b7');
+    expect(byName['tool list_devices'].parentSpanId).toBe(byName['POST /tools/execute'].spanId);
+    expect(byName['GET /devices']).toMatchObject({
+      parentSpanId: byName['tool list_devices'].spanId,
+      kind: SPAN_KIND.CLIENT,
+      attributes: [{ key: 'http.response.status_code', value: { intValue: '200' } }],
+    });
+  });
+
+  it('should mark the span as failed when a traced function throws', async () => {
+    const ended: any[] = [];
+    tracer.useExporter({ export: spans => ended.push(...spans), shutdown: () => undefined });
+
+    await expect(tracer.trace('failing', {}, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(ended).toHaveLength(1);
+    expect(ended[0].status).toEqual({ code: 'ERROR', message: 'boom' });
+    expect(ended[0].parentSpanId).toBeUndefined();
+  });
+});
@@ -38,6 +38,20 @@ describe('InputValidator', () => {
       const result = InputValidator.validate(DeviceSchemas.createDevice, validDevice);
       expect(result.isValid).toBe(true);
     });
+
+    it('should normalize numeric resource IDs to strings', () => {
+      const result = InputValidator.validate(CommonSchemas.deviceRef, 42);
+
+      expect(result.isValid).toBe(true);
+      expect(result.data).toBe('42');
+    });
+
+    it('should reject resource IDs that would change the upstream path or query', () => {
+      for (const id of ['1/../../users', '../1', '1?x=y', '1#x', '1%2F2']) {
+        expect(InputValidator.validate(CommonSchemas.deviceRef, id).isValid).toBe(false);
+        expect(InputValidator.validate(CommonSchemas.backupRef, id).isValid).toBe(false);
+      }
+    });
   });
 
   describe('validateOrThrow', () => {